@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "./route";
+
+const get = (query = "") =>
+  GET(new NextRequest(`http://localhost/api/polls/statewide${query}`));
+
+describe("GET /api/polls/statewide", () => {
+  beforeEach(() => {
+    vi.stubEnv("POLL_SOURCE", "file");
+    vi.stubEnv("POLL_SOURCE_FILE", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("averages the sample poll file", async () => {
+    const response = await get();
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.pollSource).toBe("file");
+    expect(body.methodology).toContain("data/statewidePolls.csv");
+    expect(body.asOf).toBe("2024-10-28");
+    // North Carolina has one poll once the C-graded one is dropped.
+    expect(Object.keys(body.shares).sort()).toEqual(["AZ", "OH", "PA"]);
+    expect(body.shares.PA).toBeGreaterThan(0.5);
+    expect(body.shares.AZ).toBeLessThan(0.5);
+    expect(body.details.AZ).toMatchObject({ polls: 2, pollsters: 2 });
+    expect(body.details.OH.races).toEqual(["Senate"]);
+  });
+
+  it("applies query filters and rejects bad ones", async () => {
+    const president = await (await get("?race=president&population=lv")).json();
+    expect(Object.keys(president.shares)).toEqual(["PA"]);
+
+    const invalid = await get("?grade=Z");
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).errors[0]).toMatchObject({ param: "grade" });
+  });
+
+  it("reports a missing poll file as a bad gateway", async () => {
+    vi.stubEnv("POLL_SOURCE_FILE", "missing.csv");
+    const response = await get();
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toContain("data/missing.csv");
+  });
+});
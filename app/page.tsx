@@ -5,39 +5,183 @@ import { useRouter, useSearchParams } from "next/navigation";
 import Controls from "@/components/Controls";
 import USMap from "@/components/USMap";
 import StateTable from "@/components/StateTable";
+import PriorityList from "@/components/PriorityList";
+import ParadoxPanel from "@/components/ParadoxPanel";
+import StatehoodPanel from "@/components/StatehoodPanel";
+import ConstraintsPanel from "@/components/ConstraintsPanel";
+import FairnessPanel from "@/components/FairnessPanel";
+import TippingSizesPanel from "@/components/TippingSizesPanel";
+import PathToMajorityBar from "@/components/PathToMajorityBar";
+import SimulationPanel from "@/components/SimulationPanel";
+import PartisanFairnessPanel from "@/components/PartisanFairnessPanel";
+import OverlayPartiesPanel from "@/components/OverlayPartiesPanel";
+import FairRepresentationPanel from "@/components/FairRepresentationPanel";
+import MmpPanel from "@/components/MmpPanel";
+import PollFiltersPanel from "@/components/PollFiltersPanel";
 import populations from "@/data/populations.json";
 import { midtermHouseDemShareByYear } from "@/data/midtermHouseDemShare";
-import { apportion } from "@/lib/apportionment";
+import {
+  apportion,
+  APPORTIONMENT_METHODS,
+  apportionmentMethodLabel,
+  computeSeatMargins,
+  sweepApportionment,
+  DEFAULT_APPORTIONMENT_METHOD,
+  isDivisorMethod,
+  type ApportionmentMethod,
+} from "@/lib/apportionment";
 import {
   buildStateMetrics,
+  computeDistrictSeats,
+  computeECVotes,
   formatNumber,
   type StateMetrics,
   type StatePopulation,
 } from "@/lib/metrics";
 import {
   hamiltonAllocation,
-  hamiltonThreePartyAllocation,
+  allocateMmpHouse,
+  allocateOverlayHouse,
+  allocateOverlaySeats,
+  DEFAULT_MMP_SETTINGS,
+  DEFAULT_OVERLAY_PARTY_SETTINGS,
+  emptyPartySeats,
+  mmpConstituencySeats,
+  OVERLAY_ALLOCATION_METHODS,
+  OVERLAY_PARTIES,
+  overlayPartyLabel,
+  parseMmpSettings,
+  parseOverlayPartySettings,
   seatShareFromVote,
+  statePartyVoteShares,
+  writeMmpSettings,
+  writeOverlayPartySettings,
+  type MmpSettings,
+  type OverlayAllocationMethod,
+  type OverlayParty,
+  type OverlayPartySettings,
+  type PartySeats,
+  type PartyVoteShares,
+  type SeatVoteCurve,
 } from "@/lib/overlays";
+import {
+  DEFAULT_POLL_FILTERS,
+  writePollFilters,
+  type PollFilterError,
+  type PollFilters,
+} from "@/lib/pollFilters";
+import type { StatePollAverage } from "@/lib/statewidePolls";
+import {
+  DEFAULT_TRANSFER_PREFERENCES,
+  parseTransferPreferences,
+  simulateFairRepresentation,
+  writeTransferPreferences,
+  type TransferPreferences,
+} from "@/lib/fairRepresentation";
+import {
+  DEFAULT_SEAT_VOTE_CURVE,
+  parseSeatVoteCurve,
+  seatVoteCurveLabel,
+  writeSeatVoteCurve,
+} from "@/lib/seatVotes";
 import {
   computeHouseSizeByModel,
   houseModelLabel,
   type HouseModelKey,
 } from "@/lib/houseModels";
+import {
+  findAlabamaParadoxes,
+  findNewStatesParadoxes,
+  findPopulationParadoxes,
+  findQuotaViolations,
+} from "@/lib/paradoxes";
+import { computeFairnessIndices, computeFairnessSweep } from "@/lib/fairness";
+import { computePartisanFairness } from "@/lib/partisanFairness";
+import { computeVotingPower } from "@/lib/power";
+import {
+  CENSUS_YEARS,
+  DEFAULT_CENSUS_YEAR,
+  describeEnactedSeats,
+  getCensusDataset,
+  isCensusYear,
+  previousCensusYear,
+} from "@/lib/census";
+import {
+  applyPopulationBase,
+  DEFAULT_POPULATION_BASE,
+  hasPopulationBase,
+  isPopulationBase,
+  POPULATION_BASES,
+  type PopulationBase,
+} from "@/lib/populationBases";
+import {
+  admittedEntities,
+  applyStatehoodScenario,
+  DEFAULT_STATEHOOD_SCENARIO,
+  findStatehoodRipples,
+  isApportionedEntity,
+  isStatehoodScenario,
+  STATEHOOD_SCENARIOS,
+  statehoodScenarioLabel,
+  type StatehoodScenario,
+} from "@/lib/statehood";
+import {
+  buildHouseSizeFeasibility,
+  computeHouseSizeBounds,
+  DEFAULT_HOUSE_CONSTRAINTS,
+  parseHouseConstraints,
+  writeHouseConstraints,
+  type HouseConstraints,
+} from "@/lib/constraints";
 import {
   computeHistoricalEcOutcomes,
-  PRESIDENTIAL_DEM_WINNERS_BY_YEAR,
+  DEFAULT_ELECTORAL_SYSTEM,
+  ELECTION_YEARS,
+  ELECTORAL_SYSTEMS,
+  electoralSystemLabel,
+  electorsUnderSystem,
+  isElectoralSystem,
+  NPVIC_MEMBERS,
+  presidentialDemShares,
+  tallyElectoralVotes,
+  type ElectoralSystem,
+  type ElectoralSystemOptions,
 } from "@/lib/elections";
+import {
+  DEFAULT_SIMULATION_SETTINGS,
+  parseSimulationSettings,
+  writeSimulationSettings,
+  type SimulationRequest,
+  type SimulationResult,
+  type SimulationSettings,
+} from "@/lib/simulation";
+import { computePathToMajority } from "@/lib/tippingPoint";
+import type { TippingHouseSizeSearch } from "@/lib/tippingSizes";
 
 const DEFAULT_TOTAL = 435;
-const DEFAULT_RESPONSIVENESS: "low" | "medium" | "high" = "medium";
-const DEFAULT_INDEPENDENT_SHARE = 0.02;
+
+const PARTY_BAR_CLASS: Record<OverlayParty, string> = {
+  democrats: "bg-blue-500",
+  libertarians: "bg-amber-400",
+  greens: "bg-green-500",
+  independents: "bg-slate-400",
+  republicans: "bg-red-500",
+};
+
+const PARTY_TEXT_CLASS: Record<OverlayParty, string> = {
+  democrats: "text-blue-600 dark:text-blue-400",
+  libertarians: "text-amber-600 dark:text-amber-400",
+  greens: "text-green-600 dark:text-green-400",
+  independents: "text-slate-700 dark:text-slate-200",
+  republicans: "text-red-600 dark:text-red-400",
+};
 const DEFAULT_HOUSE_MODEL: HouseModelKey = "manual";
 const AUTOMATED_HOUSE_MODELS: HouseModelKey[] = [
   "cubeRoot",
   "proportional500k",
   "wyomingRule",
 ];
+const PRIORITY_LIST_LOOKAHEAD = 5;
 const POLLING_API_URL = "/api/polls/statewide";
 type VoteShareScenarioKey =
   | "livePolls"
@@ -52,21 +196,12 @@ const DEFAULT_SCENARIO: VoteShareScenarioKey = "livePolls";
 type PollingApiResponse = {
   generatedAt: string;
   methodology: string;
-  sourceBaseUrl: string;
+  pollSource: string;
+  sourceBaseUrl: string | null;
+  asOf: string | null;
   coverage: number;
   shares: Record<string, number>;
-  details: Record<
-    string,
-    {
-      share: number;
-      demPct: number;
-      repPct: number;
-      pollster: string;
-      grade: string | null;
-      endDate: string;
-      source: string;
-    }
-  >;
+  details: Record<string, StatePollAverage>;
 };
 
 const parsePartyShares = (value: string | null, states: StatePopulation[]) => {
@@ -95,22 +230,30 @@ const serializePartyShares = (shares: Record<string, number>) => {
 
 const clampShare = (value: number) => Math.min(1, Math.max(0, value));
 
+// House totals under every overlay method at the same threshold.
+const allocationMethodSeats = (
+  seatsByState: Record<string, number>,
+  votesByState: Record<string, PartyVoteShares>,
+  threshold: number
+) => {
+  const result = {} as Record<OverlayAllocationMethod, PartySeats>;
+  OVERLAY_ALLOCATION_METHODS.forEach((method) => {
+    result[method] = allocateOverlayHouse(seatsByState, votesByState, {
+      method,
+      threshold,
+    });
+  });
+  return result;
+};
+
 const presidentialPresetShares = (
   year: 2016 | 2020 | 2024,
   states: StatePopulation[]
 ) => {
-  const demWinners = new Set(PRESIDENTIAL_DEM_WINNERS_BY_YEAR[year]);
+  const source = presidentialDemShares(year);
   const next: Record<string, number> = {};
   states.forEach((state) => {
-    if (state.abbr === "ME") {
-      next[state.abbr] = year === 2016 ? 0.52 : 0.54;
-      return;
-    }
-    if (state.abbr === "NE") {
-      next[state.abbr] = year === 2016 ? 0.39 : year === 2020 ? 0.46 : 0.45;
-      return;
-    }
-    next[state.abbr] = demWinners.has(state.abbr) ? 0.58 : 0.42;
+    if (state.abbr in source) next[state.abbr] = source[state.abbr];
   });
   return next;
 };
@@ -134,15 +277,46 @@ const midtermPresetShares = (
 export default function Home() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const stateData = populations as StatePopulation[];
+  const currentStates = populations as StatePopulation[];
 
+  const [censusYear, setCensusYear] = useState(DEFAULT_CENSUS_YEAR);
+  const [populationBase, setPopulationBase] = useState<PopulationBase>(
+    DEFAULT_POPULATION_BASE
+  );
+  const [statehoodScenario, setStatehoodScenario] = useState<StatehoodScenario>(
+    DEFAULT_STATEHOOD_SCENARIO
+  );
+  const [electoralSystem, setElectoralSystem] = useState<ElectoralSystem>(
+    DEFAULT_ELECTORAL_SYSTEM
+  );
+  const [compactMembers, setCompactMembers] = useState<string[]>(NPVIC_MEMBERS);
+  const [showAllElectionYears, setShowAllElectionYears] = useState(false);
+  const [tippingSearch, setTippingSearch] = useState<{
+    key: string;
+    search: TippingHouseSizeSearch;
+  } | null>(null);
+  const [tippingRunning, setTippingRunning] = useState(false);
+  const [tippingError, setTippingError] = useState<string | null>(null);
+  const tippingWorkerRef = useRef<Worker | null>(null);
+  const tippingRequestRef = useRef<{ id: number; key: string }>({ id: 0, key: "" });
   const [totalSeats, setTotalSeats] = useState(DEFAULT_TOTAL);
+  const [houseConstraints, setHouseConstraints] = useState<HouseConstraints>(
+    DEFAULT_HOUSE_CONSTRAINTS
+  );
+  const [houseSizeNote, setHouseSizeNote] = useState<string | null>(null);
   const [houseModel, setHouseModel] = useState<HouseModelKey>(DEFAULT_HOUSE_MODEL);
+  const [apportionmentMethod, setApportionmentMethod] =
+    useState<ApportionmentMethod>(DEFAULT_APPORTIONMENT_METHOD);
   const [darkMode, setDarkMode] = useState(true);
   const [overlaysEnabled, setOverlaysEnabled] = useState(false);
-  const [responsiveness, setResponsiveness] = useState(DEFAULT_RESPONSIVENESS);
-  const [independentShare, setIndependentShare] = useState(
-    DEFAULT_INDEPENDENT_SHARE
+  const [seatVoteCurve, setSeatVoteCurve] = useState<SeatVoteCurve>(
+    DEFAULT_SEAT_VOTE_CURVE
+  );
+  const [overlayPartySettings, setOverlayPartySettings] =
+    useState<OverlayPartySettings>(DEFAULT_OVERLAY_PARTY_SETTINGS);
+  const [mmpSettings, setMmpSettings] = useState<MmpSettings>(DEFAULT_MMP_SETTINGS);
+  const [transferPreferences, setTransferPreferences] = useState<TransferPreferences>(
+    DEFAULT_TRANSFER_PREFERENCES
   );
   const [selectedState, setSelectedState] = useState<string | null>(null);
   const [partyShares, setPartyShares] = useState<Record<string, number>>({});
@@ -154,27 +328,53 @@ export default function Home() {
   const [pollingSummary, setPollingSummary] = useState<{
     coverage: number;
     generatedAt: string;
+    asOf: string | null;
+    applied: boolean;
   } | null>(null);
   const [pollingError, setPollingError] = useState<string | null>(null);
+  const [pollFilters, setPollFilters] = useState<PollFilters>(DEFAULT_POLL_FILTERS);
   const initializedPollingRef = useRef(false);
+  const [simulationSettings, setSimulationSettings] = useState<SimulationSettings>(
+    DEFAULT_SIMULATION_SETTINGS
+  );
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [simulationRunning, setSimulationRunning] = useState(false);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const simulationWorkerRef = useRef<Worker | null>(null);
+  // Id of the latest request; older results are dropped.
+  const simulationRequestRef = useRef(0);
 
   useEffect(() => {
     const querySeats = Number(searchParams.get("N"));
     const queryHouseModel = searchParams.get("hm") as HouseModelKey | null;
+    const queryMethod = searchParams.get("am") as ApportionmentMethod | null;
+    const queryCensusYear = Number(searchParams.get("census"));
+    const queryBase = searchParams.get("base");
+    const queryStatehood = searchParams.get("statehood");
+    const queryElectoralSystem = searchParams.get("ecs");
+    const queryCompact = searchParams.get("compact");
     const queryOverlays = searchParams.get("overlays");
     const queryScenario = searchParams.get("scenario") as
       | VoteShareScenarioKey
       | null;
-    const queryResponsiveness = searchParams.get("resp") as
-      | "low"
-      | "medium"
-      | "high"
-      | null;
-    const queryIndependentShare = Number(searchParams.get("ind"));
 
-    if (!Number.isNaN(querySeats) && querySeats >= 435) {
-      setTotalSeats(Math.min(1200, querySeats));
+    // Sizes outside the active constraints are moved onto the nearest
+    // feasible size once the constraints are known.
+    if (Number.isInteger(querySeats) && querySeats > 0) {
+      setTotalSeats(querySeats);
     }
+    const queryConstraints = parseHouseConstraints(searchParams);
+    setHouseConstraints((prev) =>
+      JSON.stringify(prev) === JSON.stringify(queryConstraints)
+        ? prev
+        : queryConstraints
+    );
+    const querySimulation = parseSimulationSettings(searchParams);
+    setSimulationSettings((prev) =>
+      JSON.stringify(prev) === JSON.stringify(querySimulation)
+        ? prev
+        : querySimulation
+    );
     if (
       queryHouseModel &&
       ["manual", "cubeRoot", "proportional500k", "wyomingRule"].includes(
@@ -183,6 +383,27 @@ export default function Home() {
     ) {
       setHouseModel(queryHouseModel);
     }
+    if (queryMethod && APPORTIONMENT_METHODS.includes(queryMethod)) {
+      setApportionmentMethod(queryMethod);
+    }
+    if (isCensusYear(queryCensusYear)) {
+      setCensusYear(queryCensusYear);
+    }
+    if (isPopulationBase(queryBase)) {
+      setPopulationBase(queryBase);
+    }
+    if (isStatehoodScenario(queryStatehood)) {
+      setStatehoodScenario(queryStatehood);
+    }
+    if (isElectoralSystem(queryElectoralSystem)) {
+      setElectoralSystem(queryElectoralSystem);
+    }
+    if (queryCompact !== null) {
+      const members = queryCompact.split(",").filter(Boolean).sort();
+      setCompactMembers((prev) =>
+        prev.join(",") === members.join(",") ? prev : members
+      );
+    }
     if (queryOverlays) {
       setOverlaysEnabled(queryOverlays === "1");
     }
@@ -200,38 +421,73 @@ export default function Home() {
     ) {
       setVoteShareScenario(queryScenario);
     }
-    if (
-      queryResponsiveness &&
-      ["low", "medium", "high"].includes(queryResponsiveness)
-    ) {
-      setResponsiveness(queryResponsiveness);
-    }
-    if (!Number.isNaN(queryIndependentShare)) {
-      setIndependentShare(Math.min(0.2, Math.max(0, queryIndependentShare / 100)));
-    }
-    setPartyShares(parsePartyShares(searchParams.get("partyA"), stateData));
-  }, [searchParams, stateData]);
+    const queryCurve = parseSeatVoteCurve(searchParams);
+    setSeatVoteCurve((prev) =>
+      JSON.stringify(prev) === JSON.stringify(queryCurve) ? prev : queryCurve
+    );
+    const queryPartySettings = parseOverlayPartySettings(searchParams);
+    setOverlayPartySettings((prev) =>
+      JSON.stringify(prev) === JSON.stringify(queryPartySettings)
+        ? prev
+        : queryPartySettings
+    );
+    const queryMmp = parseMmpSettings(searchParams);
+    setMmpSettings((prev) =>
+      JSON.stringify(prev) === JSON.stringify(queryMmp) ? prev : queryMmp
+    );
+    const queryPreferences = parseTransferPreferences(searchParams);
+    setTransferPreferences((prev) =>
+      JSON.stringify(prev) === JSON.stringify(queryPreferences) ? prev : queryPreferences
+    );
+    setPartyShares(parsePartyShares(searchParams.get("partyA"), currentStates));
+  }, [searchParams, currentStates]);
 
   useEffect(() => {
     document.documentElement.classList.toggle("dark", darkMode);
   }, [darkMode]);
 
-  useEffect(() => {
-    if (houseModel === "manual") return;
-    const computed = computeHouseSizeByModel(houseModel, stateData, totalSeats);
-    if (computed !== totalSeats) {
-      setTotalSeats(computed);
-    }
-  }, [houseModel, stateData, totalSeats]);
+  const censusDataset = useMemo(() => getCensusDataset(censusYear), [censusYear]);
+  const baseAvailable = hasPopulationBase(censusDataset.states, populationBase);
+  const activeBase = baseAvailable ? populationBase : DEFAULT_POPULATION_BASE;
+  // Territory counts only exist for the latest census.
+  const includeTerritories = censusYear === DEFAULT_CENSUS_YEAR;
+  const stateData = useMemo(
+    () =>
+      applyStatehoodScenario(
+        applyPopulationBase(censusDataset.states, activeBase),
+        statehoodScenario,
+        includeTerritories
+      ),
+    [censusDataset, activeBase, statehoodScenario, includeTerritories]
+  );
+  const apportionedStates = useMemo(
+    () =>
+      stateData.filter((state) =>
+        isApportionedEntity(state.abbr, statehoodScenario)
+      ),
+    [stateData, statehoodScenario]
+  );
 
   useEffect(() => {
     const params = new URLSearchParams();
     params.set("N", String(totalSeats));
+    writeHouseConstraints(params, houseConstraints);
     params.set("hm", houseModel);
+    params.set("am", apportionmentMethod);
+    params.set("census", String(censusYear));
+    params.set("base", populationBase);
+    params.set("statehood", statehoodScenario);
+    params.set("ecs", electoralSystem);
+    if (compactMembers.join(",") !== NPVIC_MEMBERS.join(",")) {
+      params.set("compact", compactMembers.join(","));
+    }
     params.set("overlays", overlaysEnabled ? "1" : "0");
     params.set("scenario", voteShareScenario);
-    params.set("resp", responsiveness);
-    params.set("ind", String(Math.round(independentShare * 100)));
+    writeSeatVoteCurve(params, seatVoteCurve);
+    writeOverlayPartySettings(params, overlayPartySettings);
+    writeMmpSettings(params, mmpSettings);
+    writeTransferPreferences(params, transferPreferences);
+    writeSimulationSettings(params, simulationSettings);
     const shareString = serializePartyShares(partyShares);
     if (shareString) {
       params.set("partyA", shareString);
@@ -239,12 +495,22 @@ export default function Home() {
     router.replace(`/?${params.toString()}`, { scroll: false });
   }, [
     totalSeats,
+    houseConstraints,
     houseModel,
+    apportionmentMethod,
+    censusYear,
+    populationBase,
+    statehoodScenario,
+    electoralSystem,
+    compactMembers,
     overlaysEnabled,
     voteShareScenario,
-    responsiveness,
-    independentShare,
+    seatVoteCurve,
+    overlayPartySettings,
+    mmpSettings,
+    transferPreferences,
     partyShares,
+    simulationSettings,
     router,
   ]);
 
@@ -253,23 +519,36 @@ export default function Home() {
       setPollingStatus("loading");
       setPollingError(null);
       try {
-        const response = await fetch(POLLING_API_URL);
+        const params = new URLSearchParams();
+        writePollFilters(params, pollFilters);
+        const query = params.toString();
+        const response = await fetch(
+          query ? `${POLLING_API_URL}?${query}` : POLLING_API_URL
+        );
         if (!response.ok) {
-          throw new Error("Failed to fetch statewide polling data");
+          const failure = (await response.json().catch(() => null)) as {
+            errors?: PollFilterError[];
+          } | null;
+          throw new Error(
+            failure?.errors?.map((entry) => entry.message).join(" ") ||
+              "Failed to fetch statewide polling data"
+          );
         }
         const payload = (await response.json()) as PollingApiResponse;
         setPollingSummary({
           coverage: payload.coverage,
           generatedAt: payload.generatedAt,
+          asOf: payload.asOf,
+          applied: applyToInputs,
         });
         if (applyToInputs) {
-          setPartyShares((prev) => {
-            const next = { ...prev };
-            Object.entries(payload.shares).forEach(([abbr, share]) => {
-              next[abbr] = clampShare(share);
-            });
-            return next;
+          // States the current filters do not cover go back to even, so no
+          // share lingers from an earlier filter.
+          const next = parsePartyShares(null, currentStates);
+          Object.entries(payload.shares).forEach(([abbr, share]) => {
+            next[abbr] = clampShare(share);
           });
+          setPartyShares(next);
         }
         setPollingStatus("loaded");
       } catch (error) {
@@ -279,7 +558,7 @@ export default function Home() {
         );
       }
     },
-    []
+    [pollFilters, currentStates]
   );
 
   useEffect(() => {
@@ -297,53 +576,376 @@ export default function Home() {
       return;
     }
     if (voteShareScenario === "pres2024") {
-      setPartyShares(presidentialPresetShares(2024, stateData));
+      setPartyShares(presidentialPresetShares(2024, currentStates));
       return;
     }
     if (voteShareScenario === "pres2020") {
-      setPartyShares(presidentialPresetShares(2020, stateData));
+      setPartyShares(presidentialPresetShares(2020, currentStates));
       return;
     }
     if (voteShareScenario === "pres2016") {
-      setPartyShares(presidentialPresetShares(2016, stateData));
+      setPartyShares(presidentialPresetShares(2016, currentStates));
       return;
     }
     if (voteShareScenario === "house2022") {
-      setPartyShares(midtermPresetShares("2022", stateData));
+      setPartyShares(midtermPresetShares("2022", currentStates));
       return;
     }
     if (voteShareScenario === "house2018") {
-      setPartyShares(midtermPresetShares("2018", stateData));
+      setPartyShares(midtermPresetShares("2018", currentStates));
       return;
     }
-    setPartyShares(midtermPresetShares("2014", stateData));
-  }, [voteShareScenario, stateData, loadPollingShares]);
+    setPartyShares(midtermPresetShares("2014", currentStates));
+  }, [voteShareScenario, currentStates, loadPollingShares]);
 
-  const baselineSeats = useMemo(() => {
-    const populationsByState: Record<string, number> = {};
-    stateData
-      .filter((state) => state.abbr !== "DC")
+  const populationsByState = useMemo(() => {
+    const map: Record<string, number> = {};
+    apportionedStates.forEach((state) => {
+      map[state.abbr] = state.population;
+    });
+    return map;
+  }, [apportionedStates]);
+
+  const baselineSeats = censusDataset.enactedSeats;
+
+  const { minSeatsPerState } = houseConstraints;
+
+  const houseSizeBounds = useMemo(
+    () =>
+      computeHouseSizeBounds(
+        populationsByState,
+        houseConstraints,
+        censusDataset.houseSize
+      ),
+    [populationsByState, houseConstraints, censusDataset]
+  );
+
+  // Every House size the slider can reach, computed once per population and
+  // method so slider moves and model comparisons are lookups.
+  const apportionmentSweep = useMemo(
+    () =>
+      sweepApportionment(
+        populationsByState,
+        houseSizeBounds.min,
+        houseSizeBounds.max,
+        apportionmentMethod,
+        minSeatsPerState
+      ),
+    [populationsByState, houseSizeBounds, apportionmentMethod, minSeatsPerState]
+  );
+
+  // Electors that do not come from House seats: two per state, plus DC's
+  // while it is not a state.
+  const otherElectors = useCallback(
+    (houseSize: number) => {
+      const unadmittedDistrict =
+        stateData.some((state) => state.abbr === "DC") && !("DC" in populationsByState);
+      if (!unadmittedDistrict) return apportionedStates.length * 2;
+      const districtSeats = computeDistrictSeats(
+        stateData,
+        apportionmentSweep.seatsAt(houseSize),
+        minSeatsPerState
+      );
+      return apportionedStates.length * 2 + computeECVotes("DC", 0, false, districtSeats);
+    },
+    [apportionedStates, stateData, populationsByState, apportionmentSweep, minSeatsPerState]
+  );
+
+  const houseSizeFeasibility = useMemo(
+    () =>
+      buildHouseSizeFeasibility(
+        houseSizeBounds,
+        apportionmentSweep,
+        populationsByState,
+        houseConstraints,
+        otherElectors
+      ),
+    [
+      houseSizeBounds,
+      apportionmentSweep,
+      populationsByState,
+      houseConstraints,
+      otherElectors,
+    ]
+  );
+
+  useEffect(() => {
+    const fitted = houseSizeFeasibility.nearest(totalSeats);
+    if (fitted === totalSeats) return;
+    setHouseSizeNote(
+      `${totalSeats} seats is not allowed: ${houseSizeFeasibility
+        .explain(totalSeats)
+        .join(" ")} Using ${fitted}.`
+    );
+    setTotalSeats(fitted);
+  }, [houseSizeFeasibility, totalSeats]);
+
+  useEffect(() => {
+    if (houseModel === "manual") return;
+    const computed = computeHouseSizeByModel(
+      houseModel,
+      apportionedStates,
+      totalSeats,
+      houseSizeFeasibility.nearest
+    );
+    if (computed !== totalSeats) {
+      setTotalSeats(computed);
+    }
+  }, [houseModel, apportionedStates, totalSeats, houseSizeFeasibility]);
+
+  // Until the effects above settle, read the nearest feasible size so every
+  // lookup stays inside the sweep.
+  const apportionment = useMemo(
+    () => apportionmentSweep.seatsAt(houseSizeFeasibility.nearest(totalSeats)),
+    [apportionmentSweep, houseSizeFeasibility, totalSeats]
+  );
+
+  // The chosen method on resident population, so the table can show what the
+  // population base alone changes.
+  const residentPopulationsByState = useMemo(() => {
+    const map: Record<string, number> = {};
+    applyStatehoodScenario(censusDataset.states, statehoodScenario, includeTerritories)
+      .filter((state) => isApportionedEntity(state.abbr, statehoodScenario))
       .forEach((state) => {
-        populationsByState[state.abbr] = state.population;
+        map[state.abbr] = state.population;
       });
-    return apportion(populationsByState, DEFAULT_TOTAL);
+    return map;
+  }, [censusDataset, statehoodScenario, includeTerritories]);
+
+  const residentSweep = useMemo(
+    () =>
+      activeBase === DEFAULT_POPULATION_BASE
+        ? apportionmentSweep
+        : sweepApportionment(
+            residentPopulationsByState,
+            houseSizeBounds.min,
+            houseSizeBounds.max,
+            apportionmentMethod,
+            minSeatsPerState
+          ),
+    [
+      residentPopulationsByState,
+      activeBase,
+      houseSizeBounds,
+      apportionmentMethod,
+      minSeatsPerState,
+      apportionmentSweep,
+    ]
+  );
+
+  const residentSeats = useMemo(
+    () => residentSweep.seatsAt(houseSizeFeasibility.nearest(totalSeats)),
+    [residentSweep, houseSizeFeasibility, totalSeats]
+  );
+
+  // Huntington–Hill at the same House size, so the table can separate the
+  // effect of the method from the effect of the House size.
+  const referenceSweep = useMemo(
+    () =>
+      apportionmentMethod === DEFAULT_APPORTIONMENT_METHOD
+        ? apportionmentSweep
+        : sweepApportionment(
+            populationsByState,
+            houseSizeBounds.min,
+            houseSizeBounds.max,
+            DEFAULT_APPORTIONMENT_METHOD,
+            minSeatsPerState
+          ),
+    [
+      populationsByState,
+      houseSizeBounds,
+      apportionmentMethod,
+      minSeatsPerState,
+      apportionmentSweep,
+    ]
+  );
+
+  const referenceSeats = useMemo(
+    () => referenceSweep.seatsAt(houseSizeFeasibility.nearest(totalSeats)),
+    [referenceSweep, houseSizeFeasibility, totalSeats]
+  );
+
+  const seatMargins = useMemo(
+    () =>
+      isDivisorMethod(apportionmentMethod)
+        ? computeSeatMargins(
+            populationsByState,
+            apportionment,
+            apportionmentMethod,
+            minSeatsPerState
+          )
+        : {},
+    [populationsByState, apportionment, apportionmentMethod, minSeatsPerState]
+  );
+
+  const priorityList = useMemo(
+    () =>
+      apportionmentSweep.priorityList.filter(
+        (entry) => entry.seat <= totalSeats + PRIORITY_LIST_LOOKAHEAD
+      ),
+    [apportionmentSweep, totalSeats]
+  );
+
+  const stateNames = useMemo(() => {
+    const map: Record<string, string> = {};
+    stateData.forEach((state) => {
+      map[state.abbr] = state.state;
+    });
+    return map;
   }, [stateData]);
 
-  const apportionment = useMemo(() => {
-    const populationsByState: Record<string, number> = {};
-    stateData
+  const alabamaParadoxes = useMemo(
+    () =>
+      findAlabamaParadoxes(
+        populationsByState,
+        apportionmentMethod,
+        houseSizeBounds.min,
+        houseSizeBounds.max,
+        apportionmentSweep
+      ),
+    [populationsByState, apportionmentMethod, houseSizeBounds, apportionmentSweep]
+  );
+
+  const quotaViolations = useMemo(
+    () =>
+      findQuotaViolations(
+        populationsByState,
+        apportionmentMethod,
+        houseSizeBounds.min,
+        houseSizeBounds.max,
+        minSeatsPerState,
+        apportionmentSweep
+      ),
+    [
+      populationsByState,
+      apportionmentMethod,
+      houseSizeBounds,
+      minSeatsPerState,
+      apportionmentSweep,
+    ]
+  );
+
+  const fairnessSeries = useMemo(
+    () => computeFairnessSweep(populationsByState, apportionmentSweep),
+    [populationsByState, apportionmentSweep]
+  );
+
+  const fairness = useMemo(
+    () => computeFairnessIndices(populationsByState, apportionment),
+    [populationsByState, apportionment]
+  );
+
+  // The census's enacted House size under the current method and base, kept
+  // inside the sweep when the constraints exclude it.
+  const fairnessBaselineSeats = Math.min(
+    apportionmentSweep.maxSeats,
+    Math.max(apportionmentSweep.minSeats, censusDataset.houseSize)
+  );
+  const fairnessBaseline = useMemo(
+    () =>
+      computeFairnessIndices(
+        populationsByState,
+        apportionmentSweep.seatsAt(fairnessBaselineSeats)
+      ),
+    [populationsByState, apportionmentSweep, fairnessBaselineSeats]
+  );
+
+  const populationParadox = useMemo(() => {
+    const previousYear = previousCensusYear(censusYear);
+    if (previousYear === null) return null;
+    const previous: Record<string, number> = {};
+    const previousStates = getCensusDataset(previousYear).states;
+    previousStates
       .filter((state) => state.abbr !== "DC")
       .forEach((state) => {
-        populationsByState[state.abbr] = state.population;
+        previous[state.abbr] = state.population;
       });
-    return apportion(populationsByState, totalSeats);
-  }, [stateData, totalSeats]);
+    // Earlier censuses only have resident counts, so compare like with like.
+    return {
+      previousYear,
+      cases: findPopulationParadoxes(
+        previous,
+        residentPopulationsByState,
+        totalSeats,
+        apportionmentMethod,
+        minSeatsPerState
+      ),
+    };
+  }, [
+    censusYear,
+    residentPopulationsByState,
+    totalSeats,
+    apportionmentMethod,
+    minSeatsPerState,
+  ]);
+
+  const newStatesParadox = useMemo(() => {
+    const candidate = stateData.find((state) => !(state.abbr in populationsByState));
+    if (!candidate) return null;
+    return findNewStatesParadoxes(
+      populationsByState,
+      { abbr: candidate.abbr, population: candidate.population },
+      totalSeats,
+      apportionmentMethod,
+      minSeatsPerState
+    );
+  }, [stateData, populationsByState, totalSeats, apportionmentMethod, minSeatsPerState]);
+
+  const quotaBasis = useMemo(
+    () => ({
+      nationalPopulation: Object.values(populationsByState).reduce(
+        (sum, value) => sum + value,
+        0
+      ),
+      totalSeats,
+    }),
+    [populationsByState, totalSeats]
+  );
+
+  const districtSeats = useMemo(
+    () => computeDistrictSeats(stateData, apportionment, minSeatsPerState),
+    [stateData, apportionment, minSeatsPerState]
+  );
+
+  // Banzhaf and Shapley–Shubik power for every entity that casts electors.
+  const votingPower = useMemo(() => {
+    const ecVotes: Record<string, number> = {};
+    const populationByEntity: Record<string, number> = {};
+    stateData.forEach((state) => {
+      ecVotes[state.abbr] = computeECVotes(
+        state.abbr,
+        apportionment[state.abbr] ?? 0,
+        state.abbr in apportionment,
+        districtSeats
+      );
+      populationByEntity[state.abbr] = state.population;
+    });
+    return computeVotingPower(ecVotes, apportionment, populationByEntity);
+  }, [stateData, apportionment, districtSeats]);
 
   const metrics = useMemo(() => {
     return stateData.map((state) =>
-      buildStateMetrics(state, apportionment, baselineSeats)
+      buildStateMetrics(
+        state,
+        apportionment,
+        baselineSeats,
+        quotaBasis,
+        { method: referenceSeats, resident: residentSeats, districtSeats },
+        seatMargins,
+        votingPower
+      )
     );
-  }, [stateData, apportionment, baselineSeats]);
+  }, [
+    stateData,
+    apportionment,
+    baselineSeats,
+    quotaBasis,
+    referenceSeats,
+    residentSeats,
+    districtSeats,
+    seatMargins,
+    votingPower,
+  ]);
 
   const metricsByState = useMemo(() => {
     const map: Record<string, StateMetrics> = {};
@@ -353,55 +955,235 @@ export default function Home() {
     return map;
   }, [metrics]);
 
-  const partisanByState = useMemo(() => {
-    const map: Record<
-      string,
-      { democrats: number; republicans: number; independents: number }
-    > = {};
+  // Every party's share of each state's vote. States without their own
+  // minor-party shares use the baseline.
+  const partyVotesByState = useMemo(() => {
+    const map: Record<string, PartyVoteShares> = {};
+    metrics.forEach((entry) => {
+      map[entry.abbr] = statePartyVoteShares(
+        partyShares[entry.abbr] ?? 0.5,
+        overlayPartySettings.byState[entry.abbr] ?? overlayPartySettings.baseline
+      );
+    });
+    return map;
+  }, [metrics, partyShares, overlayPartySettings]);
 
+  const partisanByState = useMemo(() => {
+    const map: Record<string, PartySeats> = {};
     metrics.forEach((entry) => {
-      const democratsShare = partyShares[entry.abbr] ?? 0.5;
-      map[entry.abbr] = hamiltonThreePartyAllocation(
+      map[entry.abbr] = allocateOverlaySeats(
         entry.houseSeats,
-        democratsShare,
-        independentShare
+        partyVotesByState[entry.abbr],
+        overlayPartySettings
       );
     });
+    return map;
+  }, [metrics, partyVotesByState, overlayPartySettings]);
+
+  const partisanFairness = useMemo(
+    () =>
+      computePartisanFairness(
+        metrics.map((entry) => ({
+          abbr: entry.abbr,
+          seats: entry.houseSeats,
+          votes: partyVotesByState[entry.abbr],
+        })),
+        overlayPartySettings
+      ),
+    [metrics, partyVotesByState, overlayPartySettings]
+  );
 
+  const currentSeatsByState = useMemo(() => {
+    const map: Record<string, number> = {};
+    metrics.forEach((entry) => {
+      map[entry.abbr] = entry.houseSeats;
+    });
     return map;
-  }, [metrics, partyShares, independentShare]);
+  }, [metrics]);
+
+  const currentMethodSeats = useMemo(
+    () =>
+      allocationMethodSeats(
+        currentSeatsByState,
+        partyVotesByState,
+        overlayPartySettings.threshold
+      ),
+    [currentSeatsByState, partyVotesByState, overlayPartySettings.threshold]
+  );
+
+  const currentCurveSeats = useMemo(() => {
+    const totals = { democrats: 0, republicans: 0 };
+    metrics.forEach((entry) => {
+      const curve = hamiltonAllocation(
+        entry.houseSeats,
+        seatShareFromVote(partyShares[entry.abbr] ?? 0.5, seatVoteCurve)
+      );
+      totals.democrats += curve.partyA;
+      totals.republicans += curve.partyB;
+    });
+    return totals;
+  }, [metrics, partyShares, seatVoteCurve]);
+
+  const currentFairRepresentation = useMemo(
+    () =>
+      simulateFairRepresentation(
+        currentSeatsByState,
+        partyVotesByState,
+        transferPreferences
+      ),
+    [currentSeatsByState, partyVotesByState, transferPreferences]
+  );
+
+  // MMP district seats are apportioned at a smaller size than the House, which
+  // can fall below the sweep.
+  const allocateMmp = useCallback(
+    (seatsByState: Record<string, number>, houseSize: number) => {
+      const districts = Math.max(
+        Object.keys(populationsByState).length * minSeatsPerState,
+        mmpConstituencySeats(houseSize, mmpSettings.constituencyShare)
+      );
+      const districtSeats =
+        districts >= apportionmentSweep.minSeats &&
+        districts <= apportionmentSweep.maxSeats
+          ? apportionmentSweep.seatsAt(districts)
+          : apportion(populationsByState, districts, apportionmentMethod, minSeatsPerState);
+      return {
+        districts,
+        result: allocateMmpHouse(seatsByState, districtSeats, partyVotesByState, {
+          ...mmpSettings,
+          method: overlayPartySettings.method,
+          threshold: overlayPartySettings.threshold,
+          seatVoteCurve,
+        }),
+      };
+    },
+    [
+      populationsByState,
+      minSeatsPerState,
+      mmpSettings,
+      apportionmentSweep,
+      apportionmentMethod,
+      partyVotesByState,
+      overlayPartySettings.method,
+      overlayPartySettings.threshold,
+      seatVoteCurve,
+    ]
+  );
+
+  const currentMmp = useMemo(
+    () => allocateMmp(currentSeatsByState, totalSeats),
+    [allocateMmp, currentSeatsByState, totalSeats]
+  );
 
   const selectedMetrics = selectedState ? metricsByState[selectedState] : null;
   const selectedPartisan = selectedState ? partisanByState[selectedState] : null;
 
   const houseBalanceTotals = useMemo(() => {
-    return Object.values(partisanByState).reduce(
-      (acc, entry) => {
-        acc.democrats += entry.democrats;
-        acc.republicans += entry.republicans;
-        acc.independents += entry.independents;
-        return acc;
-      },
-      { democrats: 0, republicans: 0, independents: 0 }
-    );
+    const totals = emptyPartySeats();
+    Object.values(partisanByState).forEach((entry) => {
+      OVERLAY_PARTIES.forEach((party) => {
+        totals[party] += entry[party];
+      });
+    });
+    return totals;
   }, [partisanByState]);
 
+  const electoralSystemOptions = useMemo<ElectoralSystemOptions>(
+    () => ({ system: electoralSystem, compactMembers, seatVoteCurve }),
+    [electoralSystem, compactMembers, seatVoteCurve]
+  );
+
+  // Live inputs under the chosen system. The national share weights each
+  // state's input by population, as a stand-in for turnout.
   const electoralCounterTotals = useMemo(() => {
-    return metrics.reduce(
-      (acc, entry) => {
-        const share = partyShares[entry.abbr] ?? 0.5;
-        if (share <= 0.46) {
-          acc.republicans += entry.ecVotes;
-        } else if (share >= 0.54) {
-          acc.democrats += entry.ecVotes;
-        } else {
-          acc.tossUp += entry.ecVotes;
-        }
-        return acc;
+    const demShareByState: Record<string, number> = {};
+    let weightedShare = 0;
+    let population = 0;
+    metrics.forEach((entry) => {
+      const share = partyShares[entry.abbr];
+      if (share === undefined) return;
+      demShareByState[entry.abbr] = share;
+      weightedShare += share * entry.population;
+      population += entry.population;
+    });
+    return tallyElectoralVotes(
+      metricsByState,
+      {
+        demShareByState,
+        nationalDemShare: population > 0 ? weightedShare / population : 0.5,
       },
-      { democrats: 0, tossUp: 0, republicans: 0 }
+      { ...electoralSystemOptions, tossUpBand: [0.46, 0.54] }
     );
-  }, [metrics, partyShares]);
+  }, [metrics, metricsByState, partyShares, electoralSystemOptions]);
+
+  useEffect(() => {
+    const worker = new Worker(new URL("../lib/simulation.worker.ts", import.meta.url));
+    worker.onmessage = (
+      event: MessageEvent<{ id: number; result: SimulationResult }>
+    ) => {
+      if (event.data.id !== simulationRequestRef.current) return;
+      setSimulation(event.data.result);
+      setSimulationRunning(false);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      setSimulationError(event.message || "The simulation failed.");
+      setSimulationRunning(false);
+    };
+    worker.onmessageerror = () => {
+      setSimulationError("The simulation result could not be read.");
+      setSimulationRunning(false);
+    };
+    simulationWorkerRef.current = worker;
+    return () => {
+      worker.terminate();
+      simulationWorkerRef.current = null;
+    };
+  }, []);
+
+  // Reruns the forecast shortly after the inputs settle.
+  useEffect(() => {
+    const worker = simulationWorkerRef.current;
+    const demShareByState: Record<string, number> = {};
+    metrics.forEach((entry) => {
+      const share = partyShares[entry.abbr];
+      if (share !== undefined) demShareByState[entry.abbr] = share;
+    });
+    const id = simulationRequestRef.current + 1;
+    simulationRequestRef.current = id;
+    if (!worker || Object.keys(demShareByState).length === 0) {
+      setSimulation(null);
+      setSimulationRunning(false);
+      setSimulationError(null);
+      return;
+    }
+    setSimulationRunning(true);
+    setSimulationError(null);
+    const request: SimulationRequest = {
+      metricsByState,
+      demShareByState,
+      options: electoralSystemOptions,
+      settings: simulationSettings,
+    };
+    const timer = window.setTimeout(() => worker.postMessage({ id, request }), 250);
+    return () => window.clearTimeout(timer);
+  }, [metrics, metricsByState, partyShares, electoralSystemOptions, simulationSettings]);
+
+  const pathToMajority = useMemo(
+    () =>
+      computePathToMajority(
+        electorsUnderSystem(metricsByState, electoralSystem),
+        partyShares
+      ),
+    [metricsByState, electoralSystem, partyShares]
+  );
+
+  // Flipping whole states only decides the outcome where states are won
+  // winner-take-all; an active compact awards its members nationally.
+  const pathIsWinnerTakeAll =
+    electoralSystem === "current" ||
+    electoralSystem === "houseOnly" ||
+    (electoralSystem === "npvic" && !electoralCounterTotals.compactActive);
 
   const totals = useMemo(() => {
     return metrics.reduce(
@@ -416,31 +1198,28 @@ export default function Home() {
   }, [metrics]);
 
   const overlayModelComparisons = useMemo(() => {
-    const populationsByState: Record<string, number> = {};
-    stateData
-      .filter((state) => state.abbr !== "DC")
-      .forEach((state) => {
-        populationsByState[state.abbr] = state.population;
-      });
-
     return AUTOMATED_HOUSE_MODELS.map((model) => {
-      const modeledHouseSize = computeHouseSizeByModel(model, stateData, totalSeats);
-      const modeledApportionment = apportion(populationsByState, modeledHouseSize);
+      const modeledHouseSize = computeHouseSizeByModel(
+        model,
+        apportionedStates,
+        totalSeats,
+        houseSizeFeasibility.nearest
+      );
+      const modeledApportionment = apportionmentSweep.seatsAt(modeledHouseSize);
 
       let proportionalD = 0;
       let proportionalR = 0;
       let curveD = 0;
       let curveR = 0;
 
-      stateData.forEach((state) => {
-        if (state.abbr === "DC") return;
+      apportionedStates.forEach((state) => {
         const seats = modeledApportionment[state.abbr] ?? 0;
         const share = partyShares[state.abbr] ?? 0.5;
 
         const proportional = hamiltonAllocation(seats, share);
         const curve = hamiltonAllocation(
           seats,
-          seatShareFromVote(share, responsiveness)
+          seatShareFromVote(share, seatVoteCurve)
         );
 
         proportionalD += proportional.partyA;
@@ -452,6 +1231,25 @@ export default function Home() {
       return {
         model,
         modeledHouseSize,
+        partisanFairness: computePartisanFairness(
+          apportionedStates.map((state) => ({
+            abbr: state.abbr,
+            seats: modeledApportionment[state.abbr] ?? 0,
+            votes: partyVotesByState[state.abbr],
+          })),
+          overlayPartySettings
+        ),
+        methodSeats: allocationMethodSeats(
+          modeledApportionment,
+          partyVotesByState,
+          overlayPartySettings.threshold
+        ),
+        fairRepresentation: simulateFairRepresentation(
+          modeledApportionment,
+          partyVotesByState,
+          transferPreferences
+        ),
+        mmp: allocateMmp(modeledApportionment, modeledHouseSize),
         proportionalD,
         proportionalR,
         curveD,
@@ -460,22 +1258,160 @@ export default function Home() {
         deviationR: curveR - proportionalR,
       };
     });
-  }, [partyShares, responsiveness, stateData, totalSeats]);
+  }, [
+    partyShares,
+    seatVoteCurve,
+    partyVotesByState,
+    overlayPartySettings,
+    transferPreferences,
+    allocateMmp,
+    apportionedStates,
+    totalSeats,
+    houseSizeFeasibility,
+    apportionmentSweep,
+  ]);
 
   const historicalEcOutcomes = useMemo(
-    () => computeHistoricalEcOutcomes(metricsByState),
-    [metricsByState]
+    () => computeHistoricalEcOutcomes(metricsByState, electoralSystemOptions),
+    [metricsByState, electoralSystemOptions]
   );
+  // The tipping search replays every election at ~1,150 House sizes, so it
+  // only runs on request, in a worker.
+  const tippingSearchKey = [
+    apportionmentMethod,
+    electoralSystem,
+    compactMembers.join(","),
+    seatVoteCurve.responsiveness,
+    seatVoteCurve.bias,
+  ].join("|");
+  useEffect(() => {
+    const worker = new Worker(new URL("../lib/tippingSizes.worker.ts", import.meta.url));
+    worker.onmessage = (
+      event: MessageEvent<{ id: number; search: TippingHouseSizeSearch }>
+    ) => {
+      const request = tippingRequestRef.current;
+      if (event.data.id !== request.id) return;
+      setTippingSearch({ key: request.key, search: event.data.search });
+      setTippingRunning(false);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      setTippingError(event.message || "The search failed.");
+      setTippingRunning(false);
+    };
+    tippingWorkerRef.current = worker;
+    return () => {
+      worker.terminate();
+      tippingWorkerRef.current = null;
+    };
+  }, []);
+
+  const runTippingSearch = () => {
+    const worker = tippingWorkerRef.current;
+    if (!worker) return;
+    const id = tippingRequestRef.current.id + 1;
+    tippingRequestRef.current = { id, key: tippingSearchKey };
+    setTippingError(null);
+    setTippingRunning(true);
+    worker.postMessage({
+      id,
+      options: electoralSystemOptions,
+      method: apportionmentMethod,
+    });
+  };
+
+  const visibleEcOutcomes = showAllElectionYears
+    ? historicalEcOutcomes
+    : historicalEcOutcomes.slice(-3);
+
+  // The same House size, method and base without the admitted states, so the
+  // statehood panel can show what admission changes.
+  const statehoodComparison = useMemo(() => {
+    const admitted = admittedEntities(statehoodScenario).filter(
+      (abbr) => abbr in populationsByState
+    );
+    if (admitted.length === 0) return null;
+
+    const withoutStates = applyPopulationBase(censusDataset.states, activeBase);
+    const withoutPopulations: Record<string, number> = {};
+    withoutStates
+      .filter((state) => state.abbr !== "DC")
+      .forEach((state) => {
+        withoutPopulations[state.abbr] = state.population;
+      });
+    const withoutSeats = apportion(
+      withoutPopulations,
+      totalSeats,
+      apportionmentMethod,
+      minSeatsPerState
+    );
+    const withoutQuotaBasis = {
+      nationalPopulation: Object.values(withoutPopulations).reduce(
+        (sum, value) => sum + value,
+        0
+      ),
+      totalSeats,
+    };
+    const withoutMetricsByState: Record<string, StateMetrics> = {};
+    withoutStates.forEach((state) => {
+      withoutMetricsByState[state.abbr] = buildStateMetrics(
+        state,
+        withoutSeats,
+        baselineSeats,
+        withoutQuotaBasis,
+        {
+          districtSeats: computeDistrictSeats(withoutStates, withoutSeats, minSeatsPerState),
+        }
+      );
+    });
+    const outcomesBefore = computeHistoricalEcOutcomes(
+      withoutMetricsByState,
+      electoralSystemOptions
+    );
+
+    return {
+      admitted,
+      ripples: findStatehoodRipples(withoutSeats, apportionment),
+      ecBefore: outcomesBefore[0].total,
+      ecAfter: historicalEcOutcomes[0].total,
+      outcomesBefore,
+      outcomesAfter: historicalEcOutcomes,
+    };
+  }, [
+    statehoodScenario,
+    populationsByState,
+    censusDataset,
+    activeBase,
+    totalSeats,
+    apportionmentMethod,
+    minSeatsPerState,
+    baselineSeats,
+    apportionment,
+    historicalEcOutcomes,
+    electoralSystemOptions,
+  ]);
 
   const handleReset = () => {
     setTotalSeats(DEFAULT_TOTAL);
+    setHouseConstraints(DEFAULT_HOUSE_CONSTRAINTS);
+    setHouseSizeNote(null);
     setHouseModel(DEFAULT_HOUSE_MODEL);
+    setApportionmentMethod(DEFAULT_APPORTIONMENT_METHOD);
     setDarkMode(true);
     setOverlaysEnabled(false);
     setVoteShareScenario(DEFAULT_SCENARIO);
-    setResponsiveness(DEFAULT_RESPONSIVENESS);
-    setIndependentShare(DEFAULT_INDEPENDENT_SHARE);
-    setPartyShares(parsePartyShares(null, stateData));
+    setSeatVoteCurve(DEFAULT_SEAT_VOTE_CURVE);
+    setOverlayPartySettings(DEFAULT_OVERLAY_PARTY_SETTINGS);
+    setMmpSettings(DEFAULT_MMP_SETTINGS);
+    setTransferPreferences(DEFAULT_TRANSFER_PREFERENCES);
+    setCensusYear(DEFAULT_CENSUS_YEAR);
+    setPopulationBase(DEFAULT_POPULATION_BASE);
+    setStatehoodScenario(DEFAULT_STATEHOOD_SCENARIO);
+    setElectoralSystem(DEFAULT_ELECTORAL_SYSTEM);
+    setCompactMembers(NPVIC_MEMBERS);
+    setSimulationSettings(DEFAULT_SIMULATION_SETTINGS);
+    setPollFilters(DEFAULT_POLL_FILTERS);
+    setPartyShares(parsePartyShares(null, currentStates));
     setSelectedState(null);
   };
 
@@ -495,13 +1431,21 @@ export default function Home() {
             Explore House size, apportionment, and Electoral College ripple effects
           </h1>
           <p className="max-w-3xl text-lg text-slate-600 dark:text-slate-300">
-            Adjust the total House size and see how the Method of Equal Proportions
-            reshapes state-by-state seats and Electoral College votes. Optional
+            Adjust the total House size and apportionment method and see how they
+            reshape state-by-state seats and Electoral College votes. Optional
             overlays simulate vote-to-seat translations as teaching tools, not
             forecasts.
           </p>
         </header>
 
+        <PathToMajorityBar
+          path={pathToMajority}
+          winnerTakeAll={pathIsWinnerTakeAll}
+          systemLabel={electoralSystemLabel(electoralSystem)}
+          stateNames={stateNames}
+          onSelectState={setSelectedState}
+        />
+
         <USMap
           metricsByState={metricsByState}
           democraticShareByState={partyShares}
@@ -511,20 +1455,61 @@ export default function Home() {
         />
 
         <div className="mt-10 grid items-start gap-6 lg:grid-cols-[1.1fr_0.9fr]">
-          <Controls
-            totalSeats={totalSeats}
-            onTotalSeatsChange={setTotalSeats}
-            houseModel={houseModel}
-            onHouseModelChange={setHouseModel}
-            darkMode={darkMode}
-            onToggleDarkMode={() => setDarkMode((prev) => !prev)}
-            overlaysEnabled={overlaysEnabled}
-            onToggleOverlays={() => setOverlaysEnabled((prev) => !prev)}
-            responsiveness={responsiveness}
-            onResponsivenessChange={setResponsiveness}
-            onReset={handleReset}
-            onShare={handleShare}
-          />
+          <div className="space-y-6">
+            <Controls
+              totalSeats={totalSeats}
+              onTotalSeatsChange={(value) => {
+                setHouseSizeNote(null);
+                setTotalSeats(value);
+              }}
+              minSeats={
+                houseSizeFeasibility.feasibleSizes[0] ?? houseSizeBounds.min
+              }
+              maxSeats={
+                houseSizeFeasibility.feasibleSizes[
+                  houseSizeFeasibility.feasibleSizes.length - 1
+                ] ?? houseSizeBounds.max
+              }
+              seatStep={houseConstraints.oddElectoralCollege ? 2 : 1}
+              houseSizeNote={houseSizeNote}
+              houseModel={houseModel}
+              onHouseModelChange={setHouseModel}
+              apportionmentMethod={apportionmentMethod}
+              onApportionmentMethodChange={setApportionmentMethod}
+              censusYear={censusYear}
+              censusYears={CENSUS_YEARS}
+              censusNote={describeEnactedSeats(censusDataset)}
+              onCensusYearChange={setCensusYear}
+              populationBase={populationBase}
+              populationBases={POPULATION_BASES}
+              populationBaseAvailable={baseAvailable}
+              onPopulationBaseChange={setPopulationBase}
+              statehoodScenario={statehoodScenario}
+              statehoodScenarios={STATEHOOD_SCENARIOS}
+              statehoodNote={
+                includeTerritories
+                  ? null
+                  : `Territory counts are only available for the ${DEFAULT_CENSUS_YEAR} census, so only DC can join the ${censusYear} apportionment.`
+              }
+              onStatehoodScenarioChange={setStatehoodScenario}
+              electoralSystem={electoralSystem}
+              electoralSystems={ELECTORAL_SYSTEMS}
+              onElectoralSystemChange={setElectoralSystem}
+              darkMode={darkMode}
+              onToggleDarkMode={() => setDarkMode((prev) => !prev)}
+              overlaysEnabled={overlaysEnabled}
+              onToggleOverlays={() => setOverlaysEnabled((prev) => !prev)}
+              seatVoteCurve={seatVoteCurve}
+              onSeatVoteCurveChange={setSeatVoteCurve}
+              onReset={handleReset}
+              onShare={handleShare}
+            />
+            <ConstraintsPanel
+              constraints={houseConstraints}
+              onConstraintsChange={setHouseConstraints}
+              feasibility={houseSizeFeasibility}
+            />
+          </div>
 
           <div className="grid auto-rows-min gap-6 xl:grid-cols-2">
             <div className="card xl:col-span-2">
@@ -581,17 +1566,58 @@ export default function Home() {
                         <p className="text-lg font-semibold">
                           {selectedMetrics.houseSeats} (
                           {selectedMetrics.houseDelta >= 0 ? "+" : ""}
-                          {selectedMetrics.houseDelta} vs 435)
+                          {selectedMetrics.houseDelta} vs enacted {censusYear})
                         </p>
+                        {activeBase !== DEFAULT_POPULATION_BASE && (
+                          <p className="text-xs text-slate-500 dark:text-slate-400">
+                            {selectedMetrics.baseDelta >= 0 ? "+" : ""}
+                            {selectedMetrics.baseDelta} vs resident population
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                          Seat margins
+                        </p>
+                        {selectedMetrics.seatMargin ? (
+                          <>
+                            <p className="text-sm">
+                              +{formatNumber(selectedMetrics.seatMargin.toGain)} people
+                              for seat {selectedMetrics.houseSeats + 1}
+                            </p>
+                            <p className="text-sm">
+                              {selectedMetrics.seatMargin.toLose === null
+                                ? "Only seat is guaranteed"
+                                : `Could lose ${formatNumber(
+                                    selectedMetrics.seatMargin.toLose
+                                  )} and keep seat ${selectedMetrics.houseSeats}`}
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-sm text-slate-500 dark:text-slate-400">
+                            Only available for apportioned states under a divisor
+                            method.
+                          </p>
+                        )}
                       </div>
                       <div>
                         <p className="text-sm text-slate-500 dark:text-slate-400">
                           Partisan House split
                         </p>
                         <p className="text-lg font-semibold">
-                          D {selectedPartisan?.democrats ?? 0} / R{" "}
-                          {selectedPartisan?.republicans ?? 0} / I{" "}
-                          {selectedPartisan?.independents ?? 0}
+                          {OVERLAY_PARTIES.filter(
+                            (party) =>
+                              party === "democrats" ||
+                              party === "republicans" ||
+                              (selectedPartisan?.[party] ?? 0) > 0
+                          )
+                            .map(
+                              (party) =>
+                                `${overlayPartyLabel(party).charAt(0)} ${
+                                  selectedPartisan?.[party] ?? 0
+                                }`
+                            )
+                            .join(" / ")}
                         </p>
                       </div>
                       <div>
@@ -612,6 +1638,40 @@ export default function Home() {
                           {formatNumber(selectedMetrics.ecPerMillion, 2)}
                         </p>
                       </div>
+                      <div>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                          Voting power
+                        </p>
+                        {selectedMetrics.votingPower ? (
+                          <>
+                            <p className="text-sm">
+                              Banzhaf{" "}
+                              {formatNumber(selectedMetrics.votingPower.banzhaf * 100, 2)}
+                              %, {formatNumber(
+                                selectedMetrics.votingPower.banzhafPerVoter,
+                                2
+                              )}
+                              × per voter
+                            </p>
+                            <p className="text-sm">
+                              Shapley–Shubik{" "}
+                              {formatNumber(
+                                selectedMetrics.votingPower.shapleyShubik * 100,
+                                2
+                              )}
+                              %, {formatNumber(
+                                selectedMetrics.votingPower.shapleyShubikPerVoter,
+                                2
+                              )}
+                              × per voter
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-sm text-slate-500 dark:text-slate-400">
+                            Casts no electoral votes.
+                          </p>
+                        )}
+                      </div>
                     </div>
                   </div>
                 ) : (
@@ -637,59 +1697,43 @@ export default function Home() {
                   </p>
                   <div className="mt-3 h-5 w-full overflow-hidden rounded-full bg-slate-100 dark:bg-slate-800">
                     <div className="flex h-full w-full">
-                      <div
-                        className="h-full bg-blue-500"
-                        style={{
-                          width: `${
-                            (houseBalanceTotals.democrats / Math.max(1, totals.house)) * 100
-                          }%`,
-                        }}
-                      />
-                      <div
-                        className="h-full bg-slate-400"
-                        style={{
-                          width: `${
-                            (houseBalanceTotals.independents / Math.max(1, totals.house)) * 100
-                          }%`,
-                        }}
-                      />
-                      <div
-                        className="h-full bg-red-500"
-                        style={{
-                          width: `${
-                            (houseBalanceTotals.republicans / Math.max(1, totals.house)) * 100
-                          }%`,
-                        }}
-                      />
+                      {OVERLAY_PARTIES.map((party) => (
+                        <div
+                          key={party}
+                          className={`h-full ${PARTY_BAR_CLASS[party]}`}
+                          style={{
+                            width: `${
+                              (houseBalanceTotals[party] / Math.max(1, totals.house)) * 100
+                            }%`,
+                          }}
+                        />
+                      ))}
                     </div>
                   </div>
-                  <div className="mt-3 grid gap-2 text-sm sm:grid-cols-3">
-                    <div className="rounded-lg border border-slate-200 p-2 dark:border-slate-800">
-                      <p className="text-slate-500 dark:text-slate-400">Democrats</p>
-                      <p className="font-semibold text-blue-600 dark:text-blue-400">
-                        {houseBalanceTotals.democrats}
-                      </p>
-                    </div>
-                    <div className="rounded-lg border border-slate-200 p-2 dark:border-slate-800">
-                      <p className="text-slate-500 dark:text-slate-400">Independents</p>
-                      <p className="font-semibold text-slate-700 dark:text-slate-200">
-                        {houseBalanceTotals.independents}
-                      </p>
-                    </div>
-                    <div className="rounded-lg border border-slate-200 p-2 dark:border-slate-800">
-                      <p className="text-slate-500 dark:text-slate-400">Republicans</p>
-                      <p className="font-semibold text-red-600 dark:text-red-400">
-                        {houseBalanceTotals.republicans}
-                      </p>
-                    </div>
+                  <div className="mt-3 grid gap-2 text-sm sm:grid-cols-5">
+                    {OVERLAY_PARTIES.map((party) => (
+                      <div
+                        key={party}
+                        className="rounded-lg border border-slate-200 p-2 dark:border-slate-800"
+                      >
+                        <p className="text-slate-500 dark:text-slate-400">
+                          {overlayPartyLabel(party)}
+                        </p>
+                        <p className={`font-semibold ${PARTY_TEXT_CLASS[party]}`}>
+                          {houseBalanceTotals[party]}
+                        </p>
+                      </div>
+                    ))}
                   </div>
                 </div>
 
                 <div>
                   <p className="text-sm font-semibold">Electoral vote counter</p>
                   <p className="text-xs text-slate-500 dark:text-slate-400">
-                    Based on current Democratic vote-share inputs. States in the
-                    47-53 range are counted as toss-up.
+                    Based on current Democratic vote-share inputs under{" "}
+                    {electoralSystemLabel(electoralSystem).toLowerCase()}.
+                    Winner-take-all contests in the 47-53 range are counted as
+                    toss-up.
                   </p>
                   <div className="mt-3 h-5 w-full overflow-hidden rounded-full bg-slate-100 dark:bg-slate-800">
                     <div className="flex h-full w-full">
@@ -697,7 +1741,9 @@ export default function Home() {
                         className="h-full bg-blue-500"
                         style={{
                           width: `${
-                            (electoralCounterTotals.democrats / Math.max(1, totals.ec)) * 100
+                            (electoralCounterTotals.democrats /
+                              Math.max(1, electoralCounterTotals.total)) *
+                            100
                           }%`,
                         }}
                       />
@@ -705,7 +1751,10 @@ export default function Home() {
                         className="h-full bg-slate-300 dark:bg-slate-500"
                         style={{
                           width: `${
-                            (electoralCounterTotals.tossUp / Math.max(1, totals.ec)) * 100
+                            ((electoralCounterTotals.tossUp +
+                              electoralCounterTotals.unassigned) /
+                              Math.max(1, electoralCounterTotals.total)) *
+                            100
                           }%`,
                         }}
                       />
@@ -713,7 +1762,9 @@ export default function Home() {
                         className="h-full bg-red-500"
                         style={{
                           width: `${
-                            (electoralCounterTotals.republicans / Math.max(1, totals.ec)) * 100
+                            (electoralCounterTotals.republicans /
+                              Math.max(1, electoralCounterTotals.total)) *
+                            100
                           }%`,
                         }}
                       />
@@ -729,7 +1780,8 @@ export default function Home() {
                     <div className="rounded-lg border border-slate-200 p-2 dark:border-slate-800">
                       <p className="text-slate-500 dark:text-slate-400">Toss-up</p>
                       <p className="font-semibold text-slate-700 dark:text-slate-200">
-                        {electoralCounterTotals.tossUp}
+                        {electoralCounterTotals.tossUp +
+                          electoralCounterTotals.unassigned}
                       </p>
                     </div>
                     <div className="rounded-lg border border-slate-200 p-2 dark:border-slate-800">
@@ -740,8 +1792,12 @@ export default function Home() {
                     </div>
                   </div>
                   <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
-                    Majority threshold: {Math.floor(totals.ec / 2) + 1} electoral
-                    votes.
+                    Majority threshold: {electoralCounterTotals.majority} of{" "}
+                    {electoralCounterTotals.total} electoral votes.
+                    {electoralSystem === "npvic" &&
+                      (electoralCounterTotals.compactActive
+                        ? " The compact is in force."
+                        : " Compact members are short of a majority, so current rules apply.")}
                   </p>
                 </div>
               </div>
@@ -750,19 +1806,74 @@ export default function Home() {
             <div className="card xl:col-span-2">
               <p className="label">Electoral College historical replay</p>
               <p className="text-sm text-slate-500 dark:text-slate-400">
-                Applies each state&apos;s real 2016, 2020, and 2024 popular-vote
-                winner to the current EC map. Maine and Nebraska stay split-state.
+                Replays recorded statewide results on the current EC map under{" "}
+                {electoralSystemLabel(electoralSystem).toLowerCase()}. Third-party
+                wins and faithless electors count as other; Maine and Nebraska
+                split by their recorded district results once they adopted the
+                district method, and other states&apos; districts follow the
+                seat-vote curve ({seatVoteCurveLabel(seatVoteCurve)}).
               </p>
+              <button
+                type="button"
+                className="button mt-3 text-xs"
+                onClick={() => setShowAllElectionYears((prev) => !prev)}
+              >
+                {showAllElectionYears
+                  ? "Show recent elections"
+                  : `Show all elections since ${ELECTION_YEARS[0]}`}
+              </button>
+              {electoralSystem === "npvic" && (
+                <div className="mt-3">
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Compact members (click to toggle). Members cast their
+                    electors for the national popular-vote winner once they
+                    hold a majority.
+                  </p>
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {metrics
+                      .filter((entry) => entry.ecVotes > 0)
+                      .map((entry) => (
+                        <button
+                          type="button"
+                          key={entry.abbr}
+                          className={`button px-2 py-1 text-xs ${
+                            compactMembers.includes(entry.abbr)
+                              ? "button-primary"
+                              : ""
+                          }`}
+                          onClick={() =>
+                            setCompactMembers((prev) =>
+                              prev.includes(entry.abbr)
+                                ? prev.filter((abbr) => abbr !== entry.abbr)
+                                : [...prev, entry.abbr].sort()
+                            )
+                          }
+                        >
+                          {entry.abbr}
+                        </button>
+                      ))}
+                  </div>
+                </div>
+              )}
               <div className="mt-4 space-y-4">
-                {historicalEcOutcomes.map((outcome) => {
-                  const ecTotal = outcome.democrats + outcome.republicans;
+                {visibleEcOutcomes.map((outcome) => {
+                  const ecTotal =
+                    outcome.democrats +
+                    outcome.republicans +
+                    outcome.other +
+                    outcome.unassigned;
                   return (
                     <div key={outcome.year} className="space-y-2">
                       <div className="flex items-center justify-between text-sm">
                         <p className="font-semibold">{outcome.year}</p>
                         <p className="text-slate-500 dark:text-slate-400">
-                          Majority {outcome.majority} | Winner{" "}
-                          {outcome.winner === "D" ? "Democrats" : "Republicans"}
+                          Majority {outcome.majority} |{" "}
+                          {outcome.compactActive ? "Compact in force | " : ""}
+                          {outcome.winner === null
+                            ? "No majority"
+                            : `Winner ${
+                                outcome.winner === "D" ? "Democrats" : "Republicans"
+                              }`}
                         </p>
                       </div>
                       <div className="h-4 w-full overflow-hidden rounded-full bg-slate-100 dark:bg-slate-800">
@@ -773,6 +1884,18 @@ export default function Home() {
                               width: `${(outcome.democrats / Math.max(1, ecTotal)) * 100}%`,
                             }}
                           />
+                          <div
+                            className="h-full bg-amber-400"
+                            style={{
+                              width: `${(outcome.other / Math.max(1, ecTotal)) * 100}%`,
+                            }}
+                          />
+                          <div
+                            className="h-full bg-slate-300 dark:bg-slate-500"
+                            style={{
+                              width: `${(outcome.unassigned / Math.max(1, ecTotal)) * 100}%`,
+                            }}
+                          />
                           <div
                             className="h-full bg-red-500"
                             style={{
@@ -785,6 +1908,16 @@ export default function Home() {
                         <span className="font-semibold text-blue-600 dark:text-blue-400">
                           D {outcome.democrats}
                         </span>
+                        {outcome.other > 0 && (
+                          <span className="text-amber-600 dark:text-amber-400">
+                            Other {outcome.other}
+                          </span>
+                        )}
+                        {outcome.unassigned > 0 && (
+                          <span className="text-slate-500 dark:text-slate-400">
+                            No result {outcome.unassigned}
+                          </span>
+                        )}
                         <span className="font-semibold text-red-600 dark:text-red-400">
                           R {outcome.republicans}
                         </span>
@@ -798,13 +1931,23 @@ export default function Home() {
           </div>
         </div>
 
+        <div className="mt-6">
+          <SimulationPanel
+            result={simulation}
+            running={simulationRunning}
+            error={simulationError}
+            settings={simulationSettings}
+            onSettingsChange={setSimulationSettings}
+          />
+        </div>
+
         {overlaysEnabled && (
           <div className="mt-6 card space-y-4">
             <div>
               <p className="label">Seat-vote deviation by model</p>
               <p className="text-sm text-slate-500 dark:text-slate-400">
                 Compares proportional statewide allocation to the seat-vote
-                curve ({responsiveness}) for each automated House expansion
+                curve ({seatVoteCurveLabel(seatVoteCurve)}) for each automated House expansion
                 model.
               </p>
             </div>
@@ -872,37 +2015,107 @@ export default function Home() {
           </div>
         )}
 
+        {overlaysEnabled && (
+          <div className="mt-6">
+            <PartisanFairnessPanel
+              houseSize={totalSeats}
+              fairness={partisanFairness}
+              models={overlayModelComparisons}
+            />
+          </div>
+        )}
+
+        {overlaysEnabled && (
+          <div className="mt-6">
+            <MmpPanel
+              settings={mmpSettings}
+              onSettingsChange={setMmpSettings}
+              method={overlayPartySettings.method}
+              rows={[
+                {
+                  key: "current",
+                  label: "Current House",
+                  houseSize: totalSeats,
+                  districts: currentMmp.districts,
+                  mmp: currentMmp.result,
+                  proportional: currentMethodSeats[overlayPartySettings.method],
+                },
+                ...overlayModelComparisons.map((row) => ({
+                  key: row.model,
+                  label: houseModelLabel(row.model),
+                  houseSize: row.modeledHouseSize,
+                  districts: row.mmp.districts,
+                  mmp: row.mmp.result,
+                  proportional: row.methodSeats[overlayPartySettings.method],
+                })),
+              ]}
+            />
+          </div>
+        )}
+
+        {overlaysEnabled && (
+          <div className="mt-6">
+            <FairRepresentationPanel
+              preferences={transferPreferences}
+              onPreferencesChange={setTransferPreferences}
+              method={overlayPartySettings.method}
+              selectedState={selectedState}
+              selectedPlan={
+                selectedState
+                  ? currentFairRepresentation.states[selectedState] ?? null
+                  : null
+              }
+              rows={[
+                {
+                  key: "current",
+                  label: "Current House",
+                  houseSize: totalSeats,
+                  proportional: currentMethodSeats[overlayPartySettings.method],
+                  fairRepresentation: currentFairRepresentation,
+                  curve: currentCurveSeats,
+                },
+                ...overlayModelComparisons.map((row) => ({
+                  key: row.model,
+                  label: houseModelLabel(row.model),
+                  houseSize: row.modeledHouseSize,
+                  proportional: row.methodSeats[overlayPartySettings.method],
+                  fairRepresentation: row.fairRepresentation,
+                  curve: { democrats: row.curveD, republicans: row.curveR },
+                })),
+              ]}
+            />
+          </div>
+        )}
+
         <div className="mt-10">
           {overlaysEnabled && (
             <div className="card space-y-5">
-              <div>
-                <p className="label">Independent baseline</p>
-                <p className="text-sm text-slate-500 dark:text-slate-400">
-                  Applied to every state when deriving D/R/I seat splits.
-                </p>
-                <div className="mt-3 flex items-center gap-4">
-                  <input
-                    aria-label="Independent vote share baseline"
-                    type="range"
-                    min={0}
-                    max={20}
-                    value={Math.round(independentShare * 100)}
-                    onChange={(event) =>
-                      setIndependentShare(Number(event.target.value) / 100)
-                    }
-                    className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-200 dark:bg-slate-800"
-                  />
-                  <span className="w-12 text-right text-sm font-semibold">
-                    {Math.round(independentShare * 100)}%
-                  </span>
-                </div>
-              </div>
+              <OverlayPartiesPanel
+                settings={overlayPartySettings}
+                onSettingsChange={setOverlayPartySettings}
+                selectedState={selectedState}
+                rows={[
+                  {
+                    key: "current",
+                    label: "Current House",
+                    houseSize: totalSeats,
+                    methodSeats: currentMethodSeats,
+                  },
+                  ...overlayModelComparisons.map((row) => ({
+                    key: row.model,
+                    label: houseModelLabel(row.model),
+                    houseSize: row.modeledHouseSize,
+                    methodSeats: row.methodSeats,
+                  })),
+                ]}
+              />
 
               <div>
                 <p className="label">Democratic vote share inputs</p>
                 <p className="text-sm text-slate-500 dark:text-slate-400">
-                  Auto-filled from latest reputable statewide polling; adjust any
-                  state manually to test scenarios.
+                  Auto-filled from a weighted average of reputable statewide
+                  polls; filter the polls below or adjust any state manually to
+                  test scenarios.
                 </p>
                 <div className="mt-3 flex flex-wrap items-center gap-3">
                   <label className="text-xs text-slate-500 dark:text-slate-400">
@@ -924,6 +2137,14 @@ export default function Home() {
                     <option value="house2014">Congressional 2014 (midterm)</option>
                   </select>
                 </div>
+                {voteShareScenario === "livePolls" && (
+                  <PollFiltersPanel
+                    key={JSON.stringify(pollFilters)}
+                    filters={pollFilters}
+                    onApply={setPollFilters}
+                    disabled={pollingStatus === "loading"}
+                  />
+                )}
                 {voteShareScenario === "house2022" ||
                 voteShareScenario === "house2018" ||
                 voteShareScenario === "house2014" ? (
@@ -945,7 +2166,9 @@ export default function Home() {
                   </button>
                   {pollingStatus === "loaded" && pollingSummary && (
                     <span>
-                      {pollingSummary.coverage} states updated, last fetch{" "}
+                      {pollingSummary.coverage} states updated
+                      {pollingSummary.asOf && ` from averages as of ${pollingSummary.asOf}`}
+                      {pollingSummary.applied && ", others reset to 50%"}, last fetch{" "}
                       {new Date(pollingSummary.generatedAt).toLocaleString()}.
                     </span>
                   )}
@@ -957,7 +2180,7 @@ export default function Home() {
                 </div>
                 <div className="mt-4 max-h-[420px] space-y-3 overflow-auto pr-2">
                   {metrics
-                    .filter((entry) => entry.abbr !== "DC")
+                    .filter((entry) => entry.abbr in apportionment)
                     .map((entry) => (
                       <div key={entry.abbr} className="space-y-1">
                         <div className="flex items-center justify-between text-sm">
@@ -988,6 +2211,71 @@ export default function Home() {
           )}
         </div>
 
+        <div className="mt-10">
+          <PriorityList
+            entries={priorityList}
+            totalSeats={totalSeats}
+            methodLabel={apportionmentMethodLabel(apportionmentMethod)}
+            stateNames={stateNames}
+            available={isDivisorMethod(apportionmentMethod)}
+            onSelectState={setSelectedState}
+          />
+        </div>
+
+        <div className="mt-10">
+          <FairnessPanel
+            totalSeats={totalSeats}
+            indices={fairness}
+            baselineSeats={fairnessBaselineSeats}
+            baselineIndices={fairnessBaseline}
+            series={fairnessSeries}
+          />
+        </div>
+
+        <div className="mt-10">
+          <ParadoxPanel
+            methodLabel={apportionmentMethodLabel(apportionmentMethod)}
+            minSeats={houseSizeBounds.min}
+            maxSeats={houseSizeBounds.max}
+            totalSeats={totalSeats}
+            alabamaCases={alabamaParadoxes}
+            censusYear={censusYear}
+            populationParadox={populationParadox}
+            quotaViolations={quotaViolations}
+            newStates={newStatesParadox}
+            stateNames={stateNames}
+          />
+        </div>
+
+        <div className="mt-10">
+          <TippingSizesPanel
+            search={tippingSearch?.search ?? null}
+            upToDate={tippingSearch?.key === tippingSearchKey}
+            running={tippingRunning}
+            error={tippingError}
+            systemLabel={electoralSystemLabel(electoralSystem)}
+            totalSeats={totalSeats}
+            onRun={runTippingSearch}
+          />
+        </div>
+
+        {statehoodComparison && (
+          <div className="mt-10">
+            <StatehoodPanel
+              scenarioLabel={statehoodScenarioLabel(statehoodScenario)}
+              totalSeats={totalSeats}
+              admitted={statehoodComparison.admitted}
+              ripples={statehoodComparison.ripples}
+              seatsByState={apportionment}
+              ecBefore={statehoodComparison.ecBefore}
+              ecAfter={statehoodComparison.ecAfter}
+              outcomesBefore={statehoodComparison.outcomesBefore}
+              outcomesAfter={statehoodComparison.outcomesAfter}
+              stateNames={stateNames}
+            />
+          </div>
+        )}
+
         <div className="mt-10">
           <StateTable rows={metrics} onSelectState={setSelectedState} />
         </div>
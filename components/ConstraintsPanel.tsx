@@ -0,0 +1,132 @@
+"use client";
+
+import type {
+  HouseConstraints,
+  HouseSizeFeasibility,
+} from "@/lib/constraints";
+import { formatNumber } from "@/lib/metrics";
+
+type ConstraintsPanelProps = {
+  constraints: HouseConstraints;
+  onConstraintsChange: (value: HouseConstraints) => void;
+  feasibility: HouseSizeFeasibility;
+};
+
+const MAX_DISTRICT_STEP = 10_000;
+
+export default function ConstraintsPanel({
+  constraints,
+  onConstraintsChange,
+  feasibility,
+}: ConstraintsPanelProps) {
+  const { bounds, feasibleSizes } = feasibility;
+  const update = (patch: Partial<HouseConstraints>) =>
+    onConstraintsChange({ ...constraints, ...patch });
+
+  return (
+    <div className="card space-y-4">
+      <div>
+        <p className="label">Constraints</p>
+        <h3 className="text-lg font-semibold">
+          {feasibleSizes.length === 0
+            ? "No feasible House size"
+            : `${feasibleSizes.length} feasible House sizes (${feasibleSizes[0]}-${
+                feasibleSizes[feasibleSizes.length - 1]
+              })`}
+        </h3>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Floor: {bounds.minReason} Ceiling: {bounds.maxReason}
+        </p>
+      </div>
+
+      {feasibleSizes.length === 0 && (
+        <p className="rounded-lg border border-orange-300 p-3 text-sm text-orange-700 dark:border-orange-700 dark:text-orange-300">
+          {feasibility.explain(bounds.max).join(" ")} Relax a constraint to
+          continue; the closest size is shown meanwhile.
+        </p>
+      )}
+
+      <div className="grid gap-3 text-sm sm:grid-cols-2">
+        <label className="space-y-1">
+          <span className="text-slate-500 dark:text-slate-400">
+            Minimum seats per state
+          </span>
+          <select
+            aria-label="Minimum seats per state"
+            value={constraints.minSeatsPerState}
+            onChange={(event) =>
+              update({ minSeatsPerState: Number(event.target.value) })
+            }
+            className="w-full rounded-md border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+          >
+            {[1, 2, 3, 4, 5].map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1">
+          <span className="text-slate-500 dark:text-slate-400">
+            Maximum district population
+          </span>
+          <input
+            aria-label="Maximum district population"
+            type="number"
+            min={30_000}
+            step={MAX_DISTRICT_STEP}
+            placeholder="No limit"
+            value={constraints.maxDistrictPopulation ?? ""}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              update({
+                maxDistrictPopulation:
+                  event.target.value === "" || value < 30_000 ? null : value,
+              });
+            }}
+            className="w-full rounded-md border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={constraints.statutoryFloor}
+            onChange={() => update({ statutoryFloor: !constraints.statutoryFloor })}
+          />
+          <span>Keep at least the census&apos;s statutory House size</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={constraints.thirtyThousandCeiling}
+            onChange={() =>
+              update({ thirtyThousandCeiling: !constraints.thirtyThousandCeiling })
+            }
+          />
+          <span>At most one seat per 30,000 people (Article I)</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={constraints.oddElectoralCollege}
+            onChange={() =>
+              update({ oddElectoralCollege: !constraints.oddElectoralCollege })
+            }
+          />
+          <span>Odd Electoral College total (no ties)</span>
+        </label>
+      </div>
+
+      {constraints.maxDistrictPopulation !== null && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Every state&apos;s average district must stay at or under{" "}
+          {formatNumber(constraints.maxDistrictPopulation)} people.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,58 @@
 "use client";
 
+import { electoralSystemLabel, type ElectoralSystem } from "@/lib/elections";
 import { houseModelLabel, type HouseModelKey } from "@/lib/houseModels";
+import type { SeatVoteCurve } from "@/lib/overlays";
+import {
+  MAX_BIAS,
+  MAX_RESPONSIVENESS,
+  MIN_RESPONSIVENESS,
+  SEAT_VOTE_CURVE_PRESETS,
+  seatVoteCurvePreset,
+} from "@/lib/seatVotes";
+import {
+  APPORTIONMENT_METHODS,
+  apportionmentMethodLabel,
+  type ApportionmentMethod,
+} from "@/lib/apportionment";
+import { populationBaseLabel, type PopulationBase } from "@/lib/populationBases";
+import {
+  statehoodScenarioLabel,
+  type StatehoodScenario,
+} from "@/lib/statehood";
 
 type ControlsProps = {
   totalSeats: number;
   onTotalSeatsChange: (value: number) => void;
+  minSeats: number;
+  maxSeats: number;
+  seatStep: number;
+  houseSizeNote: string | null;
   houseModel: HouseModelKey;
   onHouseModelChange: (value: HouseModelKey) => void;
+  apportionmentMethod: ApportionmentMethod;
+  onApportionmentMethodChange: (value: ApportionmentMethod) => void;
+  censusYear: number;
+  censusYears: number[];
+  censusNote: string;
+  onCensusYearChange: (value: number) => void;
+  populationBase: PopulationBase;
+  populationBases: PopulationBase[];
+  populationBaseAvailable: boolean;
+  onPopulationBaseChange: (value: PopulationBase) => void;
+  statehoodScenario: StatehoodScenario;
+  statehoodScenarios: StatehoodScenario[];
+  statehoodNote: string | null;
+  onStatehoodScenarioChange: (value: StatehoodScenario) => void;
+  electoralSystem: ElectoralSystem;
+  electoralSystems: ElectoralSystem[];
+  onElectoralSystemChange: (value: ElectoralSystem) => void;
   darkMode: boolean;
   onToggleDarkMode: () => void;
   overlaysEnabled: boolean;
   onToggleOverlays: () => void;
-  responsiveness: "low" | "medium" | "high";
-  onResponsivenessChange: (value: "low" | "medium" | "high") => void;
+  seatVoteCurve: SeatVoteCurve;
+  onSeatVoteCurveChange: (value: SeatVoteCurve) => void;
   onReset: () => void;
   onShare: () => void;
 };
@@ -27,20 +67,38 @@ const modelOptions: HouseModelKey[] = [
 export default function Controls({
   totalSeats,
   onTotalSeatsChange,
+  minSeats,
+  maxSeats,
+  seatStep,
+  houseSizeNote,
   houseModel,
   onHouseModelChange,
+  apportionmentMethod,
+  onApportionmentMethodChange,
+  censusYear,
+  censusYears,
+  censusNote,
+  onCensusYearChange,
+  populationBase,
+  populationBases,
+  populationBaseAvailable,
+  onPopulationBaseChange,
+  statehoodScenario,
+  statehoodScenarios,
+  statehoodNote,
+  onStatehoodScenarioChange,
+  electoralSystem,
+  electoralSystems,
+  onElectoralSystemChange,
   darkMode,
   onToggleDarkMode,
   overlaysEnabled,
   onToggleOverlays,
-  responsiveness,
-  onResponsivenessChange,
+  seatVoteCurve,
+  onSeatVoteCurveChange,
   onReset,
   onShare,
 }: ControlsProps) {
-  const min = 435;
-  const max = 1200;
-
   return (
     <div className="card space-y-6">
       <div className="flex flex-wrap items-start justify-between gap-4">
@@ -51,7 +109,8 @@ export default function Controls({
             Adjust the total size of the U.S. House of Representatives.
           </p>
           <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-            Active model: {houseModelLabel(houseModel)}
+            Active model: {houseModelLabel(houseModel)} |{" "}
+            {apportionmentMethodLabel(apportionmentMethod)}
           </p>
         </div>
         <div className="flex flex-wrap gap-2">
@@ -86,20 +145,134 @@ export default function Controls({
           </div>
         </div>
 
+        <div>
+          <p className="label">Census</p>
+          <select
+            aria-label="Census year"
+            value={censusYear}
+            onChange={(event) => onCensusYearChange(Number(event.target.value))}
+            className="mt-2 w-full rounded-md border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+          >
+            {censusYears.map((year) => (
+              <option key={year} value={year}>
+                {year} census
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            {censusNote} Deltas compare against the seats actually enacted.
+          </p>
+        </div>
+
+        <div>
+          <p className="label">Population base</p>
+          <select
+            aria-label="Population base"
+            value={populationBase}
+            onChange={(event) =>
+              onPopulationBaseChange(event.target.value as PopulationBase)
+            }
+            className="mt-2 w-full rounded-md border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+          >
+            {populationBases.map((option) => (
+              <option key={option} value={option}>
+                {populationBaseLabel(option)}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            {populationBaseAvailable
+              ? "\"Base effect\" in the state table compares the chosen count with resident population under the same method."
+              : `Only resident counts exist for the ${censusYear} census, so resident population is used.`}
+          </p>
+        </div>
+
+        <div>
+          <p className="label">Statehood scenario</p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {statehoodScenarios.map((option) => (
+              <button
+                type="button"
+                key={option}
+                className={`button ${
+                  statehoodScenario === option ? "button-primary" : ""
+                }`}
+                onClick={() => onStatehoodScenarioChange(option)}
+              >
+                {statehoodScenarioLabel(option)}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            Admitted entities join the House apportionment and get two
+            Senate-based electors.
+            {statehoodNote ? ` ${statehoodNote}` : ""}
+          </p>
+        </div>
+
+        <div>
+          <p className="label">Electoral College system</p>
+          <select
+            aria-label="Electoral College system"
+            value={electoralSystem}
+            onChange={(event) =>
+              onElectoralSystemChange(event.target.value as ElectoralSystem)
+            }
+            className="mt-2 w-full rounded-md border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+          >
+            {electoralSystems.map((option) => (
+              <option key={option} value={option}>
+                {electoralSystemLabel(option)}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            Applies to the electoral vote counter and the historical replay.
+          </p>
+        </div>
+
+        <div>
+          <p className="label">Apportionment method</p>
+          <select
+            aria-label="Apportionment method"
+            value={apportionmentMethod}
+            onChange={(event) =>
+              onApportionmentMethodChange(event.target.value as ApportionmentMethod)
+            }
+            className="mt-2 w-full rounded-md border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+          >
+            {APPORTIONMENT_METHODS.map((option) => (
+              <option key={option} value={option}>
+                {apportionmentMethodLabel(option)}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            &quot;Method effect&quot; in the state table compares the chosen
+            method with Huntington–Hill at the same House size.
+          </p>
+        </div>
+
         <input
           aria-label="Total House seats"
           type="range"
-          min={min}
-          max={max}
+          min={minSeats}
+          max={maxSeats}
+          step={seatStep}
           value={totalSeats}
           disabled={houseModel !== "manual"}
           onChange={(event) => onTotalSeatsChange(Number(event.target.value))}
           className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-200 disabled:cursor-not-allowed dark:bg-slate-800"
         />
         <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
-          <span>{min}</span>
-          <span>{max}</span>
+          <span>{minSeats}</span>
+          <span>{maxSeats}</span>
         </div>
+        {houseSizeNote && (
+          <p className="text-xs text-orange-600 dark:text-orange-400">
+            {houseSizeNote}
+          </p>
+        )}
         {houseModel !== "manual" && (
           <p className="text-xs text-slate-500 dark:text-slate-400">
             Slider is disabled while a formula model is active.
@@ -131,34 +304,84 @@ export default function Controls({
           <ul className="mt-3 space-y-2 text-slate-600 dark:text-slate-300">
             <li>- Proportional-by-statewide-vote overlay (Hamilton method).</li>
             <li>
-              - Seat-vote responsiveness overlay (low/medium/high), a simulated
-              amplification lens rather than a gerrymandering score.
+              - Seat-vote curve overlay (logit responsiveness and bias), a
+              simulated amplification lens rather than a gerrymandering score.
             </li>
             <li>- Results are simulations, not forecasts.</li>
           </ul>
         </div>
         <div className="rounded-xl border border-dashed border-slate-200 p-4 text-sm text-slate-500 dark:border-slate-700 dark:text-slate-400">
           <p className="font-semibold text-slate-700 dark:text-slate-200">
-            Seat-vote curve responsiveness
+            Seat-vote curve
           </p>
           <p className="mt-1">
-            Simulated vote-to-seat amplification. Useful for comparing
-            responsiveness effects, but not a direct measure of gerrymandering.
+            Logit seats–votes model: responsiveness 1 is proportional, 3 is the
+            cube law. Bias is the Democratic seat share above 50% at an even
+            vote. The fits come from state delegations in recent midterms; they
+            describe how votes became seats, not gerrymandering on their own.
           </p>
-          <div className="mt-3 flex gap-2">
-            {(["low", "medium", "high"] as const).map((option) => (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {SEAT_VOTE_CURVE_PRESETS.map((preset) => (
               <button
                 type="button"
-                key={option}
+                key={preset.id}
+                title={`Responsiveness ${preset.curve.responsiveness}, bias ${
+                  Math.round(preset.curve.bias * 1000) / 10
+                } pts`}
                 className={`button ${
-                  responsiveness === option ? "button-primary" : ""
+                  seatVoteCurvePreset(seatVoteCurve)?.id === preset.id
+                    ? "button-primary"
+                    : ""
                 }`}
-                onClick={() => onResponsivenessChange(option)}
+                onClick={() => onSeatVoteCurveChange(preset.curve)}
               >
-                {option}
+                {preset.label}
               </button>
             ))}
           </div>
+          <label className="mt-3 block">
+            <span className="flex justify-between text-xs">
+              <span>Responsiveness</span>
+              <span>{seatVoteCurve.responsiveness.toFixed(2)}</span>
+            </span>
+            <input
+              type="range"
+              min={MIN_RESPONSIVENESS}
+              max={MAX_RESPONSIVENESS}
+              step={0.01}
+              value={seatVoteCurve.responsiveness}
+              onChange={(event) =>
+                onSeatVoteCurveChange({
+                  ...seatVoteCurve,
+                  responsiveness: Number(event.target.value),
+                })
+              }
+              className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-200 dark:bg-slate-800"
+            />
+          </label>
+          <label className="mt-3 block">
+            <span className="flex justify-between text-xs">
+              <span>Bias</span>
+              <span>
+                {seatVoteCurve.bias > 0 ? "+" : ""}
+                {(seatVoteCurve.bias * 100).toFixed(1)} pts
+              </span>
+            </span>
+            <input
+              type="range"
+              min={-MAX_BIAS}
+              max={MAX_BIAS}
+              step={0.001}
+              value={seatVoteCurve.bias}
+              onChange={(event) =>
+                onSeatVoteCurveChange({
+                  ...seatVoteCurve,
+                  bias: Math.round(Number(event.target.value) * 1000) / 1000,
+                })
+              }
+              className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-200 dark:bg-slate-800"
+            />
+          </label>
         </div>
       </div>
     </div>
@@ -0,0 +1,250 @@
+"use client";
+
+import {
+  FRA_MIN_DISTRICTED_SEATS,
+  type FairRepresentationResult,
+  type FairRepresentationState,
+  type TransferPreferences,
+} from "@/lib/fairRepresentation";
+import {
+  OVERLAY_PARTIES,
+  overlayAllocationMethodLabel,
+  overlayPartyLabel,
+  type OverlayAllocationMethod,
+  type OverlayParty,
+  type PartySeats,
+} from "@/lib/overlays";
+
+type FairRepresentationPanelProps = {
+  preferences: TransferPreferences;
+  onPreferencesChange: (preferences: TransferPreferences) => void;
+  method: OverlayAllocationMethod;
+  selectedState: string | null;
+  selectedPlan: FairRepresentationState | null;
+  rows: {
+    key: string;
+    label: string;
+    houseSize: number;
+    proportional: PartySeats;
+    fairRepresentation: FairRepresentationResult;
+    curve: { democrats: number; republicans: number };
+  }[];
+};
+
+const partyTextClass: Record<OverlayParty, string> = {
+  democrats: "text-blue-600 dark:text-blue-400",
+  republicans: "text-red-600 dark:text-red-400",
+  libertarians: "text-amber-600 dark:text-amber-400",
+  greens: "text-green-600 dark:text-green-400",
+  independents: "text-slate-600 dark:text-slate-300",
+};
+
+const partyInitial = (party: OverlayParty) => overlayPartyLabel(party).charAt(0);
+
+function SeatList({ parties, seats }: { parties: OverlayParty[]; seats: PartySeats }) {
+  return (
+    <>
+      {parties.map((party, index) => (
+        <span key={party}>
+          {index > 0 && " / "}
+          <span className={partyTextClass[party]}>{seats[party]}</span>
+        </span>
+      ))}
+    </>
+  );
+}
+
+export default function FairRepresentationPanel({
+  preferences,
+  onPreferencesChange,
+  method,
+  selectedState,
+  selectedPlan,
+  rows,
+}: FairRepresentationPanelProps) {
+  const shownParties = OVERLAY_PARTIES.filter(
+    (party) =>
+      party === "democrats" ||
+      party === "republicans" ||
+      rows.some(
+        (row) => row.proportional[party] > 0 || row.fairRepresentation.seats[party] > 0
+      )
+  );
+
+  // A row can hand on at most all of its ballots; the rest of an edit is
+  // clipped rather than taken from the other cells.
+  const setPreference = (from: OverlayParty, to: OverlayParty, value: number) => {
+    const others = OVERLAY_PARTIES.reduce(
+      (sum, party) => sum + (party === to ? 0 : preferences[from][party]),
+      0
+    );
+    onPreferencesChange({
+      ...preferences,
+      [from]: {
+        ...preferences[from],
+        [to]: Math.max(0, Math.min(value, 1 - others)),
+      },
+    });
+  };
+
+  return (
+    <div className="card space-y-5">
+      <div>
+        <p className="label">Fair Representation Act</p>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          States with {FRA_MIN_DISTRICTED_SEATS} or more seats elect in three- to
+          five-member districts by single transferable vote; smaller states
+          elect at large. Every party runs a full slate and its voters rank its
+          candidates first, using the overlay&apos;s party shares.
+        </p>
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold">Transfer preferences</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Percent of each party&apos;s ballots that move to another party once
+          its own candidates are out. Whatever is left exhausts.
+        </p>
+        <div className="mt-2 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-left text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="px-2 py-2 font-medium">From \ to</th>
+                {OVERLAY_PARTIES.map((party) => (
+                  <th key={party} className="px-2 py-2 font-medium">
+                    {overlayPartyLabel(party)}
+                  </th>
+                ))}
+                <th className="px-2 py-2 font-medium">Exhausts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {OVERLAY_PARTIES.map((from) => {
+                const rowTotal = OVERLAY_PARTIES.reduce(
+                  (sum, to) => sum + preferences[from][to],
+                  0
+                );
+                return (
+                  <tr
+                    key={from}
+                    className="border-t border-slate-200 dark:border-slate-800"
+                  >
+                    <td className={`px-2 py-2 font-semibold ${partyTextClass[from]}`}>
+                      {overlayPartyLabel(from)}
+                    </td>
+                    {OVERLAY_PARTIES.map((to) => (
+                      <td key={to} className="px-2 py-1">
+                        {from === to ? (
+                          <span className="text-slate-400">—</span>
+                        ) : (
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            step={5}
+                            value={Math.round(preferences[from][to] * 100)}
+                            onChange={(event) =>
+                              setPreference(from, to, Number(event.target.value) / 100)
+                            }
+                            className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+                          />
+                        )}
+                      </td>
+                    ))}
+                    <td className="px-2 py-2 text-slate-500 dark:text-slate-400">
+                      {Math.round(Math.max(0, 1 - rowTotal) * 100)}%
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold">Seats by system</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          STV against the statewide {overlayAllocationMethodLabel(method)} overlay
+          and the single-member seat-vote curve. Seats are{" "}
+          {shownParties.map(partyInitial).join("/")}; the curve is two-party only.
+        </p>
+        <div className="mt-2 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-left text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="px-2 py-2 font-medium">Model</th>
+                <th className="px-2 py-2 font-medium">House</th>
+                <th className="px-2 py-2 font-medium">Districts</th>
+                <th className="px-2 py-2 font-medium">STV</th>
+                <th className="px-2 py-2 font-medium">Statewide</th>
+                <th className="px-2 py-2 font-medium">Single-member (D/R)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.key}
+                  className="border-t border-slate-200 dark:border-slate-800"
+                >
+                  <td className="px-2 py-2 font-semibold">{row.label}</td>
+                  <td className="px-2 py-2">{row.houseSize}</td>
+                  <td className="px-2 py-2">{row.fairRepresentation.districtCount}</td>
+                  <td className="px-2 py-2 font-semibold">
+                    <SeatList
+                      parties={shownParties}
+                      seats={row.fairRepresentation.seats}
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <SeatList parties={shownParties} seats={row.proportional} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <span className={partyTextClass.democrats}>
+                      {row.curve.democrats}
+                    </span>
+                    {" / "}
+                    <span className={partyTextClass.republicans}>
+                      {row.curve.republicans}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-xl border border-dashed border-slate-200 p-3 text-sm dark:border-slate-700">
+        {selectedState && selectedPlan ? (
+          <>
+            <p className="font-semibold">
+              {selectedState}:{" "}
+              {selectedPlan.districts.length === 1
+                ? `elects ${selectedPlan.districts[0]} at large`
+                : `${selectedPlan.districts.length} districts of ${selectedPlan.districts.join(
+                    ", "
+                  )}`}
+            </p>
+            <p className="mt-1 text-slate-500 dark:text-slate-400">
+              {shownParties
+                .map((party) => `${overlayPartyLabel(party)} ${selectedPlan.seats[party]}`)
+                .join(" · ")}
+            </p>
+          </>
+        ) : (
+          <p className="text-slate-500 dark:text-slate-400">
+            Select a state on the map to see its district plan at the current
+            House size.
+          </p>
+        )}
+      </div>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Each district takes its state&apos;s statewide shares, so the model
+        captures district magnitude and transfers, not geography. The default
+        preferences are illustrative rather than drawn from ranked-ballot data.
+      </p>
+    </div>
+  );
+}
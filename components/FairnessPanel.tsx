@@ -0,0 +1,136 @@
+"use client";
+
+import { useMemo } from "react";
+import * as d3 from "d3";
+import {
+  FAIRNESS_INDEX_KEYS,
+  fairnessIndexDescription,
+  fairnessIndexLabel,
+  type FairnessIndexKey,
+  type FairnessIndices,
+  type FairnessPoint,
+} from "@/lib/fairness";
+import { formatNumber } from "@/lib/metrics";
+
+type FairnessPanelProps = {
+  totalSeats: number;
+  indices: FairnessIndices;
+  baselineSeats: number;
+  baselineIndices: FairnessIndices;
+  series: FairnessPoint[];
+};
+
+const CHART_WIDTH = 260;
+const CHART_HEIGHT = 80;
+const CHART_PADDING = 4;
+
+const formatIndex = (key: FairnessIndexKey, value: number) => {
+  if (key === "maxMinRatio") return `${formatNumber(value, 3)}×`;
+  if (key === "absoluteInequality") return formatNumber(value);
+  if (key === "relativeInequality" || key === "loosemoreHanby") {
+    return `${formatNumber(value * 100, 2)}%`;
+  }
+  if (key === "gini") return formatNumber(value, 4);
+  return `${formatNumber(value, 2)} seats`;
+};
+
+function IndexChart({
+  indexKey,
+  series,
+  totalSeats,
+}: {
+  indexKey: FairnessIndexKey;
+  series: FairnessPoint[];
+  totalSeats: number;
+}) {
+  const { path, markerX } = useMemo(() => {
+    const x = d3
+      .scaleLinear()
+      .domain(d3.extent(series, (point) => point.houseSize) as [number, number])
+      .range([CHART_PADDING, CHART_WIDTH - CHART_PADDING]);
+    const y = d3
+      .scaleLinear()
+      .domain(d3.extent(series, (point) => point[indexKey]) as [number, number])
+      .nice()
+      .range([CHART_HEIGHT - CHART_PADDING, CHART_PADDING]);
+    const line = d3
+      .line<FairnessPoint>()
+      .x((point) => x(point.houseSize))
+      .y((point) => y(point[indexKey]));
+    return { path: line(series) ?? "", markerX: x(totalSeats) };
+  }, [series, indexKey, totalSeats]);
+
+  if (series.length < 2) return null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="mt-2 h-20 w-full"
+      role="img"
+      aria-label={`${fairnessIndexLabel(indexKey)} by House size`}
+    >
+      <path
+        d={path}
+        fill="none"
+        className="stroke-slate-500 dark:stroke-slate-400"
+        strokeWidth={1.25}
+      />
+      <line
+        x1={markerX}
+        x2={markerX}
+        y1={0}
+        y2={CHART_HEIGHT}
+        className="stroke-orange-500"
+        strokeDasharray="3 3"
+      />
+    </svg>
+  );
+}
+
+export default function FairnessPanel({
+  totalSeats,
+  indices,
+  baselineSeats,
+  baselineIndices,
+  series,
+}: FairnessPanelProps) {
+  const first = series[0];
+  const last = series[series.length - 1];
+
+  return (
+    <div className="card space-y-6">
+      <div>
+        <p className="label">Fairness</p>
+        <h3 className="text-lg font-semibold">
+          Representation inequality at {totalSeats} seats
+        </h3>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Lower is fairer for every index. Charts run from{" "}
+          {first?.houseSize ?? totalSeats} to {last?.houseSize ?? totalSeats}{" "}
+          seats; the dashed line marks the current House.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {FAIRNESS_INDEX_KEYS.map((key) => (
+          <div
+            key={key}
+            className="rounded-lg border border-slate-200 p-3 dark:border-slate-800"
+          >
+            <p className="text-sm font-semibold">{fairnessIndexLabel(key)}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {fairnessIndexDescription(key)}
+            </p>
+            <p className="mt-2 text-xl font-semibold">
+              {formatIndex(key, indices[key])}
+            </p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {formatIndex(key, baselineIndices[key])} at {baselineSeats} seats
+            </p>
+            <IndexChart indexKey={key} series={series} totalSeats={totalSeats} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
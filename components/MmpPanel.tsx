@@ -0,0 +1,204 @@
+"use client";
+
+import {
+  MIN_MMP_CONSTITUENCY_SHARE,
+  MMP_OVERHANG_RULES,
+  MMP_TIERS,
+  mmpOverhangRuleLabel,
+  mmpTierLabel,
+  OVERLAY_PARTIES,
+  overlayAllocationMethodLabel,
+  overlayPartyLabel,
+  type MmpOverhangRule,
+  type MmpResult,
+  type MmpSettings,
+  type MmpTier,
+  type OverlayAllocationMethod,
+  type OverlayParty,
+  type PartySeats,
+} from "@/lib/overlays";
+
+type MmpPanelProps = {
+  settings: MmpSettings;
+  onSettingsChange: (settings: MmpSettings) => void;
+  method: OverlayAllocationMethod;
+  rows: {
+    key: string;
+    label: string;
+    houseSize: number;
+    districts: number;
+    mmp: MmpResult;
+    proportional: PartySeats;
+  }[];
+};
+
+const partyTextClass: Record<OverlayParty, string> = {
+  democrats: "text-blue-600 dark:text-blue-400",
+  republicans: "text-red-600 dark:text-red-400",
+  libertarians: "text-amber-600 dark:text-amber-400",
+  greens: "text-green-600 dark:text-green-400",
+  independents: "text-slate-600 dark:text-slate-300",
+};
+
+const partyInitial = (party: OverlayParty) => overlayPartyLabel(party).charAt(0);
+
+const selectClass =
+  "mt-1 w-full rounded-md border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200";
+
+function SeatList({ parties, seats }: { parties: OverlayParty[]; seats: PartySeats }) {
+  return (
+    <>
+      {parties.map((party, index) => (
+        <span key={party}>
+          {index > 0 && " / "}
+          <span className={partyTextClass[party]}>{seats[party]}</span>
+        </span>
+      ))}
+    </>
+  );
+}
+
+export default function MmpPanel({
+  settings,
+  onSettingsChange,
+  method,
+  rows,
+}: MmpPanelProps) {
+  const shownParties = OVERLAY_PARTIES.filter(
+    (party) =>
+      party === "democrats" ||
+      party === "republicans" ||
+      rows.some((row) => row.mmp.seats[party] > 0 || row.proportional[party] > 0)
+  );
+
+  return (
+    <div className="card space-y-5">
+      <div>
+        <p className="label">Mixed-member proportional</p>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Part of each House is elected in single-member districts along the
+          seat-vote curve; the rest are list seats that top parties up toward
+          their {overlayAllocationMethodLabel(method)} share of the vote, using
+          the overlay&apos;s parties and threshold.
+        </p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="block text-sm">
+          <span className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+            <span>District seats</span>
+            <span className="font-semibold text-slate-700 dark:text-slate-200">
+              {Math.round(settings.constituencyShare * 100)}% of the House
+            </span>
+          </span>
+          <input
+            type="range"
+            min={MIN_MMP_CONSTITUENCY_SHARE * 100}
+            max={100}
+            step={5}
+            value={settings.constituencyShare * 100}
+            onChange={(event) =>
+              onSettingsChange({
+                ...settings,
+                constituencyShare: Number(event.target.value) / 100,
+              })
+            }
+            className="mt-3 h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-200 dark:bg-slate-800"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="text-xs text-slate-500 dark:text-slate-400">Top-up tier</span>
+          <select
+            value={settings.tier}
+            onChange={(event) =>
+              onSettingsChange({ ...settings, tier: event.target.value as MmpTier })
+            }
+            className={selectClass}
+          >
+            {MMP_TIERS.map((tier) => (
+              <option key={tier} value={tier}>
+                {mmpTierLabel(tier)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="text-xs text-slate-500 dark:text-slate-400">Overhang</span>
+          <select
+            value={settings.overhang}
+            onChange={(event) =>
+              onSettingsChange({
+                ...settings,
+                overhang: event.target.value as MmpOverhangRule,
+              })
+            }
+            className={selectClass}
+          >
+            {MMP_OVERHANG_RULES.map((rule) => (
+              <option key={rule} value={rule}>
+                {mmpOverhangRuleLabel(rule)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="text-left text-slate-500 dark:text-slate-400">
+            <tr>
+              <th className="px-2 py-2 font-medium">Model</th>
+              <th className="px-2 py-2 font-medium">House</th>
+              <th className="px-2 py-2 font-medium">Districts (D/R)</th>
+              <th className="px-2 py-2 font-medium">
+                List ({shownParties.map(partyInitial).join("/")})
+              </th>
+              <th className="px-2 py-2 font-medium">MMP total</th>
+              <th className="px-2 py-2 font-medium">Seated</th>
+              <th className="px-2 py-2 font-medium">Statewide</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-slate-200 dark:border-slate-800">
+                <td className="px-2 py-2 font-semibold">{row.label}</td>
+                <td className="px-2 py-2">{row.houseSize}</td>
+                <td className="px-2 py-2">
+                  {row.districts}:{" "}
+                  <SeatList
+                    parties={["democrats", "republicans"]}
+                    seats={row.mmp.constituency}
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <SeatList parties={shownParties} seats={row.mmp.list} />
+                </td>
+                <td className="px-2 py-2 font-semibold">
+                  <SeatList parties={shownParties} seats={row.mmp.seats} />
+                </td>
+                <td className="px-2 py-2">
+                  {row.mmp.houseSize}
+                  {row.mmp.added > 0 && (
+                    <span className="text-amber-600 dark:text-amber-400">
+                      {" "}
+                      (+{row.mmp.added})
+                    </span>
+                  )}
+                </td>
+                <td className="px-2 py-2">
+                  <SeatList parties={shownParties} seats={row.proportional} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        District seats are apportioned among the states at the smaller size.
+        Seated counts the House after overhang or leveling seats; statewide is
+        the proportional overlay for comparison. Leveling stops at four times
+        the nominal size, leaving any remainder as overhang.
+      </p>
+    </div>
+  );
+}
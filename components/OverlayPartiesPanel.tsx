@@ -0,0 +1,265 @@
+"use client";
+
+import {
+  OVERLAY_ALLOCATION_METHODS,
+  OVERLAY_PARTIES,
+  overlayAllocationMethodLabel,
+  overlayPartyLabel,
+  type MinorPartyShares,
+  type OverlayAllocationMethod,
+  type OverlayParty,
+  type OverlayPartySettings,
+  type PartySeats,
+} from "@/lib/overlays";
+
+type OverlayPartiesPanelProps = {
+  settings: OverlayPartySettings;
+  onSettingsChange: (settings: OverlayPartySettings) => void;
+  selectedState: string | null;
+  rows: {
+    key: string;
+    label: string;
+    houseSize: number;
+    methodSeats: Record<OverlayAllocationMethod, PartySeats>;
+  }[];
+};
+
+const MINOR_PARTIES: (keyof MinorPartyShares)[] = [
+  "libertarians",
+  "greens",
+  "independents",
+];
+
+const partyTextClass: Record<OverlayParty, string> = {
+  democrats: "text-blue-600 dark:text-blue-400",
+  republicans: "text-red-600 dark:text-red-400",
+  libertarians: "text-amber-600 dark:text-amber-400",
+  greens: "text-green-600 dark:text-green-400",
+  independents: "text-slate-600 dark:text-slate-300",
+};
+
+const partyInitial = (party: OverlayParty) => overlayPartyLabel(party).charAt(0);
+
+function ShareSlider({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="block text-sm">
+      <span className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+        <span>{label}</span>
+        <span className="font-semibold text-slate-700 dark:text-slate-200">
+          {(value * 100).toFixed(1)}%
+        </span>
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={20}
+        step={0.5}
+        value={value * 100}
+        onChange={(event) => onChange(Number(event.target.value) / 100)}
+        className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-200 dark:bg-slate-800"
+      />
+    </label>
+  );
+}
+
+export default function OverlayPartiesPanel({
+  settings,
+  onSettingsChange,
+  selectedState,
+  rows,
+}: OverlayPartiesPanelProps) {
+  const override = selectedState ? settings.byState[selectedState] : undefined;
+
+  const setOverride = (shares: MinorPartyShares | null) => {
+    if (!selectedState) return;
+    const { [selectedState]: _, ...rest } = settings.byState;
+    onSettingsChange({
+      ...settings,
+      byState: shares ? { ...rest, [selectedState]: shares } : rest,
+    });
+  };
+
+  const shownParties = OVERLAY_PARTIES.filter(
+    (party) =>
+      party === "democrats" ||
+      party === "republicans" ||
+      rows.some((row) =>
+        OVERLAY_ALLOCATION_METHODS.some((method) => row.methodSeats[method][party] > 0)
+      )
+  );
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <p className="label">Minor parties</p>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Shares of each state&apos;s vote, alongside the Democratic shares
+          below. Republicans take the remainder.
+        </p>
+        <div className="mt-3 grid gap-3 sm:grid-cols-3">
+          {MINOR_PARTIES.map((party) => (
+            <ShareSlider
+              key={party}
+              label={`${overlayPartyLabel(party)} (every state)`}
+              value={settings.baseline[party]}
+              onChange={(value) =>
+                onSettingsChange({
+                  ...settings,
+                  baseline: { ...settings.baseline, [party]: value },
+                })
+              }
+            />
+          ))}
+        </div>
+        <div className="mt-4 rounded-xl border border-dashed border-slate-200 p-3 dark:border-slate-700">
+          {selectedState ? (
+            <>
+              <div className="flex items-center justify-between text-sm">
+                <p className="font-semibold">
+                  {selectedState}
+                  {override ? " shares" : " uses the baseline"}
+                </p>
+                <button
+                  type="button"
+                  className="button text-xs"
+                  onClick={() => setOverride(override ? null : settings.baseline)}
+                >
+                  {override ? "Use baseline" : "Set state shares"}
+                </button>
+              </div>
+              {override && (
+                <div className="mt-3 grid gap-3 sm:grid-cols-3">
+                  {MINOR_PARTIES.map((party) => (
+                    <ShareSlider
+                      key={party}
+                      label={overlayPartyLabel(party)}
+                      value={override[party]}
+                      onChange={(value) => setOverride({ ...override, [party]: value })}
+                    />
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Select a state on the map to give it its own minor-party shares.
+            </p>
+          )}
+          {Object.keys(settings.byState).length > 0 && (
+            <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+              States with their own shares:{" "}
+              {Object.keys(settings.byState).sort().join(", ")}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="block text-sm">
+          <span className="text-xs text-slate-500 dark:text-slate-400">
+            Seat allocation
+          </span>
+          <select
+            value={settings.method}
+            onChange={(event) =>
+              onSettingsChange({
+                ...settings,
+                method: event.target.value as OverlayAllocationMethod,
+              })
+            }
+            className="mt-1 w-full rounded-md border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+          >
+            {OVERLAY_ALLOCATION_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {overlayAllocationMethodLabel(method)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+            <span>Legal threshold (share of the state vote)</span>
+            <span className="font-semibold text-slate-700 dark:text-slate-200">
+              {(settings.threshold * 100).toFixed(1)}%
+            </span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={10}
+            step={0.5}
+            value={settings.threshold * 100}
+            onChange={(event) =>
+              onSettingsChange({
+                ...settings,
+                threshold: Number(event.target.value) / 100,
+              })
+            }
+            className="mt-3 h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-200 dark:bg-slate-800"
+          />
+        </label>
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold">Seats by allocation method</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Each state is allocated on its own. D&apos;Hondt favors large parties;
+          Sainte-Laguë and Hamilton stay closer to proportional, which matters
+          more as delegations grow.
+        </p>
+        <div className="mt-2 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-left text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="px-2 py-2 font-medium">Model</th>
+                <th className="px-2 py-2 font-medium">House</th>
+                {OVERLAY_ALLOCATION_METHODS.map((method) => (
+                  <th key={method} className="px-2 py-2 font-medium">
+                    {overlayAllocationMethodLabel(method)} (
+                    {shownParties.map(partyInitial).join("/")})
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.key}
+                  className="border-t border-slate-200 dark:border-slate-800"
+                >
+                  <td className="px-2 py-2 font-semibold">{row.label}</td>
+                  <td className="px-2 py-2">{row.houseSize}</td>
+                  {OVERLAY_ALLOCATION_METHODS.map((method) => (
+                    <td
+                      key={method}
+                      className={`px-2 py-2 ${
+                        method === settings.method ? "font-semibold" : ""
+                      }`}
+                    >
+                      {shownParties.map((party, index) => (
+                        <span key={party}>
+                          {index > 0 && " / "}
+                          <span className={partyTextClass[party]}>
+                            {row.methodSeats[method][party]}
+                          </span>
+                        </span>
+                      ))}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import type {
+  AlabamaParadoxCase,
+  NewStatesParadoxResult,
+  PopulationParadoxCase,
+  QuotaViolationCase,
+} from "@/lib/paradoxes";
+import { formatNumber } from "@/lib/metrics";
+
+type ParadoxPanelProps = {
+  methodLabel: string;
+  minSeats: number;
+  maxSeats: number;
+  totalSeats: number;
+  alabamaCases: AlabamaParadoxCase[];
+  quotaViolations: QuotaViolationCase[];
+  censusYear: number;
+  populationParadox: { previousYear: number; cases: PopulationParadoxCase[] } | null;
+  newStates: NewStatesParadoxResult | null;
+  stateNames: Record<string, string>;
+};
+
+export default function ParadoxPanel({
+  methodLabel,
+  minSeats,
+  maxSeats,
+  totalSeats,
+  alabamaCases,
+  quotaViolations,
+  censusYear,
+  populationParadox,
+  newStates,
+  stateNames,
+}: ParadoxPanelProps) {
+  const nameFor = (abbr: string) => stateNames[abbr] ?? abbr;
+  const violatingSizes = new Set(quotaViolations.map((entry) => entry.houseSize));
+  const violationsByState = quotaViolations.reduce<Record<string, number>>(
+    (acc, entry) => {
+      acc[entry.state] = (acc[entry.state] ?? 0) + 1;
+      return acc;
+    },
+    {}
+  );
+  const worstStates = Object.entries(violationsByState)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5);
+  const firstViolation = quotaViolations[0];
+
+  return (
+    <div className="card space-y-6">
+      <div>
+        <p className="label">Apportionment paradoxes</p>
+        <h3 className="text-lg font-semibold">{methodLabel}</h3>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Divisor methods such as Huntington–Hill never take a seat away when
+          the House grows, which is part of why Congress adopted it in 1941.
+          Largest-remainder methods such as Hamilton do not share that
+          guarantee.
+        </p>
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold">Alabama paradox</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Scans every House size from {minSeats} to {maxSeats} for a state that
+          loses a seat when one seat is added.
+        </p>
+        {alabamaCases.length === 0 ? (
+          <p className="mt-3 rounded-lg border border-slate-200 p-3 text-sm dark:border-slate-800">
+            House-monotone across the range: no state ever loses a seat.
+          </p>
+        ) : (
+          <div className="mt-3 max-h-[260px] overflow-auto">
+            <p className="mb-2 text-sm">
+              {alabamaCases.length} counterexample
+              {alabamaCases.length === 1 ? "" : "s"} found.
+            </p>
+            <table className="min-w-full text-sm">
+              <thead className="text-left text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                <tr>
+                  <th className="py-2 pr-4">House size</th>
+                  <th className="py-2 pr-4">State</th>
+                  <th className="py-2 pr-4">Seats</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 text-slate-700 dark:divide-slate-800 dark:text-slate-200">
+                {alabamaCases.map((entry) => (
+                  <tr key={`${entry.state}-${entry.houseSize}`}>
+                    <td className="py-2 pr-4">
+                      {entry.houseSize - 1} → {entry.houseSize}
+                    </td>
+                    <td className="py-2 pr-4 font-semibold">
+                      {nameFor(entry.state)} ({entry.state})
+                    </td>
+                    <td className="py-2 pr-4">
+                      {entry.seatsBefore} → {entry.seatsAfter}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold">Quota rule</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Counts House sizes from {minSeats} to {maxSeats} where a state falls
+          outside the floor or ceiling of its standard quota.
+        </p>
+        {quotaViolations.length === 0 ? (
+          <p className="mt-3 rounded-lg border border-slate-200 p-3 text-sm dark:border-slate-800">
+            Quota rule satisfied at every House size in the range.
+          </p>
+        ) : (
+          <div className="mt-3 space-y-2 text-sm">
+            <p>
+              {violatingSizes.size} of {maxSeats - minSeats + 1} House sizes
+              break the quota rule ({quotaViolations.length} state-level
+              violations).
+            </p>
+            {firstViolation && (
+              <p className="text-slate-500 dark:text-slate-400">
+                First at {firstViolation.houseSize} seats:{" "}
+                {nameFor(firstViolation.state)} gets {firstViolation.seats} seats
+                on a quota of {formatNumber(firstViolation.standardQuota, 2)}.
+              </p>
+            )}
+            <ul className="space-y-1">
+              {worstStates.map(([state, count]) => (
+                <li key={state}>
+                  {nameFor(state)} ({state}): {count} House size
+                  {count === 1 ? "" : "s"}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {populationParadox && (
+        <div>
+          <p className="text-sm font-semibold">Population paradox</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Apportions {totalSeats} seats with the {populationParadox.previousYear}{" "}
+            and {censusYear} populations and looks for a faster-growing state
+            losing a seat to a slower-growing one.
+          </p>
+          {populationParadox.cases.length === 0 ? (
+            <p className="mt-3 rounded-lg border border-slate-200 p-3 text-sm dark:border-slate-800">
+              No population paradox between these censuses.
+            </p>
+          ) : (
+            <ul className="mt-3 space-y-1 text-sm">
+              {populationParadox.cases.map((entry) => (
+                <li key={`${entry.loser}-${entry.gainer}`}>
+                  {nameFor(entry.loser)} grew{" "}
+                  {formatNumber(entry.loserGrowth * 100, 1)}% and went{" "}
+                  {entry.loserSeats[0]} → {entry.loserSeats[1]};{" "}
+                  {nameFor(entry.gainer)} grew{" "}
+                  {formatNumber(entry.gainerGrowth * 100, 1)}% and went{" "}
+                  {entry.gainerSeats[0]} → {entry.gainerSeats[1]}.
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {newStates && (
+        <div>
+          <p className="text-sm font-semibold">New-states paradox</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Admits {nameFor(newStates.addedState)} at {totalSeats} seats and
+            grows the House by its fair share ({newStates.addedSeats} seat
+            {newStates.addedSeats === 1 ? "" : "s"}).
+          </p>
+          {newStates.cases.length === 0 ? (
+            <p className="mt-3 rounded-lg border border-slate-200 p-3 text-sm dark:border-slate-800">
+              No existing state changes: {nameFor(newStates.addedState)} takes{" "}
+              {newStates.addedStateSeats} seat
+              {newStates.addedStateSeats === 1 ? "" : "s"} and everyone else
+              keeps theirs.
+            </p>
+          ) : (
+            <ul className="mt-3 space-y-1 text-sm">
+              {newStates.cases.map((entry) => (
+                <li key={entry.state}>
+                  {nameFor(entry.state)} ({entry.state}): {entry.seatsBefore} →{" "}
+                  {entry.seatsAfter}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
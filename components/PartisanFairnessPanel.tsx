@@ -0,0 +1,189 @@
+"use client";
+
+import { useMemo } from "react";
+import { houseModelLabel, type HouseModelKey } from "@/lib/houseModels";
+import { formatNumber } from "@/lib/metrics";
+import { OVERLAY_PARTIES, overlayPartyLabel, type PartySeats } from "@/lib/overlays";
+import {
+  PARTISAN_FAIRNESS_KEYS,
+  STATE_PARTISAN_FAIRNESS_KEYS,
+  partisanFairnessDescription,
+  partisanFairnessFavors,
+  partisanFairnessLabel,
+  type PartisanFairness,
+  type PartisanFairnessKey,
+} from "@/lib/partisanFairness";
+
+type PartisanFairnessPanelProps = {
+  houseSize: number;
+  fairness: PartisanFairness;
+  models: {
+    model: HouseModelKey;
+    modeledHouseSize: number;
+    partisanFairness: PartisanFairness;
+  }[];
+};
+
+const STATE_ROWS = 8;
+
+// Shares print in points; declination is already on a ±1 scale.
+const formatMeasure = (key: PartisanFairnessKey, value: number | null) => {
+  if (value === null) return "—";
+  const magnitude =
+    key === "declination"
+      ? formatNumber(Math.abs(value), 3)
+      : formatNumber(Math.abs(value) * 100, 1);
+  const favors = partisanFairnessFavors(key, value);
+  return favors ? `${favors}+${magnitude}` : magnitude;
+};
+
+const measureClass = (key: PartisanFairnessKey, value: number | null) => {
+  const favors = value === null ? null : partisanFairnessFavors(key, value);
+  if (favors === "D") return "text-blue-600 dark:text-blue-400";
+  if (favors === "R") return "text-red-600 dark:text-red-400";
+  return "";
+};
+
+// Democrats and Republicans always, other parties once they win a seat.
+const formatSeats = (seats: PartySeats) =>
+  OVERLAY_PARTIES.filter(
+    (party) => party === "democrats" || party === "republicans" || seats[party] > 0
+  )
+    .map((party) => `${overlayPartyLabel(party).charAt(0)} ${seats[party]}`)
+    .join(" / ");
+
+export default function PartisanFairnessPanel({
+  houseSize,
+  fairness,
+  models,
+}: PartisanFairnessPanelProps) {
+  const rows = [
+    { key: "current", label: "Current House", houseSize, fairness },
+    ...models.map((row) => ({
+      key: row.model,
+      label: houseModelLabel(row.model),
+      houseSize: row.modeledHouseSize,
+      fairness: row.partisanFairness,
+    })),
+  ];
+
+  const distortedStates = useMemo(
+    () =>
+      Object.entries(fairness.states)
+        .sort(([, a], [, b]) => b.gallagher - a.gallagher)
+        .slice(0, STATE_ROWS),
+    [fairness]
+  );
+
+  return (
+    <div className="card space-y-4">
+      <div>
+        <p className="label">Fairness of translation</p>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Partisan measures for the overlay&apos;s seat allocation, treating
+          each state as a multi-member unit. Signed measures are in points for
+          the party they favor; the Gallagher index is in points of
+          disproportionality.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="text-left text-slate-500 dark:text-slate-400">
+            <tr>
+              <th className="px-2 py-2 font-medium">Model</th>
+              <th className="px-2 py-2 font-medium">House</th>
+              <th className="px-2 py-2 font-medium">Seats</th>
+              {PARTISAN_FAIRNESS_KEYS.map((key) => (
+                <th
+                  key={key}
+                  className="px-2 py-2 font-medium"
+                  title={partisanFairnessDescription(key)}
+                >
+                  {partisanFairnessLabel(key)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.key}
+                className="border-t border-slate-200 dark:border-slate-800"
+              >
+                <td className="px-2 py-2 font-semibold">{row.label}</td>
+                <td className="px-2 py-2">{row.houseSize}</td>
+                <td className="px-2 py-2">{formatSeats(row.fairness.seats)}</td>
+                {PARTISAN_FAIRNESS_KEYS.map((key) => (
+                  <td
+                    key={key}
+                    className={`px-2 py-2 font-semibold ${measureClass(
+                      key,
+                      row.fairness.measures[key]
+                    )}`}
+                  >
+                    {formatMeasure(key, row.fairness.measures[key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold">
+          Most disproportional states at the current House
+        </p>
+        <div className="overflow-x-auto">
+          <table className="mt-2 min-w-full text-sm">
+            <thead className="text-left text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="px-2 py-2 font-medium">State</th>
+                <th className="px-2 py-2 font-medium">D vote (two-party)</th>
+                <th className="px-2 py-2 font-medium">Seats</th>
+                {STATE_PARTISAN_FAIRNESS_KEYS.map((key) => (
+                  <th
+                    key={key}
+                    className="px-2 py-2 font-medium"
+                    title={partisanFairnessDescription(key)}
+                  >
+                    {partisanFairnessLabel(key)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {distortedStates.map(([abbr, state]) => (
+                <tr
+                  key={abbr}
+                  className="border-t border-slate-200 dark:border-slate-800"
+                >
+                  <td className="px-2 py-2 font-semibold">{abbr}</td>
+                  <td className="px-2 py-2">
+                    {formatNumber(state.twoPartyVote * 100, 1)}%
+                  </td>
+                  <td className="px-2 py-2">{formatSeats(state.seats)}</td>
+                  {STATE_PARTISAN_FAIRNESS_KEYS.map((key) => (
+                    <td
+                      key={key}
+                      className={`px-2 py-2 ${measureClass(key, state[key])}`}
+                    >
+                      {formatMeasure(key, state[key])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Mean–median and declination need a spread of units, so they are
+        national only. Partisan bias is blank for single-seat states. Under
+        proportional allocation the efficiency gap tracks the vote margin, since
+        it expects a two-for-one seat bonus. The Gallagher index counts every
+        party.
+      </p>
+    </div>
+  );
+}
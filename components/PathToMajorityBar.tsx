@@ -0,0 +1,144 @@
+"use client";
+
+import { useMemo } from "react";
+import * as d3 from "d3";
+import type { PathState, PathToMajority } from "@/lib/tippingPoint";
+
+type PathToMajorityBarProps = {
+  path: PathToMajority;
+  // False when the electoral system does not award whole states, so the
+  // tipping point and flips would not decide the outcome.
+  winnerTakeAll: boolean;
+  systemLabel: string;
+  stateNames: Record<string, string>;
+  onSelectState: (abbr: string) => void;
+};
+
+const formatMargin = (margin: number) => {
+  if (margin === 0) return "even";
+  return `${margin > 0 ? "D" : "R"} +${(Math.abs(margin) * 100).toFixed(1)}`;
+};
+
+const formatFlips = (flips: PathState[] | null) => {
+  if (flips === null) return "cannot reach a majority";
+  if (flips.length === 0) return "already has a majority";
+  const electors = flips.reduce((sum, state) => sum + state.electors, 0);
+  return `${flips.map((state) => state.abbr).join(", ")} (${electors} electors)`;
+};
+
+export default function PathToMajorityBar({
+  path,
+  winnerTakeAll,
+  systemLabel,
+  stateNames,
+  onSelectState,
+}: PathToMajorityBarProps) {
+  const color = useMemo(
+    () =>
+      d3
+        .scaleDiverging<string>(d3.interpolateRdBu)
+        .domain([-0.3, 0, 0.3])
+        .clamp(true),
+    []
+  );
+
+  const segments = useMemo(() => {
+    let offset = 0;
+    return path.ordered.map((state) => {
+      const segment = { state, offset };
+      offset += state.electors;
+      return segment;
+    });
+  }, [path]);
+
+  const percent = (electors: number) => `${(electors / Math.max(1, path.total)) * 100}%`;
+  const leaderIsDemocrat = path.democrats >= path.republicans;
+
+  return (
+    <div className="card mb-6 space-y-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <p className="label">Path to {path.majority}</p>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          D {path.democrats} | R {path.republicans}
+          {path.unassigned > 0 ? ` | No input ${path.unassigned}` : ""} | EC margin{" "}
+          {path.ecMargin === 0
+            ? "tied"
+            : `${path.ecMargin > 0 ? "D" : "R"} +${Math.abs(path.ecMargin)}`}
+        </p>
+      </div>
+
+      {path.ordered.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Set state vote shares or load a preset to order states by margin.
+        </p>
+      ) : (
+        <>
+          <div className="relative h-8 w-full overflow-hidden rounded-md bg-slate-100 dark:bg-slate-800">
+            {segments.map(({ state, offset }) => (
+              <button
+                type="button"
+                key={state.abbr}
+                className={`absolute inset-y-0 border-r border-white/60 dark:border-slate-900/60 ${
+                  winnerTakeAll && path.tippingPoint?.abbr === state.abbr
+                    ? "z-10 ring-2 ring-inset ring-orange-500"
+                    : ""
+                }`}
+                style={{
+                  left: percent(offset),
+                  width: percent(state.electors),
+                  backgroundColor: color(state.margin),
+                }}
+                title={`${stateNames[state.abbr] ?? state.abbr}: ${formatMargin(
+                  state.margin
+                )}, ${state.electors} electors`}
+                onClick={() => onSelectState(state.abbr)}
+              />
+            ))}
+            <div
+              className="absolute inset-y-0 z-20 border-l-2 border-dashed border-slate-900 dark:border-white"
+              style={{
+                left: leaderIsDemocrat
+                  ? percent(path.majority)
+                  : percent(path.democrats + path.republicans - path.majority),
+              }}
+            />
+          </div>
+          <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+            <span>Most Democratic</span>
+            <span>Most Republican</span>
+          </div>
+          {!winnerTakeAll ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Winner-take-all only. Under {systemLabel.toLowerCase()}, electors
+              do not all follow their state&apos;s vote, so no tipping point or
+              flips are shown.
+            </p>
+          ) : (
+            <div className="grid gap-2 text-sm sm:grid-cols-3">
+              <p>
+                <span className="font-semibold">Tipping point: </span>
+                {path.tippingPoint
+                  ? `${stateNames[path.tippingPoint.abbr] ?? path.tippingPoint.abbr} (${formatMargin(
+                      path.tippingPoint.margin
+                    )})`
+                  : "none"}
+              </p>
+              <p>
+                <span className="font-semibold text-blue-600 dark:text-blue-400">
+                  Democrats:{" "}
+                </span>
+                {formatFlips(path.democraticFlips)}
+              </p>
+              <p>
+                <span className="font-semibold text-red-600 dark:text-red-400">
+                  Republicans:{" "}
+                </span>
+                {formatFlips(path.republicanFlips)}
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
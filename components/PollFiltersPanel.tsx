@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DEFAULT_POLL_FILTERS,
+  POLL_FILTER_RACES,
+  POLL_GRADES,
+  POLL_POPULATIONS,
+  pollPopulationLabel,
+  pollRaceLabel,
+  type PollFilters,
+} from "@/lib/pollFilters";
+
+type PollFiltersPanelProps = {
+  filters: PollFilters;
+  onApply: (filters: PollFilters) => void;
+  disabled: boolean;
+};
+
+const inputClass =
+  "rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200";
+
+// Toggles one entry but never empties the list.
+const toggle = <T extends string>(list: T[], entry: T, order: T[]) => {
+  const next = list.includes(entry)
+    ? list.filter((item) => item !== entry)
+    : [...list, entry];
+  return next.length === 0 ? list : order.filter((item) => next.includes(item));
+};
+
+// Edits stay local until applied, so typing a date does not refetch.
+export default function PollFiltersPanel({
+  filters,
+  onApply,
+  disabled,
+}: PollFiltersPanelProps) {
+  const [draft, setDraft] = useState(filters);
+  const changed = JSON.stringify(draft) !== JSON.stringify(filters);
+
+  return (
+    <div className="mt-3 space-y-3 rounded-xl border border-dashed border-slate-200 p-3 text-xs text-slate-500 dark:border-slate-700 dark:text-slate-400">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold text-slate-700 dark:text-slate-200">Races</span>
+        {POLL_FILTER_RACES.map((race) => (
+          <label key={race} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={draft.races.includes(race)}
+              onChange={() =>
+                setDraft({
+                  ...draft,
+                  races: toggle(draft.races, race, POLL_FILTER_RACES),
+                })
+              }
+            />
+            {pollRaceLabel(race)}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold text-slate-700 dark:text-slate-200">
+          Populations
+        </span>
+        {POLL_POPULATIONS.map((population) => (
+          <label key={population} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={draft.populations.includes(population)}
+              onChange={() =>
+                setDraft({
+                  ...draft,
+                  populations: toggle(draft.populations, population, POLL_POPULATIONS),
+                })
+              }
+            />
+            {pollPopulationLabel(population)}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1">
+          Cycle
+          <input
+            type="number"
+            step={2}
+            placeholder="Any"
+            value={draft.cycle ?? ""}
+            onChange={(event) =>
+              setDraft({
+                ...draft,
+                cycle: event.target.value ? Number(event.target.value) : null,
+              })
+            }
+            className={`${inputClass} w-20`}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          From
+          <input
+            type="date"
+            value={draft.startDate ?? ""}
+            onChange={(event) =>
+              setDraft({ ...draft, startDate: event.target.value || null })
+            }
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          To
+          <input
+            type="date"
+            value={draft.endDate ?? ""}
+            onChange={(event) =>
+              setDraft({ ...draft, endDate: event.target.value || null })
+            }
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Minimum grade
+          <select
+            value={draft.minGrade}
+            onChange={(event) => setDraft({ ...draft, minGrade: event.target.value })}
+            className={inputClass}
+          >
+            {POLL_GRADES.map((grade) => (
+              <option key={grade} value={grade}>
+                {grade}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={draft.includePartisan}
+            onChange={(event) =>
+              setDraft({ ...draft, includePartisan: event.target.checked })
+            }
+          />
+          Include partisan sponsors
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={draft.includeInternal}
+            onChange={(event) =>
+              setDraft({ ...draft, includeInternal: event.target.checked })
+            }
+          />
+          Include internal polls
+        </label>
+        <button
+          type="button"
+          className="button button-primary"
+          onClick={() => onApply(draft)}
+          disabled={disabled || !changed}
+        >
+          Apply filters
+        </button>
+        <button
+          type="button"
+          className="button"
+          onClick={() => {
+            setDraft(DEFAULT_POLL_FILTERS);
+            onApply(DEFAULT_POLL_FILTERS);
+          }}
+          disabled={disabled}
+        >
+          Default filters
+        </button>
+      </div>
+    </div>
+  );
+}
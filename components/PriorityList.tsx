@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import type { PriorityListEntry } from "@/lib/apportionment";
+import { formatNumber } from "@/lib/metrics";
+
+type PriorityListProps = {
+  entries: PriorityListEntry[];
+  totalSeats: number;
+  methodLabel: string;
+  stateNames: Record<string, string>;
+  available: boolean;
+  onSelectState: (abbr: string) => void;
+};
+
+const WINDOW = 5;
+
+export default function PriorityList({
+  entries,
+  totalSeats,
+  methodLabel,
+  stateNames,
+  available,
+  onSelectState,
+}: PriorityListProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const lastSeats = entries.filter(
+    (entry) => entry.seat > totalSeats - WINDOW && entry.seat <= totalSeats
+  );
+  const nextSeats = entries.filter(
+    (entry) => entry.seat > totalSeats && entry.seat <= totalSeats + WINDOW
+  );
+  const visible = showAll ? entries : [...lastSeats, ...nextSeats];
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="label">Priority list</p>
+          <h3 className="text-lg font-semibold">
+            {available
+              ? `Seats ${totalSeats - WINDOW + 1}-${totalSeats + WINDOW} under ${methodLabel}`
+              : `Not available under ${methodLabel}`}
+          </h3>
+        </div>
+        {available && (
+          <button
+            type="button"
+            className="button"
+            onClick={() => setShowAll((prev) => !prev)}
+          >
+            {showAll ? "Show cutoff only" : "Show full list"}
+          </button>
+        )}
+      </div>
+      {!available ? (
+        <p className="mt-3 text-sm text-slate-500 dark:text-slate-400">
+          {methodLabel} is a quota method, so seats are not awarded in a single
+          priority order.
+        </p>
+      ) : (
+        <div className="mt-4 max-h-[420px] overflow-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-left text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="py-2 pr-4">Seat</th>
+                <th className="py-2 pr-4">State</th>
+                <th className="py-2 pr-4">Priority value</th>
+                <th className="py-2 pr-4">State seats</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 text-slate-700 dark:divide-slate-800 dark:text-slate-200">
+              {visible.map((entry) => (
+                <tr
+                  key={entry.seat}
+                  className={`cursor-pointer transition hover:bg-slate-50 dark:hover:bg-slate-800/60 ${
+                    entry.seat > totalSeats ? "text-slate-400 dark:text-slate-500" : ""
+                  } ${
+                    entry.seat === totalSeats
+                      ? "border-b-2 border-b-orange-400"
+                      : ""
+                  }`}
+                  onClick={() => onSelectState(entry.state)}
+                >
+                  <td className="py-2 pr-4 font-semibold">{entry.seat}</td>
+                  <td className="py-2 pr-4">
+                    {stateNames[entry.state] ?? entry.state} ({entry.state})
+                  </td>
+                  <td className="py-2 pr-4">{formatNumber(entry.priority)}</td>
+                  <td className="py-2 pr-4">{entry.seats}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+            Seats below the highlighted line fall just outside the current House
+            size and would be awarded next.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import { useMemo } from "react";
+import * as d3 from "d3";
+import type { SimulationResult, SimulationSettings } from "@/lib/simulation";
+
+type SimulationPanelProps = {
+  result: SimulationResult | null;
+  running: boolean;
+  error: string | null;
+  settings: SimulationSettings;
+  onSettingsChange: (settings: SimulationSettings) => void;
+};
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 120;
+const AXIS_HEIGHT = 14;
+
+const CLOSEST_STATES = 10;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function Histogram({
+  counts,
+  marker,
+  label,
+  barClass,
+}: {
+  counts: number[];
+  // Count at which the marker line sits, such as the majority.
+  marker: number;
+  label: string;
+  barClass: (value: number) => string;
+}) {
+  const chart = useMemo(() => {
+    const occupied = counts
+      .map((count, value) => (count > 0 ? value : -1))
+      .filter((value) => value >= 0);
+    const low = Math.min(marker, occupied[0] ?? marker) - 5;
+    const high = Math.max(marker, occupied[occupied.length - 1] ?? marker) + 5;
+    const x = d3
+      .scaleLinear()
+      .domain([Math.max(0, low), Math.min(counts.length, high + 1)])
+      .range([0, CHART_WIDTH]);
+    const y = d3
+      .scaleLinear()
+      .domain([0, d3.max(counts) ?? 1])
+      .range([CHART_HEIGHT - AXIS_HEIGHT, 0]);
+    return { x, y, occupied };
+  }, [counts, marker]);
+
+  const barWidth = Math.max(1, chart.x(1) - chart.x(0) - 0.5);
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="mt-2 w-full"
+      role="img"
+      aria-label={label}
+    >
+      {chart.occupied.map((value) => (
+        <rect
+          key={value}
+          x={chart.x(value)}
+          y={chart.y(counts[value])}
+          width={barWidth}
+          height={CHART_HEIGHT - AXIS_HEIGHT - chart.y(counts[value])}
+          className={barClass(value)}
+        >
+          <title>
+            {value}: {counts[value]} draws
+          </title>
+        </rect>
+      ))}
+      <line
+        x1={chart.x(marker)}
+        x2={chart.x(marker)}
+        y1={0}
+        y2={CHART_HEIGHT - AXIS_HEIGHT}
+        className="stroke-slate-900 dark:stroke-white"
+        strokeDasharray="3 3"
+      />
+      {chart.x.ticks(8).map((tick) => (
+        <text
+          key={tick}
+          x={chart.x(tick)}
+          y={CHART_HEIGHT - 2}
+          textAnchor="middle"
+          className="fill-slate-500 text-[10px]"
+        >
+          {tick}
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+export default function SimulationPanel({
+  result,
+  running,
+  error,
+  settings,
+  onSettingsChange,
+}: SimulationPanelProps) {
+  const closestStates = useMemo(
+    () =>
+      result
+        ? Object.entries(result.states)
+            .sort(
+              ([, a], [, b]) =>
+                Math.abs(a.demWinProbability - 0.5) -
+                Math.abs(b.demWinProbability - 0.5)
+            )
+            .slice(0, CLOSEST_STATES)
+        : [],
+    [result]
+  );
+
+  const errorInput = (
+    key: "nationalError" | "regionalError" | "stateError",
+    label: string
+  ) => (
+    <label className="space-y-1 text-sm">
+      <span className="text-slate-500 dark:text-slate-400">{label} (pts)</span>
+      <input
+        type="number"
+        min={0}
+        max={20}
+        step={0.5}
+        value={Math.round(settings[key] * 1000) / 10}
+        onChange={(event) => {
+          const points = Number(event.target.value);
+          if (!Number.isFinite(points) || points < 0 || points > 20) return;
+          onSettingsChange({ ...settings, [key]: points / 100 });
+        }}
+        className="w-full rounded-md border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+      />
+    </label>
+  );
+
+  return (
+    <div className="card space-y-4">
+      <div>
+        <p className="label">Forecast simulation</p>
+        <h3 className="text-lg font-semibold">
+          Monte Carlo with correlated state errors
+        </h3>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Each draw shifts every state&apos;s vote share by a national error,
+          an error shared within its Census region and its own error, then
+          tallies the Electoral College and the House seat-vote curve. The
+          seed is stored in the URL, so a link reproduces the same
+          distributions.
+        </p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-4">
+        {errorInput("nationalError", "National")}
+        {errorInput("regionalError", "Regional")}
+        {errorInput("stateError", "State")}
+        <div className="space-y-1 text-sm">
+          <span className="text-slate-500 dark:text-slate-400">Seed</span>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={1}
+              value={settings.seed}
+              onChange={(event) => {
+                const seed = Number(event.target.value);
+                if (Number.isInteger(seed) && seed > 0 && seed < 2 ** 32) {
+                  onSettingsChange({ ...settings, seed });
+                }
+              }}
+              className="w-full rounded-md border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+            />
+            <button
+              type="button"
+              className="button text-xs"
+              onClick={() =>
+                onSettingsChange({
+                  ...settings,
+                  seed: Math.floor(Math.random() * 2 ** 31) + 1,
+                })
+              }
+            >
+              New
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          The simulation failed: {error}
+        </p>
+      )}
+
+      {result === null ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          {running
+            ? "Simulating…"
+            : error
+              ? "No simulation result."
+              : "Set state vote shares or load a preset to run the simulation."}
+        </p>
+      ) : (
+        <div className={`space-y-4 ${running ? "opacity-60" : ""}`}>
+          <div className="grid gap-3 text-sm sm:grid-cols-4">
+            <p>
+              <span className="block text-slate-500 dark:text-slate-400">
+                Democrats win
+              </span>
+              <span className="text-xl font-semibold text-blue-600 dark:text-blue-400">
+                {formatPercent(result.demWinProbability)}
+              </span>
+            </p>
+            <p>
+              <span className="block text-slate-500 dark:text-slate-400">
+                Republicans win
+              </span>
+              <span className="text-xl font-semibold text-red-600 dark:text-red-400">
+                {formatPercent(result.repWinProbability)}
+              </span>
+            </p>
+            <p>
+              <span className="block text-slate-500 dark:text-slate-400">
+                {result.total % 2 === 0
+                  ? `${result.total / 2}–${result.total / 2} tie`
+                  : "Tie"}
+              </span>
+              <span className="text-xl font-semibold">
+                {formatPercent(result.tieProbability)}
+              </span>
+            </p>
+            <p>
+              <span className="block text-slate-500 dark:text-slate-400">
+                No majority
+              </span>
+              <span className="text-xl font-semibold">
+                {formatPercent(result.noMajorityProbability)}
+              </span>
+            </p>
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold">
+              Democratic electors ({result.draws.toLocaleString()} draws, majority{" "}
+              {result.majority} of {result.total})
+            </p>
+            <Histogram
+              counts={result.electoralHistogram}
+              marker={result.majority}
+              label="Distribution of Democratic electoral votes"
+              barClass={(value) =>
+                value >= result.majority
+                  ? "fill-blue-500"
+                  : value <= result.total - result.majority
+                    ? "fill-red-500"
+                    : "fill-slate-400"
+              }
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold">
+              Democratic House seats (of {result.houseSeats}, seat-vote curve)
+            </p>
+            <Histogram
+              counts={result.seatHistogram}
+              marker={Math.floor(result.houseSeats / 2) + 1}
+              label="Distribution of Democratic House seats"
+              barClass={(value) =>
+                value > result.houseSeats / 2 ? "fill-blue-500" : "fill-red-500"
+              }
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold">Closest states</p>
+            <table className="mt-2 w-full text-left text-sm">
+              <thead className="text-xs uppercase text-slate-500 dark:text-slate-400">
+                <tr>
+                  <th className="py-1">State</th>
+                  <th className="py-1">D win</th>
+                  <th className="py-1">90% band, D share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {closestStates.map(([abbr, forecast]) => (
+                  <tr
+                    key={abbr}
+                    className="border-t border-slate-200 dark:border-slate-800"
+                  >
+                    <td className="py-1 font-semibold">{abbr}</td>
+                    <td className="py-1">
+                      {formatPercent(forecast.demWinProbability)}
+                    </td>
+                    <td className="py-1">
+                      {formatPercent(forecast.low)}–{formatPercent(forecast.high)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -33,9 +33,34 @@ export default function StateTable({
               <th className="py-2 pr-4">Population</th>
               <th className="py-2 pr-4">House</th>
               <th className="py-2 pr-4">Delta House</th>
+              <th className="py-2 pr-4">Method effect</th>
+              <th className="py-2 pr-4">Base effect</th>
+              <th className="py-2 pr-4">Quota</th>
+              <th className="py-2 pr-4">Quota dev.</th>
+              <th className="py-2 pr-4" title="People needed to win the next seat">
+                To gain
+              </th>
+              <th
+                className="py-2 pr-4"
+                title="People the state could lose and keep its last seat"
+              >
+                Spare
+              </th>
               <th className="py-2 pr-4">EC</th>
               <th className="py-2 pr-4">Delta EC</th>
               <th className="py-2 pr-4">EC / M</th>
+              <th
+                className="py-2 pr-4"
+                title="Banzhaf power per voter; 1 is the national average"
+              >
+                Banzhaf / voter
+              </th>
+              <th
+                className="py-2 pr-4"
+                title="Shapley–Shubik power per voter; 1 is the national average"
+              >
+                S–S / voter
+              </th>
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-200 text-slate-700 dark:divide-slate-800 dark:text-slate-200">
@@ -51,9 +76,45 @@ export default function StateTable({
                 <td className="py-2 pr-4">{formatNumber(row.population)}</td>
                 <td className="py-2 pr-4">{row.houseSeats}</td>
                 <td className="py-2 pr-4">{row.houseDelta}</td>
+                <td className="py-2 pr-4">{row.methodDelta}</td>
+                <td className="py-2 pr-4">{row.baseDelta}</td>
+                <td className="py-2 pr-4">{formatNumber(row.standardQuota, 2)}</td>
+                <td
+                  className={`py-2 pr-4 ${
+                    row.violatesQuota
+                      ? "font-semibold text-orange-600 dark:text-orange-400"
+                      : ""
+                  }`}
+                  title={
+                    row.violatesQuota
+                      ? `Outside quota bounds ${row.lowerQuota}-${row.upperQuota}`
+                      : undefined
+                  }
+                >
+                  {row.quotaDeviation >= 0 ? "+" : ""}
+                  {formatNumber(row.quotaDeviation, 2)}
+                </td>
+                <td className="py-2 pr-4">
+                  {row.seatMargin ? formatNumber(row.seatMargin.toGain) : "—"}
+                </td>
+                <td className="py-2 pr-4">
+                  {row.seatMargin?.toLose == null
+                    ? "—"
+                    : formatNumber(row.seatMargin.toLose)}
+                </td>
                 <td className="py-2 pr-4">{row.ecVotes}</td>
                 <td className="py-2 pr-4">{row.ecDelta}</td>
                 <td className="py-2 pr-4">{formatNumber(row.ecPerMillion, 2)}</td>
+                <td className="py-2 pr-4">
+                  {row.votingPower
+                    ? formatNumber(row.votingPower.banzhafPerVoter, 2)
+                    : "—"}
+                </td>
+                <td className="py-2 pr-4">
+                  {row.votingPower
+                    ? formatNumber(row.votingPower.shapleyShubikPerVoter, 2)
+                    : "—"}
+                </td>
               </tr>
             ))}
           </tbody>
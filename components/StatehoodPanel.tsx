@@ -0,0 +1,140 @@
+"use client";
+
+import type { ElectionOutcome } from "@/lib/elections";
+import type { SeatAllocation } from "@/lib/apportionment";
+import type { StatehoodRipple } from "@/lib/statehood";
+
+type StatehoodPanelProps = {
+  scenarioLabel: string;
+  totalSeats: number;
+  admitted: string[];
+  ripples: StatehoodRipple[];
+  seatsByState: SeatAllocation;
+  ecBefore: number;
+  ecAfter: number;
+  outcomesBefore: ElectionOutcome[];
+  outcomesAfter: ElectionOutcome[];
+  stateNames: Record<string, string>;
+};
+
+const winnerLabel = (outcome: ElectionOutcome) => {
+  if (outcome.winner === "D") return "Democrats";
+  if (outcome.winner === "R") return "Republicans";
+  return "No majority";
+};
+
+const majorityFor = (ecTotal: number) => Math.floor(ecTotal / 2) + 1;
+
+export default function StatehoodPanel({
+  scenarioLabel,
+  totalSeats,
+  admitted,
+  ripples,
+  seatsByState,
+  ecBefore,
+  ecAfter,
+  outcomesBefore,
+  outcomesAfter,
+  stateNames,
+}: StatehoodPanelProps) {
+  const nameFor = (abbr: string) => stateNames[abbr] ?? abbr;
+
+  return (
+    <div className="card space-y-6">
+      <div>
+        <p className="label">Statehood scenario</p>
+        <h3 className="text-lg font-semibold">{scenarioLabel}</h3>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Compares the current {totalSeats}-seat House with the same House,
+          method and population base before admission.
+        </p>
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold">New states</p>
+        <ul className="mt-2 space-y-1 text-sm">
+          {admitted.map((abbr) => (
+            <li key={abbr}>
+              {nameFor(abbr)} ({abbr}): {seatsByState[abbr] ?? 0} seat
+              {seatsByState[abbr] === 1 ? "" : "s"},{" "}
+              {(seatsByState[abbr] ?? 0) + 2} electoral votes
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold">Ripple effects on existing states</p>
+        {ripples.length === 0 ? (
+          <p className="mt-2 rounded-lg border border-slate-200 p-3 text-sm dark:border-slate-800">
+            No existing state changes at this House size.
+          </p>
+        ) : (
+          <ul className="mt-2 space-y-1 text-sm">
+            {ripples.map((entry) => (
+              <li key={entry.state}>
+                {nameFor(entry.state)} ({entry.state}): {entry.seatsBefore} →{" "}
+                {entry.seatsAfter}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold">Electoral College</p>
+        <p className="mt-2 text-sm">
+          {ecBefore} → {ecAfter} electors; majority {majorityFor(ecBefore)} →{" "}
+          {majorityFor(ecAfter)}.
+        </p>
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold">Historical replay</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Territories have no presidential results, so their electors are
+          reported separately.
+        </p>
+        <table className="mt-2 min-w-full text-sm">
+          <thead className="text-left text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400">
+            <tr>
+              <th className="py-2 pr-4">Year</th>
+              <th className="py-2 pr-4">Before (D/R)</th>
+              <th className="py-2 pr-4">After (D/R)</th>
+              <th className="py-2 pr-4">Other</th>
+              <th className="py-2 pr-4">No result</th>
+              <th className="py-2 pr-4">Winner</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 text-slate-700 dark:divide-slate-800 dark:text-slate-200">
+            {outcomesAfter.map((after, index) => {
+              const before = outcomesBefore[index];
+              return (
+                <tr key={after.year}>
+                  <td className="py-2 pr-4 font-semibold">{after.year}</td>
+                  <td className="py-2 pr-4">
+                    {before.democrats} / {before.republicans}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {after.democrats} / {after.republicans}
+                  </td>
+                  <td className="py-2 pr-4">{after.other}</td>
+                  <td className="py-2 pr-4">{after.unassigned}</td>
+                  <td
+                    className={`py-2 pr-4 ${
+                      after.winner !== before.winner
+                        ? "font-semibold text-orange-600 dark:text-orange-400"
+                        : ""
+                    }`}
+                  >
+                    {winnerLabel(before)} → {winnerLabel(after)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useMemo } from "react";
+import * as d3 from "d3";
+import {
+  firstChangeAbove,
+  type TippingHouseSizes,
+  type TippingHouseSizeSearch,
+} from "@/lib/tippingSizes";
+
+type TippingSizesPanelProps = {
+  search: TippingHouseSizeSearch | null;
+  // Whether `search` was run with the current method and EC system.
+  upToDate: boolean;
+  running: boolean;
+  error: string | null;
+  systemLabel: string;
+  totalSeats: number;
+  onRun: () => void;
+};
+
+const CHART_WIDTH = 720;
+const ROW_HEIGHT = 14;
+const ROW_GAP = 4;
+const LABEL_WIDTH = 40;
+
+type Winner = TippingHouseSizes["enactedWinner"];
+
+const winnerFill = (winner: Winner) => {
+  if (winner === "D") return "fill-blue-500";
+  if (winner === "R") return "fill-red-500";
+  return "fill-slate-300 dark:fill-slate-600";
+};
+
+const winnerName = (winner: Winner) => {
+  if (winner === "D") return "D";
+  if (winner === "R") return "R";
+  return "no majority";
+};
+
+// Consecutive sizes with the same winner.
+const runsFor = (entry: TippingHouseSizes, minSize: number) => {
+  const runs: { start: number; end: number; winner: Winner }[] = [];
+  entry.winners.forEach((winner, index) => {
+    const houseSize = minSize + index;
+    const last = runs[runs.length - 1];
+    if (last && last.winner === winner) last.end = houseSize;
+    else runs.push({ start: houseSize, end: houseSize, winner });
+  });
+  return runs;
+};
+
+export default function TippingSizesPanel({
+  search,
+  upToDate,
+  running,
+  error,
+  systemLabel,
+  totalSeats,
+  onRun,
+}: TippingSizesPanelProps) {
+  const chart = useMemo(() => {
+    if (!search) return null;
+    const x = d3
+      .scaleLinear()
+      .domain([search.minSize, search.maxSize + 1])
+      .range([LABEL_WIDTH, CHART_WIDTH]);
+    return {
+      x,
+      height: search.elections.length * (ROW_HEIGHT + ROW_GAP) + 16,
+      rows: search.elections.map((entry) => ({
+        entry,
+        runs: runsFor(entry, search.minSize),
+      })),
+    };
+  }, [search]);
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="label">Tipping House sizes</p>
+          <h3 className="text-lg font-semibold">
+            How big would the House have to be?
+          </h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Replays each election at every House size from one seat per state
+            to {search?.maxSize ?? 1200}, on the census in force at the time,
+            under {systemLabel.toLowerCase()}. Black ticks mark sizes where the
+            winner changes; the dashed line marks the current House.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="button button-primary"
+          onClick={onRun}
+          disabled={running}
+        >
+          {running
+            ? "Searching…"
+            : search
+              ? upToDate
+                ? "Rerun search"
+                : "Update search"
+              : "Run search"}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          The search failed: {error}
+        </p>
+      )}
+
+      {search && chart && (
+        <>
+          {!upToDate && (
+            <p className="text-xs text-orange-600 dark:text-orange-400">
+              The method or EC system changed since this search ran.
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <svg
+              viewBox={`0 0 ${CHART_WIDTH} ${chart.height}`}
+              className="w-full min-w-[36rem]"
+              role="img"
+              aria-label="Electoral College winner by House size for each election"
+            >
+              {chart.rows.map(({ entry, runs }, row) => {
+                const y = row * (ROW_HEIGHT + ROW_GAP);
+                return (
+                  <g key={entry.year}>
+                    <text
+                      x={0}
+                      y={y + ROW_HEIGHT - 3}
+                      className="fill-slate-600 text-[10px] dark:fill-slate-300"
+                    >
+                      {entry.year}
+                    </text>
+                    {runs.map((run) => (
+                      <rect
+                        key={run.start}
+                        x={chart.x(run.start)}
+                        y={y}
+                        width={chart.x(run.end + 1) - chart.x(run.start)}
+                        height={ROW_HEIGHT}
+                        className={winnerFill(run.winner)}
+                      >
+                        <title>
+                          {entry.year}: {winnerName(run.winner)} at {run.start}
+                          {run.end > run.start ? `–${run.end}` : ""} seats
+                        </title>
+                      </rect>
+                    ))}
+                    {entry.flips.map((flip) => (
+                      <line
+                        key={flip.houseSize}
+                        x1={chart.x(flip.houseSize)}
+                        x2={chart.x(flip.houseSize)}
+                        y1={y - 1}
+                        y2={y + ROW_HEIGHT + 1}
+                        className="stroke-slate-900 dark:stroke-white"
+                        strokeWidth={1}
+                      />
+                    ))}
+                  </g>
+                );
+              })}
+              <line
+                x1={chart.x(totalSeats)}
+                x2={chart.x(totalSeats)}
+                y1={0}
+                y2={chart.height - 14}
+                className="stroke-orange-500"
+                strokeDasharray="3 3"
+              />
+              {chart.x.ticks(8).map((tick) => (
+                <text
+                  key={tick}
+                  x={chart.x(tick)}
+                  y={chart.height - 2}
+                  textAnchor="middle"
+                  className="fill-slate-500 text-[10px]"
+                >
+                  {tick}
+                </text>
+              ))}
+            </svg>
+          </div>
+
+          <table className="min-w-full text-sm">
+            <thead className="text-left text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="py-2 pr-4">Year</th>
+                <th className="py-2 pr-4">Enacted House</th>
+                <th className="py-2 pr-4">Smallest flip</th>
+                <th className="py-2 pr-4">First change above enacted</th>
+                <th className="py-2 pr-4">Flips</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 text-slate-700 dark:divide-slate-800 dark:text-slate-200">
+              {search.elections.map((entry) => {
+                const [first] = entry.flips;
+                const above = firstChangeAbove(entry, search.minSize);
+                return (
+                  <tr key={entry.year}>
+                    <td className="py-2 pr-4 font-semibold">{entry.year}</td>
+                    <td className="py-2 pr-4">
+                      {entry.enactedSize} ({entry.censusYear} census):{" "}
+                      {winnerName(entry.enactedWinner)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {first
+                        ? `${first.houseSize} (${winnerName(first.from)} → ${winnerName(first.to)})`
+                        : "None"}
+                    </td>
+                    <td className="py-2 pr-4">{above ?? "None"}</td>
+                    <td className="py-2 pr-4">{entry.flips.length}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -7,7 +7,9 @@ import * as topojson from "topojson-client";
 import type { FeatureCollection, Feature, GeoJsonObject } from "geojson";
 import type { GeometryCollection, Topology } from "topojson-specification";
 import type { StateMetrics, StatePopulation } from "@/lib/metrics";
+import { OVERLAY_PARTIES, overlayPartyLabel, type PartySeats } from "@/lib/overlays";
 import populations from "@/data/populations.json";
+import { TERRITORY_STATES } from "@/lib/statehood";
 
 const US_ATLAS_STATES_URL = "https://cdn.jsdelivr.net/npm/us-atlas@3/states-10m.json";
 const DISTRICTS_GEOJSON_URL = process.env.NEXT_PUBLIC_DISTRICTS_GEOJSON_URL;
@@ -17,10 +19,7 @@ const PRECINCTS_GEOJSON_TEMPLATE =
 type USMapProps = {
   metricsByState: Record<string, StateMetrics>;
   democraticShareByState?: Record<string, number>;
-  partisanByState?: Record<
-    string,
-    { democrats: number; republicans: number; independents: number }
-  >;
+  partisanByState?: Record<string, PartySeats>;
   selectedState?: string | null;
   onSelectState: (abbr: string) => void;
 };
@@ -34,6 +33,20 @@ type SeatDeltaLabel = {
   anchorY?: number;
 };
 
+type MapColorMetric = "partisan" | "banzhafPerVoter" | "shapleyShubikPerVoter";
+
+const MAP_COLOR_METRICS: MapColorMetric[] = [
+  "partisan",
+  "banzhafPerVoter",
+  "shapleyShubikPerVoter",
+];
+
+const mapColorMetricLabel = (metric: MapColorMetric) => {
+  if (metric === "banzhafPerVoter") return "Banzhaf power per voter";
+  if (metric === "shapleyShubikPerVoter") return "Shapley–Shubik power per voter";
+  return "Partisan lean";
+};
+
 type PartisanCategory =
   | "safeR"
   | "likelyR"
@@ -88,6 +101,7 @@ export default function USMap({
   const [precinctsGeo, setPrecinctsGeo] = useState<FeatureCollection | null>(null);
   const [showDistricts, setShowDistricts] = useState(false);
   const [showPrecincts, setShowPrecincts] = useState(false);
+  const [colorMetric, setColorMetric] = useState<MapColorMetric>("partisan");
   const [districtStatus, setDistrictStatus] = useState<string | null>(null);
   const [precinctStatus, setPrecinctStatus] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -96,7 +110,7 @@ export default function USMap({
 
   const fipsToAbbr = useMemo(() => {
     const map: Record<string, string> = {};
-    (populations as StatePopulation[]).forEach((state) => {
+    [...(populations as StatePopulation[]), ...TERRITORY_STATES].forEach((state) => {
       map[state.fips.padStart(2, "0")] = state.abbr;
     });
     return map;
@@ -338,7 +352,46 @@ export default function USMap({
     return [...inline, ...callouts];
   }, [geo, path, hasSeatExpansion, metricsByState]);
 
-  const updateTooltip = (event: MouseEvent<SVGPathElement>) => {
+  // The Albers USA projection has no room for Puerto Rico or the Pacific
+  // territories, so admitted territories are drawn as tiles under the map.
+  const offMapStates = useMemo(() => {
+    if (!geo || !path || geo.features.length === 0) return [] as string[];
+    const drawn = new Set<string>();
+    (geo.features as Feature[]).forEach((feature) => {
+      const abbr = (feature.properties as { abbr?: string })?.abbr;
+      if (abbr && path(feature)) drawn.add(abbr);
+    });
+    return Object.keys(metricsByState).filter((abbr) => !drawn.has(abbr));
+  }, [geo, path, metricsByState]);
+
+  // Per-voter power is relative to the national average, so the scale is
+  // centred on 1 and symmetric in log space.
+  const powerScale = useMemo(() => {
+    if (colorMetric === "partisan") return null;
+    const values = Object.values(metricsByState)
+      .map((entry) => entry.votingPower?.[colorMetric])
+      .filter((value): value is number => value !== undefined && value > 0);
+    const spread = Math.max(
+      0.01,
+      ...values.map((value) => Math.abs(Math.log(value)))
+    );
+    return {
+      min: Math.exp(-spread),
+      max: Math.exp(spread),
+      color: d3
+        .scaleDiverging(d3.interpolatePuOr)
+        .domain([spread, 0, -spread]),
+    };
+  }, [colorMetric, metricsByState]);
+
+  const powerFill = (abbr: string) => {
+    if (!powerScale || colorMetric === "partisan") return undefined;
+    const value = metricsByState[abbr]?.votingPower?.[colorMetric];
+    if (!value) return "#cbd5e1";
+    return powerScale.color(Math.log(value));
+  };
+
+  const updateTooltip = (event: MouseEvent<SVGElement>) => {
     const bounds = containerRef.current?.getBoundingClientRect();
     if (!bounds) return;
     setTooltip({ x: event.clientX - bounds.left, y: event.clientY - bounds.top });
@@ -418,28 +471,63 @@ export default function USMap({
               </span>
             </label>
           </div>
-          <div className="grid grid-cols-2 gap-x-3 gap-y-1 pt-1">
-            {(
-              [
-                "safeR",
-                "likelyR",
-                "leanR",
-                "tossUp",
-                "leanD",
-                "likelyD",
-                "safeD",
-              ] as PartisanCategory[]
-            ).map((category) => (
-              <div key={category} className="flex items-center gap-2">
-                <span
-                  className={`inline-block h-2.5 w-2.5 rounded-sm border border-slate-300 dark:border-slate-700 ${categoryClassName(
-                    category
-                  )}`}
-                />
-                <span>{categoryLabel(category)}</span>
+          <label className="flex items-center gap-2 pt-1">
+            <span>Color by</span>
+            <select
+              aria-label="Map color metric"
+              value={colorMetric}
+              onChange={(event) =>
+                setColorMetric(event.target.value as MapColorMetric)
+              }
+              className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+            >
+              {MAP_COLOR_METRICS.map((metric) => (
+                <option key={metric} value={metric}>
+                  {mapColorMetricLabel(metric)}
+                </option>
+              ))}
+            </select>
+          </label>
+          {powerScale ? (
+            <div className="space-y-1 pt-1">
+              <div
+                className="h-2.5 w-48 rounded-sm border border-slate-300 dark:border-slate-700"
+                style={{
+                  background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1]
+                    .map((t) => d3.interpolatePuOr(1 - t))
+                    .join(", ")})`,
+                }}
+              />
+              <div className="flex w-48 justify-between">
+                <span>{powerScale.min.toFixed(2)}×</span>
+                <span>average</span>
+                <span>{powerScale.max.toFixed(2)}×</span>
               </div>
-            ))}
-          </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1 pt-1">
+              {(
+                [
+                  "safeR",
+                  "likelyR",
+                  "leanR",
+                  "tossUp",
+                  "leanD",
+                  "likelyD",
+                  "safeD",
+                ] as PartisanCategory[]
+              ).map((category) => (
+                <div key={category} className="flex items-center gap-2">
+                  <span
+                    className={`inline-block h-2.5 w-2.5 rounded-sm border border-slate-300 dark:border-slate-700 ${categoryClassName(
+                      category
+                    )}`}
+                  />
+                  <span>{categoryLabel(category)}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -492,6 +580,9 @@ export default function USMap({
               d={path(feature) ?? undefined}
               stroke={isSelected ? "#f97316" : undefined}
               strokeWidth={isSelected ? 2.5 : 1}
+              style={
+                isSelected || isHovered ? undefined : { fill: powerFill(abbr) }
+              }
               className={`cursor-pointer transition-all ${
                 isSelected || isHovered
                   ? "fill-sky-200 dark:fill-sky-900/60"
@@ -611,6 +702,74 @@ export default function USMap({
         })}
       </svg>
 
+      {offMapStates.length > 0 && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <span>Not on the projection:</span>
+          <svg
+            viewBox={`0 0 ${offMapStates.length * 64} 32`}
+            className="h-8"
+            style={{ width: offMapStates.length * 64 }}
+            role="img"
+            aria-label="Admitted states outside the map projection"
+          >
+            {offMapStates.map((abbr, index) => {
+              const data = metricsByState[abbr];
+              const category = categoryForShare(
+                democraticShareByState?.[abbr] ?? 0.5
+              );
+              const isSelected = selectedState === abbr;
+              return (
+                <g key={abbr} transform={`translate(${index * 64}, 0)`}>
+                  <rect
+                    x={1}
+                    y={1}
+                    width={58}
+                    height={30}
+                    rx={4}
+                    strokeWidth={isSelected ? 2.5 : 1}
+                    style={
+                      isSelected || hovered === abbr
+                        ? undefined
+                        : { fill: powerFill(abbr) }
+                    }
+                    className={`cursor-pointer ${
+                      isSelected || hovered === abbr
+                        ? "fill-sky-200 dark:fill-sky-900/60"
+                        : categoryClassName(category)
+                    } ${
+                      isSelected
+                        ? "stroke-orange-400"
+                        : "stroke-slate-400 dark:stroke-slate-600"
+                    }`}
+                    tabIndex={0}
+                    onMouseEnter={(event) => {
+                      setHovered(abbr);
+                      updateTooltip(event);
+                    }}
+                    onMouseMove={updateTooltip}
+                    onMouseLeave={() => {
+                      setHovered(null);
+                      setTooltip(null);
+                    }}
+                    onClick={() => onSelectState(abbr)}
+                    aria-label={data.state}
+                  />
+                  <text
+                    x={30}
+                    y={16}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    className="pointer-events-none fill-slate-900 text-[11px] font-semibold dark:fill-slate-100"
+                  >
+                    {abbr} {data.houseSeats}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+
       {hovered && tooltip && metricsByState[hovered] && (
         <div
           className="pointer-events-none absolute rounded-xl border border-slate-200 bg-white px-3 py-2 text-xs text-slate-700 shadow-md dark:border-slate-800 dark:bg-slate-900 dark:text-slate-100"
@@ -624,6 +783,17 @@ export default function USMap({
           <p>
             EC / M: {metricsByState[hovered].ecPerMillion.toFixed(2)}
           </p>
+          {metricsByState[hovered].votingPower && (
+            <p>
+              Power / voter:{" "}
+              {metricsByState[hovered].votingPower.banzhafPerVoter.toFixed(2)}{" "}
+              Banzhaf,{" "}
+              {metricsByState[hovered].votingPower.shapleyShubikPerVoter.toFixed(
+                2
+              )}{" "}
+              S–S
+            </p>
+          )}
           <p>
             Category:{" "}
             {categoryLabel(
@@ -632,9 +802,17 @@ export default function USMap({
           </p>
           {partisanByState?.[hovered] && (
             <div className="mt-1 border-t border-slate-200 pt-1 dark:border-slate-700">
-              <p>D: {partisanByState[hovered].democrats}</p>
-              <p>R: {partisanByState[hovered].republicans}</p>
-              <p>I: {partisanByState[hovered].independents}</p>
+              {OVERLAY_PARTIES.filter(
+                (party) =>
+                  party === "democrats" ||
+                  party === "republicans" ||
+                  partisanByState[hovered][party] > 0
+              ).map((party) => (
+                <p key={party}>
+                  {overlayPartyLabel(party).charAt(0)}:{" "}
+                  {partisanByState[hovered][party]}
+                </p>
+              ))}
             </div>
           )}
         </div>
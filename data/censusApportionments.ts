@@ -0,0 +1,1136 @@
+import type { ApportionmentMethod } from "@/lib/apportionment";
+
+export type CensusApportionmentRecord = {
+  houseSize: number;
+  method: ApportionmentMethod;
+  // Seats `method` handed out when statute later added more; `houseSize`
+  // otherwise.
+  apportionedSeats?: number;
+  // Seats added by statute on top of the method's table.
+  addedSeats?: Record<string, number>;
+  // States admitted after the apportionment, seated by statute outside it.
+  admittedSeats?: Record<string, number>;
+  // Congress did not reapportion; that census's seats stayed in force.
+  seatsFromYear?: number;
+  // Populations are resident totals, not the apportionment base (which
+  // excluded untaxed Indians), so the enacted table does not reproduce.
+  residentTotals?: boolean;
+  // abbr -> [apportionment population, enacted House seats]. DC is listed
+  // with zero seats from 1960, when it first cast electoral votes.
+  states: Record<string, [number, number]>;
+};
+
+// Apportionment populations and enacted seats for every decennial census.
+// Counts before 1870 are federal-ratio populations (free persons plus
+// three-fifths of enslaved persons).
+export const censusApportionmentsByYear: Record<number, CensusApportionmentRecord> = {
+  1790: {
+    houseSize: 105,
+    method: "jefferson",
+    states: {
+      CT: [236841, 7],
+      DE: [55540, 1],
+      GA: [70835, 2],
+      KY: [68705, 2],
+      MD: [278514, 8],
+      MA: [475327, 14],
+      NH: [141822, 4],
+      NJ: [179570, 5],
+      NY: [331589, 10],
+      NC: [353523, 10],
+      PA: [432879, 13],
+      RI: [68446, 2],
+      SC: [206236, 6],
+      VT: [85533, 2],
+      VA: [630560, 19],
+    },
+  },
+  1800: {
+    houseSize: 141,
+    method: "jefferson",
+    states: {
+      CT: [250622, 7],
+      DE: [61812, 1],
+      GA: [138924, 4],
+      KY: [204818, 6],
+      MD: [299294, 9],
+      MA: [574564, 17],
+      NH: [183855, 5],
+      NJ: [206180, 6],
+      NY: [580914, 17],
+      NC: [424785, 12],
+      PA: [601683, 18],
+      RI: [68970, 2],
+      SC: [287131, 8],
+      TN: [100168, 3],
+      VT: [154465, 4],
+      VA: [741882, 22],
+    },
+  },
+  1810: {
+    houseSize: 181,
+    method: "jefferson",
+    states: {
+      CT: [261818, 7],
+      DE: [71003, 2],
+      GA: [210346, 6],
+      KY: [374287, 10],
+      MD: [335945, 9],
+      MA: [700745, 20],
+      NH: [214460, 6],
+      NJ: [241222, 6],
+      NY: [953042, 27],
+      NC: [487970, 13],
+      OH: [230760, 6],
+      PA: [809773, 23],
+      RI: [76888, 2],
+      SC: [336569, 9],
+      TN: [243913, 6],
+      VT: [217895, 6],
+      VA: [817593, 23],
+    },
+  },
+  1820: {
+    houseSize: 213,
+    method: "jefferson",
+    // A 40,000 divisor; a separate 1822 act gave Alabama a third seat.
+    apportionedSeats: 212,
+    addedSeats: { AL: 1 },
+    states: {
+      AL: [111149, 3],
+      CT: [275209, 6],
+      DE: [70945, 1],
+      GA: [281127, 7],
+      IL: [54844, 1],
+      IN: [147102, 3],
+      KY: [513624, 12],
+      LA: [125781, 3],
+      ME: [298335, 7],
+      MD: [364391, 9],
+      MA: [523287, 13],
+      MS: [62322, 1],
+      MO: [62497, 1],
+      NH: [244161, 6],
+      NJ: [274552, 6],
+      NY: [1368777, 34],
+      NC: [556822, 13],
+      OH: [581434, 14],
+      PA: [1049374, 26],
+      RI: [83040, 2],
+      SC: [399351, 9],
+      TN: [390780, 9],
+      VT: [235981, 5],
+      VA: [895305, 22],
+    },
+  },
+  1830: {
+    houseSize: 240,
+    method: "jefferson",
+    states: {
+      AL: [262507, 5],
+      CT: [297665, 6],
+      DE: [75431, 1],
+      GA: [429811, 9],
+      IL: [157146, 3],
+      IN: [343030, 7],
+      KY: [621832, 13],
+      LA: [171904, 3],
+      ME: [399454, 8],
+      MD: [405842, 8],
+      MA: [610408, 12],
+      MS: [110357, 2],
+      MO: [130419, 2],
+      NH: [269327, 5],
+      NJ: [319921, 6],
+      NY: [1918578, 40],
+      NC: [639747, 13],
+      OH: [937901, 19],
+      PA: [1348072, 28],
+      RI: [97192, 2],
+      SC: [455025, 9],
+      TN: [625263, 13],
+      VT: [280652, 5],
+      VA: [1023502, 21],
+    },
+  },
+  1840: {
+    houseSize: 223,
+    method: "webster",
+    states: {
+      AL: [489343, 7],
+      AR: [89600, 1],
+      CT: [309971, 4],
+      DE: [77043, 1],
+      GA: [579014, 8],
+      IL: [476051, 7],
+      IN: [685865, 10],
+      KY: [706925, 10],
+      LA: [285030, 4],
+      ME: [501793, 7],
+      MD: [434124, 6],
+      MA: [737699, 10],
+      MI: [212267, 3],
+      MS: [297567, 4],
+      MO: [360406, 5],
+      NH: [284574, 4],
+      NJ: [373036, 5],
+      NY: [2428919, 34],
+      NC: [655092, 9],
+      OH: [1519466, 21],
+      PA: [1724007, 24],
+      RI: [108828, 2],
+      SC: [463583, 7],
+      TN: [755986, 11],
+      VT: [291948, 4],
+      VA: [1060202, 15],
+    },
+  },
+  1850: {
+    houseSize: 234,
+    method: "hamilton",
+    apportionedSeats: 233,
+    addedSeats: { CA: 1 },
+    states: {
+      AL: [634485, 7],
+      AR: [191057, 2],
+      CA: [92597, 2],
+      CT: [370792, 4],
+      DE: [90616, 1],
+      FL: [71721, 1],
+      GA: [753512, 8],
+      IL: [851470, 9],
+      IN: [988416, 11],
+      IA: [192214, 2],
+      KY: [898013, 10],
+      LA: [419838, 4],
+      ME: [583169, 6],
+      MD: [546887, 6],
+      MA: [994514, 11],
+      MI: [397654, 4],
+      MS: [482575, 5],
+      MO: [647075, 7],
+      NH: [317976, 3],
+      NJ: [489461, 5],
+      NY: [3097394, 33],
+      NC: [753620, 8],
+      OH: [1980329, 21],
+      PA: [2311786, 25],
+      RI: [147545, 2],
+      SC: [514513, 6],
+      TN: [906933, 10],
+      TX: [189328, 2],
+      VT: [314120, 3],
+      VA: [1232650, 13],
+      WI: [305391, 3],
+    },
+  },
+  1860: {
+    houseSize: 241,
+    method: "hamilton",
+    // The 1862 act added one seat each for eight states.
+    apportionedSeats: 233,
+    addedSeats: { IL: 1, IA: 1, KY: 1, MN: 1, OH: 1, PA: 1, RI: 1, VT: 1 },
+    states: {
+      AL: [790169, 6],
+      AR: [391004, 3],
+      CA: [379994, 3],
+      CT: [460147, 4],
+      DE: [111497, 1],
+      FL: [115726, 1],
+      GA: [872407, 7],
+      IL: [1711951, 14],
+      IN: [1350428, 11],
+      IA: [674913, 6],
+      KS: [107205, 1],
+      KY: [1065491, 9],
+      LA: [575312, 5],
+      ME: [628279, 5],
+      MD: [652173, 5],
+      MA: [1231066, 10],
+      MI: [749113, 6],
+      MN: [172023, 2],
+      MS: [616653, 5],
+      MO: [1136040, 9],
+      NH: [326073, 3],
+      NJ: [672028, 5],
+      NY: [3880735, 31],
+      NC: [860198, 7],
+      OH: [2339511, 19],
+      OR: [52465, 1],
+      PA: [2906215, 24],
+      RI: [174620, 2],
+      SC: [542746, 4],
+      TN: [999513, 8],
+      TX: [531189, 4],
+      VT: [315098, 3],
+      VA: [1399972, 11],
+      WI: [775881, 6],
+    },
+  },
+  1870: {
+    houseSize: 292,
+    method: "hamilton",
+    // The 1872 supplemental act added one seat each for nine states.
+    apportionedSeats: 283,
+    addedSeats: { AL: 1, FL: 1, IN: 1, LA: 1, NH: 1, NY: 1, PA: 1, TN: 1, VT: 1 },
+    states: {
+      AL: [996992, 8],
+      AR: [484471, 4],
+      CA: [560247, 4],
+      CT: [537454, 4],
+      DE: [125015, 1],
+      FL: [187748, 2],
+      GA: [1184109, 9],
+      IL: [2539891, 19],
+      IN: [1680637, 13],
+      IA: [1194020, 9],
+      KS: [364399, 3],
+      KY: [1321011, 10],
+      LA: [726915, 6],
+      ME: [626915, 5],
+      MD: [780894, 6],
+      MA: [1457351, 11],
+      MI: [1184059, 9],
+      MN: [439706, 3],
+      MS: [827922, 6],
+      MO: [1721295, 13],
+      NE: [122993, 1],
+      NV: [42491, 1],
+      NH: [318300, 3],
+      NJ: [906096, 7],
+      NY: [4382759, 33],
+      NC: [1071361, 8],
+      OH: [2665260, 20],
+      OR: [90923, 1],
+      PA: [3521951, 27],
+      RI: [217353, 2],
+      SC: [705606, 5],
+      TN: [1258520, 10],
+      TX: [818579, 6],
+      VT: [330551, 3],
+      VA: [1225163, 9],
+      WV: [442014, 3],
+      WI: [1054670, 8],
+    },
+  },
+  1880: {
+    houseSize: 325,
+    method: "hamilton",
+    states: {
+      AL: [1262505, 8],
+      AR: [802525, 5],
+      CA: [864694, 6],
+      CO: [194327, 1],
+      CT: [622700, 4],
+      DE: [146608, 1],
+      FL: [269493, 2],
+      GA: [1542180, 10],
+      IL: [3077871, 20],
+      IN: [1978301, 13],
+      IA: [1624615, 11],
+      KS: [996096, 7],
+      KY: [1648690, 11],
+      LA: [939946, 6],
+      ME: [648936, 4],
+      MD: [934943, 6],
+      MA: [1783085, 12],
+      MI: [1636937, 11],
+      MN: [780773, 5],
+      MS: [1131597, 7],
+      MO: [2168380, 14],
+      NE: [452402, 3],
+      NV: [62266, 1],
+      NH: [346991, 2],
+      NJ: [1131116, 7],
+      NY: [5082871, 34],
+      NC: [1399750, 9],
+      OH: [3198062, 21],
+      OR: [174768, 1],
+      PA: [4282891, 28],
+      RI: [276531, 2],
+      SC: [995577, 7],
+      TN: [1542359, 10],
+      TX: [1591749, 11],
+      VT: [332286, 2],
+      VA: [1512565, 10],
+      WV: [618457, 4],
+      WI: [1315497, 9],
+    },
+  },
+  1890: {
+    houseSize: 356,
+    method: "hamilton",
+    residentTotals: true,
+    states: {
+      AL: [1513401, 9],
+      AR: [1128211, 6],
+      CA: [1213398, 7],
+      CO: [413249, 2],
+      CT: [746258, 4],
+      DE: [168493, 1],
+      FL: [391422, 2],
+      GA: [1837353, 11],
+      ID: [88548, 1],
+      IL: [3826352, 22],
+      IN: [2192404, 13],
+      IA: [1912297, 11],
+      KS: [1428108, 8],
+      KY: [1858635, 11],
+      LA: [1118588, 6],
+      ME: [661086, 4],
+      MD: [1042390, 6],
+      MA: [2238947, 13],
+      MI: [2093890, 12],
+      MN: [1310283, 7],
+      MS: [1289600, 7],
+      MO: [2679185, 15],
+      MT: [142924, 1],
+      NE: [1062656, 6],
+      NV: [47355, 1],
+      NH: [376530, 2],
+      NJ: [1444933, 8],
+      NY: [6003174, 34],
+      NC: [1617949, 9],
+      ND: [190983, 1],
+      OH: [3672329, 21],
+      OR: [317704, 2],
+      PA: [5258113, 30],
+      RI: [345506, 2],
+      SC: [1151149, 7],
+      SD: [348600, 2],
+      TN: [1767518, 10],
+      TX: [2235527, 13],
+      VT: [332422, 2],
+      VA: [1655980, 10],
+      WA: [357232, 2],
+      WV: [762794, 4],
+      WI: [1693330, 10],
+      WY: [62555, 1],
+    },
+  },
+  1900: {
+    houseSize: 386,
+    method: "hamilton",
+    residentTotals: true,
+    states: {
+      AL: [1828697, 9],
+      AR: [1311564, 7],
+      CA: [1485053, 8],
+      CO: [539700, 3],
+      CT: [908420, 5],
+      DE: [184735, 1],
+      FL: [528542, 3],
+      GA: [2216331, 11],
+      ID: [161772, 1],
+      IL: [4821550, 25],
+      IN: [2516462, 13],
+      IA: [2231853, 11],
+      KS: [1470495, 8],
+      KY: [2147174, 11],
+      LA: [1381625, 7],
+      ME: [694466, 4],
+      MD: [1188044, 6],
+      MA: [2805346, 14],
+      MI: [2420982, 12],
+      MN: [1751394, 9],
+      MS: [1551270, 8],
+      MO: [3106665, 16],
+      MT: [243329, 1],
+      NE: [1066300, 6],
+      NV: [42335, 1],
+      NH: [411588, 2],
+      NJ: [1883669, 10],
+      NY: [7268894, 37],
+      NC: [1893810, 10],
+      ND: [319146, 2],
+      OH: [4157545, 21],
+      OR: [413536, 2],
+      PA: [6302115, 32],
+      RI: [428556, 2],
+      SC: [1340316, 7],
+      SD: [401570, 2],
+      TN: [2020616, 10],
+      TX: [3048710, 16],
+      UT: [276749, 1],
+      VT: [343641, 2],
+      VA: [1854184, 10],
+      WA: [518103, 3],
+      WV: [958800, 5],
+      WI: [2069042, 11],
+      WY: [92531, 1],
+    },
+  },
+  1910: {
+    houseSize: 435,
+    method: "webster",
+    apportionedSeats: 433,
+    admittedSeats: { AZ: 1, NM: 1 },
+    states: {
+      AL: [2138093, 10],
+      AZ: [204354, 1],
+      AR: [1574449, 7],
+      CA: [2377549, 11],
+      CO: [799024, 4],
+      CT: [1114756, 5],
+      DE: [202322, 1],
+      FL: [752619, 4],
+      GA: [2609121, 12],
+      ID: [325594, 2],
+      IL: [5638591, 27],
+      IN: [2700876, 13],
+      IA: [2224771, 11],
+      KS: [1690949, 8],
+      KY: [2289905, 11],
+      LA: [1656388, 8],
+      ME: [742371, 4],
+      MD: [1295346, 6],
+      MA: [3366416, 16],
+      MI: [2810173, 13],
+      MN: [2075708, 10],
+      MS: [1797114, 8],
+      MO: [3293335, 16],
+      MT: [376053, 2],
+      NE: [1192214, 6],
+      NV: [81875, 1],
+      NH: [430572, 2],
+      NJ: [2537167, 12],
+      NM: [327301, 1],
+      NY: [9113614, 43],
+      NC: [2206287, 10],
+      ND: [577056, 3],
+      OH: [4767121, 22],
+      OK: [1657155, 8],
+      OR: [672765, 3],
+      PA: [7665111, 36],
+      RI: [542610, 3],
+      SC: [1515400, 7],
+      SD: [583888, 3],
+      TN: [2184789, 10],
+      TX: [3896542, 18],
+      UT: [373351, 2],
+      VT: [355956, 2],
+      VA: [2061612, 10],
+      WA: [1141990, 5],
+      WV: [1221119, 6],
+      WI: [2333860, 11],
+      WY: [145965, 1],
+    },
+  },
+  1920: {
+    houseSize: 435,
+    method: "webster",
+    seatsFromYear: 1910,
+    states: {
+      AL: [2348174, 10],
+      AZ: [334162, 1],
+      AR: [1752204, 7],
+      CA: [3426861, 11],
+      CO: [939629, 4],
+      CT: [1380631, 5],
+      DE: [223003, 1],
+      FL: [968470, 4],
+      GA: [2895832, 12],
+      ID: [431866, 2],
+      IL: [6485280, 27],
+      IN: [2930390, 13],
+      IA: [2404021, 11],
+      KS: [1769257, 8],
+      KY: [2416630, 11],
+      LA: [1798509, 8],
+      ME: [768014, 4],
+      MD: [1449661, 6],
+      MA: [3852356, 16],
+      MI: [3668412, 13],
+      MN: [2387125, 10],
+      MS: [1790618, 8],
+      MO: [3404055, 16],
+      MT: [548889, 2],
+      NE: [1296372, 6],
+      NV: [77407, 1],
+      NH: [443083, 2],
+      NJ: [3155900, 12],
+      NM: [360350, 1],
+      NY: [10385227, 43],
+      NC: [2559123, 10],
+      ND: [646872, 3],
+      OH: [5759394, 22],
+      OK: [2028283, 8],
+      OR: [783389, 3],
+      PA: [8720017, 36],
+      RI: [604397, 3],
+      SC: [1683724, 7],
+      SD: [636547, 3],
+      TN: [2337885, 10],
+      TX: [4663228, 18],
+      UT: [449396, 2],
+      VT: [352428, 2],
+      VA: [2309187, 10],
+      WA: [1356621, 5],
+      WV: [1463701, 6],
+      WI: [2632067, 11],
+      WY: [194402, 1],
+    },
+  },
+  1930: {
+    houseSize: 435,
+    method: "webster",
+    residentTotals: true,
+    states: {
+      AL: [2646248, 9],
+      AZ: [435573, 1],
+      AR: [1854482, 7],
+      CA: [5677251, 20],
+      CO: [1035791, 4],
+      CT: [1606903, 6],
+      DE: [238380, 1],
+      FL: [1468211, 5],
+      GA: [2908506, 10],
+      ID: [445032, 2],
+      IL: [7630654, 27],
+      IN: [3238503, 12],
+      IA: [2470939, 9],
+      KS: [1880999, 7],
+      KY: [2614589, 9],
+      LA: [2101593, 8],
+      ME: [797423, 3],
+      MD: [1631526, 6],
+      MA: [4249614, 15],
+      MI: [4842325, 17],
+      MN: [2563953, 9],
+      MS: [2009821, 7],
+      MO: [3629367, 13],
+      MT: [537606, 2],
+      NE: [1377963, 5],
+      NV: [91058, 1],
+      NH: [465293, 2],
+      NJ: [4041334, 14],
+      NM: [423317, 1],
+      NY: [12588066, 45],
+      NC: [3170276, 11],
+      ND: [680845, 2],
+      OH: [6646697, 24],
+      OK: [2396040, 9],
+      OR: [953786, 3],
+      PA: [9631350, 34],
+      RI: [687497, 2],
+      SC: [1738765, 6],
+      SD: [692849, 2],
+      TN: [2616556, 9],
+      TX: [5824715, 21],
+      UT: [507847, 2],
+      VT: [359611, 1],
+      VA: [2421851, 9],
+      WA: [1563396, 6],
+      WV: [1729205, 6],
+      WI: [2939006, 10],
+      WY: [225565, 1],
+    },
+  },
+  1940: {
+    houseSize: 435,
+    method: "huntingtonHill",
+    states: {
+      AL: [2832961, 9],
+      AZ: [499261, 2],
+      AR: [1949387, 7],
+      CA: [6907387, 23],
+      CO: [1123296, 4],
+      CT: [1709242, 6],
+      DE: [266505, 1],
+      FL: [1897414, 6],
+      GA: [3123723, 10],
+      ID: [524873, 2],
+      IL: [7897241, 26],
+      IN: [3427796, 11],
+      IA: [2538268, 8],
+      KS: [1801028, 6],
+      KY: [2845627, 9],
+      LA: [2363880, 8],
+      ME: [847226, 3],
+      MD: [1821244, 6],
+      MA: [4316721, 14],
+      MI: [5256106, 17],
+      MN: [2792300, 9],
+      MS: [2183796, 7],
+      MO: [3784664, 13],
+      MT: [559456, 2],
+      NE: [1315834, 4],
+      NV: [110247, 1],
+      NH: [491524, 2],
+      NJ: [4160165, 14],
+      NM: [531818, 2],
+      NY: [13479142, 45],
+      NC: [3571623, 12],
+      ND: [641935, 2],
+      OH: [6907612, 23],
+      OK: [2336434, 8],
+      OR: [1089684, 4],
+      PA: [9900180, 33],
+      RI: [713346, 2],
+      SC: [1899804, 6],
+      SD: [642961, 2],
+      TN: [2915841, 10],
+      TX: [6414824, 21],
+      UT: [550310, 2],
+      VT: [359231, 1],
+      VA: [2677773, 9],
+      WA: [1736191, 6],
+      WV: [1901974, 6],
+      WI: [3137587, 10],
+      WY: [250742, 1],
+    },
+  },
+  1950: {
+    houseSize: 435,
+    method: "huntingtonHill",
+    states: {
+      AL: [3061743, 9],
+      AZ: [749587, 2],
+      AR: [1909511, 6],
+      CA: [10586223, 30],
+      CO: [1325089, 4],
+      CT: [2007280, 6],
+      DE: [318085, 1],
+      FL: [2771305, 8],
+      GA: [3444578, 10],
+      ID: [588637, 2],
+      IL: [8712176, 25],
+      IN: [3934224, 11],
+      IA: [2621073, 8],
+      KS: [1905299, 6],
+      KY: [2944806, 8],
+      LA: [2683516, 8],
+      ME: [913774, 3],
+      MD: [2343001, 7],
+      MA: [4690514, 14],
+      MI: [6371766, 18],
+      MN: [2982483, 9],
+      MS: [2178914, 6],
+      MO: [3954653, 11],
+      MT: [591024, 2],
+      NE: [1325510, 4],
+      NV: [160083, 1],
+      NH: [533242, 2],
+      NJ: [4835329, 14],
+      NM: [681187, 2],
+      NY: [14830192, 43],
+      NC: [4061929, 12],
+      ND: [619636, 2],
+      OH: [7946627, 23],
+      OK: [2233351, 6],
+      OR: [1521341, 4],
+      PA: [10498012, 30],
+      RI: [791896, 2],
+      SC: [2117027, 6],
+      SD: [652740, 2],
+      TN: [3291718, 9],
+      TX: [7711194, 22],
+      UT: [688862, 2],
+      VT: [377747, 1],
+      VA: [3318680, 10],
+      WA: [2378963, 7],
+      WV: [2005552, 6],
+      WI: [3434575, 10],
+      WY: [290529, 1],
+    },
+  },
+  1960: {
+    houseSize: 435,
+    method: "huntingtonHill",
+    states: {
+      AL: [3266740, 8],
+      AK: [226167, 1],
+      AZ: [1302161, 3],
+      AR: [1786272, 4],
+      CA: [15717204, 38],
+      CO: [1753947, 4],
+      CT: [2535234, 6],
+      DE: [446292, 1],
+      DC: [763956, 0],
+      FL: [4951560, 12],
+      GA: [3943116, 10],
+      HI: [632772, 2],
+      ID: [667191, 2],
+      IL: [10081158, 24],
+      IN: [4662498, 11],
+      IA: [2757537, 7],
+      KS: [2178611, 5],
+      KY: [3038156, 7],
+      LA: [3257022, 8],
+      ME: [969265, 2],
+      MD: [3100689, 8],
+      MA: [5148578, 12],
+      MI: [7823194, 19],
+      MN: [3413864, 8],
+      MS: [2178141, 5],
+      MO: [4319813, 10],
+      MT: [674767, 2],
+      NE: [1411330, 3],
+      NV: [285278, 1],
+      NH: [606921, 2],
+      NJ: [6066782, 15],
+      NM: [951023, 2],
+      NY: [16782304, 41],
+      NC: [4556155, 11],
+      ND: [632446, 2],
+      OH: [9706397, 24],
+      OK: [2328284, 6],
+      OR: [1768687, 4],
+      PA: [11319366, 27],
+      RI: [859488, 2],
+      SC: [2382594, 6],
+      SD: [680514, 2],
+      TN: [3567089, 9],
+      TX: [9579677, 23],
+      UT: [890627, 2],
+      VT: [389881, 1],
+      VA: [3966949, 10],
+      WA: [2853214, 7],
+      WV: [1860421, 5],
+      WI: [3951777, 10],
+      WY: [330066, 1],
+    },
+  },
+  1970: {
+    houseSize: 435,
+    method: "huntingtonHill",
+    states: {
+      AL: [3475885, 7],
+      AK: [304067, 1],
+      AZ: [1787620, 4],
+      AR: [1942303, 4],
+      CA: [20098863, 43],
+      CO: [2226771, 5],
+      CT: [3050693, 6],
+      DE: [551928, 1],
+      DC: [756510, 0],
+      FL: [6855702, 15],
+      GA: [4627306, 10],
+      HI: [784901, 2],
+      ID: [719921, 2],
+      IL: [11184320, 24],
+      IN: [5228156, 11],
+      IA: [2846920, 6],
+      KS: [2265846, 5],
+      KY: [3246481, 7],
+      LA: [3672008, 8],
+      ME: [1006320, 2],
+      MD: [3953698, 8],
+      MA: [5726676, 12],
+      MI: [8937196, 19],
+      MN: [3833173, 8],
+      MS: [2233848, 5],
+      MO: [4718034, 10],
+      MT: [701573, 2],
+      NE: [1496820, 3],
+      NV: [492396, 1],
+      NH: [746284, 2],
+      NJ: [7208035, 15],
+      NM: [1026664, 2],
+      NY: [18338055, 39],
+      NC: [5125230, 11],
+      ND: [624181, 1],
+      OH: [10730200, 23],
+      OK: [2585486, 6],
+      OR: [2110810, 4],
+      PA: [11884314, 25],
+      RI: [957798, 2],
+      SC: [2617320, 6],
+      SD: [673247, 2],
+      TN: [3961060, 8],
+      TX: [11298787, 24],
+      UT: [1067810, 2],
+      VT: [447732, 1],
+      VA: [4690742, 10],
+      WA: [3443487, 7],
+      WV: [1763331, 4],
+      WI: [4447013, 9],
+      WY: [335149, 1],
+    },
+  },
+  1980: {
+    houseSize: 435,
+    method: "huntingtonHill",
+    states: {
+      AL: [3890061, 7],
+      AK: [400481, 1],
+      AZ: [2717866, 5],
+      AR: [2285513, 4],
+      CA: [23668562, 45],
+      CO: [2888834, 6],
+      CT: [3107576, 6],
+      DE: [595225, 1],
+      DC: [638333, 0],
+      FL: [9739992, 19],
+      GA: [5464265, 10],
+      HI: [965000, 2],
+      ID: [943935, 2],
+      IL: [11418461, 22],
+      IN: [5490179, 10],
+      IA: [2913387, 6],
+      KS: [2363208, 5],
+      KY: [3661433, 7],
+      LA: [4203972, 8],
+      ME: [1124660, 2],
+      MD: [4216446, 8],
+      MA: [5737037, 11],
+      MI: [9258344, 18],
+      MN: [4077148, 8],
+      MS: [2520638, 5],
+      MO: [4917444, 9],
+      MT: [786690, 2],
+      NE: [1570006, 3],
+      NV: [799184, 2],
+      NH: [920610, 2],
+      NJ: [7364158, 14],
+      NM: [1299968, 3],
+      NY: [17557288, 34],
+      NC: [5874429, 11],
+      ND: [652695, 1],
+      OH: [10797419, 21],
+      OK: [3025266, 6],
+      OR: [2632663, 5],
+      PA: [11866728, 23],
+      RI: [947154, 2],
+      SC: [3119208, 6],
+      SD: [690178, 1],
+      TN: [4590750, 9],
+      TX: [14228383, 27],
+      UT: [1461037, 3],
+      VT: [511456, 1],
+      VA: [5346279, 10],
+      WA: [4132353, 8],
+      WV: [1949644, 4],
+      WI: [4705335, 9],
+      WY: [470816, 1],
+    },
+  },
+  1990: {
+    houseSize: 435,
+    method: "huntingtonHill",
+    states: {
+      AL: [4062608, 7],
+      AK: [551947, 1],
+      AZ: [3677985, 6],
+      AR: [2362239, 4],
+      CA: [29839250, 52],
+      CO: [3307912, 6],
+      CT: [3295669, 6],
+      DE: [668696, 1],
+      DC: [606900, 0],
+      FL: [13003362, 23],
+      GA: [6508419, 11],
+      HI: [1115274, 2],
+      ID: [1011986, 2],
+      IL: [11466682, 20],
+      IN: [5564228, 10],
+      IA: [2787424, 5],
+      KS: [2485600, 4],
+      KY: [3698969, 6],
+      LA: [4238216, 7],
+      ME: [1233223, 2],
+      MD: [4798622, 8],
+      MA: [6029051, 10],
+      MI: [9328784, 16],
+      MN: [4387029, 8],
+      MS: [2586443, 5],
+      MO: [5137804, 9],
+      MT: [803655, 1],
+      NE: [1584617, 3],
+      NV: [1206152, 2],
+      NH: [1113915, 2],
+      NJ: [7748634, 13],
+      NM: [1521779, 3],
+      NY: [18044505, 31],
+      NC: [6657630, 12],
+      ND: [641364, 1],
+      OH: [10887325, 19],
+      OK: [3157604, 6],
+      OR: [2853733, 5],
+      PA: [11924710, 21],
+      RI: [1005984, 2],
+      SC: [3505707, 6],
+      SD: [699999, 1],
+      TN: [4896641, 9],
+      TX: [17059805, 30],
+      UT: [1727784, 3],
+      VT: [564964, 1],
+      VA: [6216568, 11],
+      WA: [4887941, 9],
+      WV: [1801625, 3],
+      WI: [4906745, 9],
+      WY: [455975, 1],
+    },
+  },
+  2000: {
+    houseSize: 435,
+    method: "huntingtonHill",
+    states: {
+      AL: [4461130, 7],
+      AK: [628933, 1],
+      AZ: [5140683, 8],
+      AR: [2679733, 4],
+      CA: [33930798, 53],
+      CO: [4311882, 7],
+      CT: [3409535, 5],
+      DE: [785068, 1],
+      DC: [572059, 0],
+      FL: [16028890, 25],
+      GA: [8206975, 13],
+      HI: [1216642, 2],
+      ID: [1297274, 2],
+      IL: [12439042, 19],
+      IN: [6090782, 9],
+      IA: [2931923, 5],
+      KS: [2693824, 4],
+      KY: [4049431, 6],
+      LA: [4480271, 7],
+      ME: [1277731, 2],
+      MD: [5307886, 8],
+      MA: [6355568, 10],
+      MI: [9955829, 15],
+      MN: [4925670, 8],
+      MS: [2852927, 4],
+      MO: [5606260, 9],
+      MT: [905316, 1],
+      NE: [1715369, 3],
+      NV: [2002032, 3],
+      NH: [1238415, 2],
+      NJ: [8424354, 13],
+      NM: [1823821, 3],
+      NY: [19004973, 29],
+      NC: [8067673, 13],
+      ND: [643756, 1],
+      OH: [11374540, 18],
+      OK: [3458819, 5],
+      OR: [3428543, 5],
+      PA: [12300670, 19],
+      RI: [1049662, 2],
+      SC: [4025061, 6],
+      SD: [756874, 1],
+      TN: [5700037, 9],
+      TX: [20903994, 32],
+      UT: [2236714, 3],
+      VT: [609890, 1],
+      VA: [7100702, 11],
+      WA: [5908684, 9],
+      WV: [1813077, 3],
+      WI: [5371210, 8],
+      WY: [495304, 1],
+    },
+  },
+  2010: {
+    houseSize: 435,
+    method: "huntingtonHill",
+    states: {
+      AL: [4802982, 7],
+      AK: [721523, 1],
+      AZ: [6412700, 9],
+      AR: [2926229, 4],
+      CA: [37341989, 53],
+      CO: [5044930, 7],
+      CT: [3581628, 5],
+      DE: [900877, 1],
+      DC: [601723, 0],
+      FL: [18900773, 27],
+      GA: [9727566, 14],
+      HI: [1366862, 2],
+      ID: [1573499, 2],
+      IL: [12864380, 18],
+      IN: [6501582, 9],
+      IA: [3053787, 4],
+      KS: [2863813, 4],
+      KY: [4350606, 6],
+      LA: [4553962, 6],
+      ME: [1333074, 2],
+      MD: [5789929, 8],
+      MA: [6559644, 9],
+      MI: [9911626, 14],
+      MN: [5314879, 8],
+      MS: [2978240, 4],
+      MO: [6011478, 8],
+      MT: [994416, 1],
+      NE: [1831825, 3],
+      NV: [2709432, 4],
+      NH: [1321445, 2],
+      NJ: [8807501, 12],
+      NM: [2067273, 3],
+      NY: [19421055, 27],
+      NC: [9565781, 13],
+      ND: [675905, 1],
+      OH: [11568495, 16],
+      OK: [3764882, 5],
+      OR: [3848606, 5],
+      PA: [12734905, 18],
+      RI: [1055247, 2],
+      SC: [4645975, 7],
+      SD: [819761, 1],
+      TN: [6375431, 9],
+      TX: [25268418, 36],
+      UT: [2770765, 4],
+      VT: [630337, 1],
+      VA: [8037736, 11],
+      WA: [6753369, 10],
+      WV: [1859815, 3],
+      WI: [5698230, 8],
+      WY: [568300, 1],
+    },
+  },
+  2020: {
+    houseSize: 435,
+    method: "huntingtonHill",
+    states: {
+      AL: [5024279, 7],
+      AK: [733391, 1],
+      AZ: [7151502, 9],
+      AR: [3011524, 4],
+      CA: [39538223, 52],
+      CO: [5773714, 8],
+      CT: [3605944, 5],
+      DE: [989948, 1],
+      DC: [689545, 0],
+      FL: [21538187, 28],
+      GA: [10711908, 14],
+      HI: [1455271, 2],
+      ID: [1839106, 2],
+      IL: [12812508, 17],
+      IN: [6785528, 9],
+      IA: [3190369, 4],
+      KS: [2937880, 4],
+      KY: [4505836, 6],
+      LA: [4657757, 6],
+      ME: [1362359, 2],
+      MD: [6177224, 8],
+      MA: [7029917, 9],
+      MI: [10077331, 13],
+      MN: [5706494, 8],
+      MS: [2961279, 4],
+      MO: [6154913, 8],
+      MT: [1084225, 2],
+      NE: [1961504, 3],
+      NV: [3104614, 4],
+      NH: [1377529, 2],
+      NJ: [9288994, 12],
+      NM: [2117522, 3],
+      NY: [20201249, 26],
+      NC: [10439388, 14],
+      ND: [779094, 1],
+      OH: [11799448, 15],
+      OK: [3959353, 5],
+      OR: [4237256, 6],
+      PA: [13002700, 17],
+      RI: [1097379, 2],
+      SC: [5118425, 7],
+      SD: [886667, 1],
+      TN: [6910840, 9],
+      TX: [29145505, 38],
+      UT: [3271616, 4],
+      VT: [643077, 1],
+      VA: [8631393, 11],
+      WA: [7705281, 10],
+      WV: [1793716, 2],
+      WI: [5893718, 8],
+      WY: [576851, 1],
+    },
+  },
+};
@@ -0,0 +1,61 @@
+export type CensusRegion = "northeast" | "midwest" | "south" | "west" | "territories";
+
+// Census Bureau regions. Territories, which belong to none, share their own.
+export const censusRegionByState: Record<string, CensusRegion> = {
+  CT: "northeast",
+  ME: "northeast",
+  MA: "northeast",
+  NH: "northeast",
+  NJ: "northeast",
+  NY: "northeast",
+  PA: "northeast",
+  RI: "northeast",
+  VT: "northeast",
+  IL: "midwest",
+  IN: "midwest",
+  IA: "midwest",
+  KS: "midwest",
+  MI: "midwest",
+  MN: "midwest",
+  MO: "midwest",
+  NE: "midwest",
+  ND: "midwest",
+  OH: "midwest",
+  SD: "midwest",
+  WI: "midwest",
+  AL: "south",
+  AR: "south",
+  DE: "south",
+  DC: "south",
+  FL: "south",
+  GA: "south",
+  KY: "south",
+  LA: "south",
+  MD: "south",
+  MS: "south",
+  NC: "south",
+  OK: "south",
+  SC: "south",
+  TN: "south",
+  TX: "south",
+  VA: "south",
+  WV: "south",
+  AK: "west",
+  AZ: "west",
+  CA: "west",
+  CO: "west",
+  HI: "west",
+  ID: "west",
+  MT: "west",
+  NV: "west",
+  NM: "west",
+  OR: "west",
+  UT: "west",
+  WA: "west",
+  WY: "west",
+  PR: "territories",
+  GU: "territories",
+  VI: "territories",
+  AS: "territories",
+  MP: "territories",
+};
@@ -160,3 +160,167 @@ export const midtermHouseDemShareByYear: Record<
   },
 };
 
+// Democratic House seats won in each state, from the same elections. Seat
+// totals come from the apportionment in force: 2010 for 2014 and 2018, 2020
+// for 2022.
+export const midtermHouseDemSeatsByYear: Record<
+  "2014" | "2018" | "2022",
+  Record<string, number>
+> = {
+  "2014": {
+    AK: 0,
+    AL: 1,
+    AR: 0,
+    AZ: 4,
+    CA: 39,
+    CO: 3,
+    CT: 5,
+    DE: 1,
+    FL: 10,
+    GA: 4,
+    HI: 2,
+    IA: 1,
+    ID: 0,
+    IL: 10,
+    IN: 2,
+    KS: 0,
+    KY: 1,
+    LA: 1,
+    MA: 9,
+    MD: 7,
+    ME: 1,
+    MI: 5,
+    MN: 5,
+    MO: 2,
+    MS: 1,
+    MT: 0,
+    NC: 3,
+    ND: 0,
+    NE: 1,
+    NH: 1,
+    NJ: 6,
+    NM: 2,
+    NV: 1,
+    NY: 18,
+    OH: 4,
+    OK: 0,
+    OR: 4,
+    PA: 5,
+    RI: 2,
+    SC: 1,
+    SD: 0,
+    TN: 2,
+    TX: 11,
+    UT: 0,
+    VA: 3,
+    VT: 1,
+    WA: 6,
+    WI: 3,
+    WV: 0,
+    WY: 0,
+  },
+  "2018": {
+    AK: 0,
+    AL: 1,
+    AR: 0,
+    AZ: 5,
+    CA: 46,
+    CO: 4,
+    CT: 5,
+    DE: 1,
+    FL: 13,
+    GA: 5,
+    HI: 2,
+    IA: 3,
+    ID: 0,
+    IL: 13,
+    IN: 2,
+    KS: 1,
+    KY: 1,
+    LA: 1,
+    MA: 9,
+    MD: 7,
+    ME: 2,
+    MI: 7,
+    MN: 5,
+    MO: 2,
+    MS: 1,
+    MT: 0,
+    NC: 3,
+    ND: 0,
+    NE: 0,
+    NH: 2,
+    NJ: 11,
+    NM: 3,
+    NV: 3,
+    NY: 21,
+    OH: 4,
+    OK: 1,
+    OR: 4,
+    PA: 9,
+    RI: 2,
+    SC: 2,
+    SD: 0,
+    TN: 2,
+    TX: 13,
+    UT: 1,
+    VA: 7,
+    VT: 1,
+    WA: 7,
+    WI: 3,
+    WV: 0,
+    WY: 0,
+  },
+  "2022": {
+    AK: 1,
+    AL: 1,
+    AR: 0,
+    AZ: 3,
+    CA: 40,
+    CO: 5,
+    CT: 5,
+    DE: 1,
+    FL: 8,
+    GA: 5,
+    HI: 2,
+    IA: 0,
+    ID: 0,
+    IL: 14,
+    IN: 2,
+    KS: 1,
+    KY: 1,
+    LA: 1,
+    MA: 9,
+    MD: 7,
+    ME: 2,
+    MI: 7,
+    MN: 4,
+    MO: 2,
+    MS: 1,
+    MT: 0,
+    NC: 7,
+    ND: 0,
+    NE: 0,
+    NH: 2,
+    NJ: 9,
+    NM: 3,
+    NV: 3,
+    NY: 15,
+    OH: 5,
+    OK: 0,
+    OR: 4,
+    PA: 9,
+    RI: 2,
+    SC: 1,
+    SD: 0,
+    TN: 1,
+    TX: 13,
+    UT: 0,
+    VA: 6,
+    VT: 1,
+    WA: 8,
+    WI: 2,
+    WV: 0,
+    WY: 0,
+  },
+};
@@ -0,0 +1,1206 @@
+// Presidential results from 1960, the first election with 50 states. State
+// entries are percentages of the statewide popular vote: Democrat, Republican
+// and, where a third slate carried the state, that slate. National totals are
+// the certified major-party counts. Certified state counts are not recorded
+// yet, so turnout-weighted totals cannot be rebuilt from the state entries.
+export type StatePresidentialResult = [number, number] | [number, number, number];
+
+// Electors who did not vote for their party's nominee, including unpledged
+// electors chosen on a party slate.
+export type FaithlessElectors = {
+  state: string;
+  party: "D" | "R";
+  count: number;
+  votedFor: string;
+};
+
+export type PresidentialResult = {
+  democrat: string;
+  republican: string;
+  // Third-party or unpledged slate that carried at least one state.
+  other?: string;
+  democraticVotes: number;
+  republicanVotes: number;
+  // DC first voted in 1964.
+  states: Record<string, StatePresidentialResult>;
+  // Democratic and Republican percentages in each congressional district,
+  // listed only in years a state used the district method (Maine from 1972,
+  // Nebraska from 1992).
+  districts: Partial<Record<"ME" | "NE", [number, number][]>>;
+  faithlessElectors: FaithlessElectors[];
+};
+
+export const presidentialResultsByYear = {
+  1960: {
+    democrat: "John F. Kennedy",
+    republican: "Richard Nixon",
+    other: "Unpledged electors",
+    democraticVotes: 34_220_984,
+    republicanVotes: 34_108_157,
+    states: {
+      AK: [49.1, 50.9],
+      AL: [56.8, 42.2],
+      AR: [50.2, 43.1],
+      AZ: [44.4, 55.5],
+      CA: [49.6, 50.1],
+      CO: [44.9, 54.6],
+      CT: [53.7, 46.3],
+      DE: [50.6, 49.0],
+      FL: [48.5, 51.5],
+      GA: [62.5, 37.4],
+      HI: [50.03, 49.97],
+      IA: [43.2, 56.7],
+      ID: [46.2, 53.8],
+      IL: [50.0, 49.8],
+      IN: [44.6, 55.0],
+      KS: [39.1, 60.4],
+      KY: [46.4, 53.6],
+      LA: [50.4, 28.6],
+      MA: [60.2, 39.6],
+      MD: [53.6, 46.4],
+      ME: [43.0, 57.0],
+      MI: [50.9, 48.8],
+      MN: [50.6, 49.2],
+      MO: [50.3, 49.7],
+      MS: [36.3, 24.7, 39.0],
+      MT: [48.6, 51.1],
+      NC: [52.1, 47.9],
+      ND: [44.5, 55.4],
+      NE: [37.9, 62.1],
+      NH: [46.6, 53.4],
+      NJ: [50.0, 49.2],
+      NM: [50.2, 49.4],
+      NV: [51.2, 48.8],
+      NY: [52.5, 47.3],
+      OH: [46.7, 53.3],
+      OK: [41.0, 59.0],
+      OR: [47.3, 52.6],
+      PA: [51.1, 48.7],
+      RI: [63.6, 36.4],
+      SC: [51.2, 48.8],
+      SD: [41.8, 58.2],
+      TN: [45.8, 52.9],
+      TX: [50.5, 48.5],
+      UT: [45.2, 54.8],
+      VA: [47.0, 52.4],
+      VT: [41.4, 58.6],
+      WA: [48.3, 50.7],
+      WI: [48.0, 51.8],
+      WV: [52.7, 47.3],
+      WY: [45.0, 55.0],
+    },
+    districts: {},
+    faithlessElectors: [
+      { state: "AL", party: "D", count: 6, votedFor: "Harry F. Byrd (unpledged)" },
+      { state: "OK", party: "R", count: 1, votedFor: "Harry F. Byrd" },
+    ],
+  },
+  1964: {
+    democrat: "Lyndon B. Johnson",
+    republican: "Barry Goldwater",
+    democraticVotes: 43_127_041,
+    republicanVotes: 27_175_754,
+    states: {
+      AK: [65.9, 34.1],
+      AL: [30.6, 69.5],
+      AR: [56.1, 43.4],
+      AZ: [49.5, 50.4],
+      CA: [59.1, 40.8],
+      CO: [61.3, 38.2],
+      CT: [67.8, 32.1],
+      DC: [85.5, 14.5],
+      DE: [60.9, 38.8],
+      FL: [51.1, 48.9],
+      GA: [45.9, 54.1],
+      HI: [78.8, 21.2],
+      IA: [61.9, 37.9],
+      ID: [50.9, 49.1],
+      IL: [59.5, 40.5],
+      IN: [56.0, 43.6],
+      KS: [54.1, 45.1],
+      KY: [64.0, 36.0],
+      LA: [43.2, 56.8],
+      MA: [76.2, 23.4],
+      MD: [65.5, 34.5],
+      ME: [68.8, 31.2],
+      MI: [66.7, 33.1],
+      MN: [63.8, 36.0],
+      MO: [64.0, 36.0],
+      MS: [12.9, 87.1],
+      MT: [59.0, 40.6],
+      NC: [56.2, 43.8],
+      ND: [58.0, 41.9],
+      NE: [52.6, 47.4],
+      NH: [63.9, 36.1],
+      NJ: [65.6, 33.9],
+      NM: [59.0, 40.4],
+      NV: [58.6, 41.4],
+      NY: [68.6, 31.3],
+      OH: [62.9, 37.1],
+      OK: [55.8, 44.3],
+      OR: [63.7, 36.0],
+      PA: [64.9, 34.7],
+      RI: [80.9, 19.1],
+      SC: [41.1, 58.9],
+      SD: [55.6, 44.4],
+      TN: [55.5, 44.5],
+      TX: [63.3, 36.5],
+      UT: [54.9, 45.1],
+      VA: [53.5, 46.2],
+      VT: [66.3, 33.7],
+      WA: [62.0, 37.4],
+      WI: [62.1, 37.7],
+      WV: [67.9, 32.1],
+      WY: [56.6, 43.4],
+    },
+    districts: {},
+    faithlessElectors: [],
+  },
+  1968: {
+    democrat: "Hubert Humphrey",
+    republican: "Richard Nixon",
+    other: "George Wallace",
+    democraticVotes: 31_271_839,
+    republicanVotes: 31_783_783,
+    states: {
+      AK: [42.6, 45.3],
+      AL: [18.7, 14.0, 65.9],
+      AR: [30.4, 31.0, 38.9],
+      AZ: [35.0, 54.8],
+      CA: [44.7, 47.8],
+      CO: [41.3, 50.5],
+      CT: [49.5, 44.3],
+      DC: [81.8, 18.2],
+      DE: [41.6, 45.1],
+      FL: [30.9, 40.5],
+      GA: [26.7, 30.4, 42.8],
+      HI: [59.8, 38.7],
+      IA: [40.8, 53.0],
+      ID: [30.7, 56.8],
+      IL: [44.2, 47.1],
+      IN: [38.0, 50.3],
+      KS: [34.7, 54.8],
+      KY: [37.6, 43.8],
+      LA: [28.2, 23.5, 48.3],
+      MA: [63.0, 32.9],
+      MD: [43.6, 41.9],
+      ME: [55.3, 43.1],
+      MI: [48.2, 41.5],
+      MN: [54.0, 41.5],
+      MO: [43.7, 44.9],
+      MS: [23.0, 13.5, 63.5],
+      MT: [41.6, 50.6],
+      NC: [29.2, 39.5],
+      ND: [38.2, 55.9],
+      NE: [31.8, 59.8],
+      NH: [43.9, 52.1],
+      NJ: [44.0, 46.1],
+      NM: [39.7, 51.8],
+      NV: [39.3, 47.5],
+      NY: [49.8, 44.3],
+      OH: [43.0, 45.2],
+      OK: [32.0, 47.7],
+      OR: [43.8, 49.8],
+      PA: [47.6, 44.0],
+      RI: [64.0, 31.8],
+      SC: [29.6, 38.1],
+      SD: [42.0, 53.3],
+      TN: [28.1, 37.9],
+      TX: [41.1, 39.9],
+      UT: [37.1, 56.5],
+      VA: [32.5, 43.4],
+      VT: [43.5, 52.8],
+      WA: [47.2, 45.1],
+      WI: [44.3, 47.9],
+      WV: [49.6, 40.8],
+      WY: [35.5, 55.8],
+    },
+    districts: {},
+    faithlessElectors: [
+      { state: "NC", party: "R", count: 1, votedFor: "George Wallace" },
+    ],
+  },
+  1972: {
+    democrat: "George McGovern",
+    republican: "Richard Nixon",
+    democraticVotes: 29_173_222,
+    republicanVotes: 47_168_710,
+    states: {
+      AK: [34.6, 58.1],
+      AL: [25.5, 72.4],
+      AR: [30.7, 68.9],
+      AZ: [30.4, 61.6],
+      CA: [41.5, 55.0],
+      CO: [34.6, 62.6],
+      CT: [40.1, 58.6],
+      DC: [78.1, 21.6],
+      DE: [39.2, 59.6],
+      FL: [27.8, 71.9],
+      GA: [24.6, 75.0],
+      HI: [37.5, 62.5],
+      IA: [40.5, 57.6],
+      ID: [26.0, 64.2],
+      IL: [40.5, 59.0],
+      IN: [33.3, 66.1],
+      KS: [29.5, 67.7],
+      KY: [34.8, 63.4],
+      LA: [28.4, 65.3],
+      MA: [54.2, 45.2],
+      MD: [37.4, 61.3],
+      ME: [38.5, 61.5],
+      MI: [41.8, 56.2],
+      MN: [46.1, 51.6],
+      MO: [37.7, 62.3],
+      MS: [19.6, 78.2],
+      MT: [37.9, 57.9],
+      NC: [28.9, 69.5],
+      ND: [35.8, 62.1],
+      NE: [29.5, 70.5],
+      NH: [34.9, 64.0],
+      NJ: [36.8, 61.6],
+      NM: [36.5, 61.0],
+      NV: [36.3, 63.7],
+      NY: [41.2, 58.5],
+      OH: [38.1, 59.6],
+      OK: [24.0, 73.7],
+      OR: [42.3, 52.4],
+      PA: [39.1, 59.1],
+      RI: [46.8, 53.0],
+      SC: [27.7, 70.6],
+      SD: [45.5, 54.2],
+      TN: [29.8, 67.7],
+      TX: [33.2, 66.2],
+      UT: [26.4, 67.6],
+      VA: [30.1, 67.8],
+      VT: [36.6, 62.7],
+      WA: [38.6, 56.9],
+      WI: [43.7, 53.4],
+      WV: [36.4, 63.6],
+      WY: [30.5, 69.0],
+    },
+    districts: {
+      ME: [
+        [39.4, 60.6],
+        [37.6, 62.4],
+      ],
+    },
+    faithlessElectors: [
+      { state: "VA", party: "R", count: 1, votedFor: "John Hospers" },
+    ],
+  },
+  1976: {
+    democrat: "Jimmy Carter",
+    republican: "Gerald Ford",
+    democraticVotes: 40_831_881,
+    republicanVotes: 39_148_634,
+    states: {
+      AK: [35.7, 57.9],
+      AL: [55.7, 42.6],
+      AR: [65.0, 34.9],
+      AZ: [39.8, 56.4],
+      CA: [47.6, 49.3],
+      CO: [42.6, 54.0],
+      CT: [46.9, 52.1],
+      DC: [81.6, 16.5],
+      DE: [52.0, 46.6],
+      FL: [51.9, 46.6],
+      GA: [66.7, 33.0],
+      HI: [50.6, 48.1],
+      IA: [48.5, 49.5],
+      ID: [37.1, 59.3],
+      IL: [48.1, 50.1],
+      IN: [45.7, 53.3],
+      KS: [44.9, 52.5],
+      KY: [52.8, 45.6],
+      LA: [51.7, 46.0],
+      MA: [56.1, 40.4],
+      MD: [52.8, 47.2],
+      ME: [48.1, 48.9],
+      MI: [46.4, 51.8],
+      MN: [54.9, 42.0],
+      MO: [51.1, 47.5],
+      MS: [49.6, 47.7],
+      MT: [45.4, 52.8],
+      NC: [55.3, 44.2],
+      ND: [45.8, 51.7],
+      NE: [38.5, 59.2],
+      NH: [43.5, 54.7],
+      NJ: [47.9, 50.1],
+      NM: [48.3, 50.5],
+      NV: [45.8, 50.2],
+      NY: [51.9, 47.5],
+      OH: [48.9, 48.7],
+      OK: [48.7, 50.0],
+      OR: [47.6, 47.8],
+      PA: [50.4, 47.7],
+      RI: [55.4, 44.1],
+      SC: [56.2, 43.1],
+      SD: [48.9, 50.4],
+      TN: [55.9, 42.9],
+      TX: [51.1, 48.0],
+      UT: [33.6, 62.4],
+      VA: [48.0, 49.3],
+      VT: [43.1, 54.8],
+      WA: [46.1, 50.0],
+      WI: [49.5, 47.8],
+      WV: [58.0, 42.0],
+      WY: [39.8, 59.3],
+    },
+    districts: {
+      ME: [
+        [47.9, 49.0],
+        [48.4, 48.8],
+      ],
+    },
+    faithlessElectors: [
+      { state: "WA", party: "R", count: 1, votedFor: "Ronald Reagan" },
+    ],
+  },
+  1980: {
+    democrat: "Jimmy Carter",
+    republican: "Ronald Reagan",
+    democraticVotes: 35_480_115,
+    republicanVotes: 43_903_230,
+    states: {
+      AK: [26.4, 54.3],
+      AL: [47.5, 48.8],
+      AR: [47.5, 48.1],
+      AZ: [28.2, 60.6],
+      CA: [35.9, 52.7],
+      CO: [31.1, 55.1],
+      CT: [38.5, 48.2],
+      DC: [74.8, 13.4],
+      DE: [44.8, 47.2],
+      FL: [38.5, 55.5],
+      GA: [55.8, 41.0],
+      HI: [44.8, 42.9],
+      IA: [38.6, 51.3],
+      ID: [25.2, 66.5],
+      IL: [41.7, 49.6],
+      IN: [37.7, 56.0],
+      KS: [33.3, 57.9],
+      KY: [47.6, 49.1],
+      LA: [45.7, 51.2],
+      MA: [41.7, 41.9],
+      MD: [47.1, 44.2],
+      ME: [42.3, 45.6],
+      MI: [42.5, 49.0],
+      MN: [46.5, 42.6],
+      MO: [44.3, 51.2],
+      MS: [48.1, 49.4],
+      MT: [32.4, 56.8],
+      NC: [47.2, 49.3],
+      ND: [26.3, 64.2],
+      NE: [26.0, 65.5],
+      NH: [28.4, 57.7],
+      NJ: [38.6, 52.0],
+      NM: [36.7, 54.9],
+      NV: [26.9, 62.5],
+      NY: [44.0, 46.7],
+      OH: [40.9, 51.5],
+      OK: [35.0, 60.5],
+      OR: [38.7, 48.3],
+      PA: [42.5, 49.6],
+      RI: [47.7, 37.2],
+      SC: [48.0, 49.6],
+      SD: [31.7, 60.5],
+      TN: [48.4, 48.7],
+      TX: [41.4, 55.3],
+      UT: [20.6, 72.8],
+      VA: [40.3, 53.0],
+      VT: [38.4, 44.4],
+      WA: [37.3, 49.7],
+      WI: [43.2, 47.9],
+      WV: [49.8, 45.3],
+      WY: [28.0, 62.6],
+    },
+    districts: {
+      ME: [
+        [42.0, 45.3],
+        [42.6, 45.9],
+      ],
+    },
+    faithlessElectors: [],
+  },
+  1984: {
+    democrat: "Walter Mondale",
+    republican: "Ronald Reagan",
+    democraticVotes: 37_577_352,
+    republicanVotes: 54_455_472,
+    states: {
+      AK: [29.9, 66.7],
+      AL: [38.3, 60.5],
+      AR: [38.3, 60.5],
+      AZ: [32.5, 66.4],
+      CA: [41.3, 57.5],
+      CO: [35.1, 63.4],
+      CT: [38.8, 60.7],
+      DC: [85.4, 13.7],
+      DE: [39.9, 59.8],
+      FL: [34.7, 65.3],
+      GA: [39.8, 60.2],
+      HI: [43.8, 55.1],
+      IA: [45.9, 53.3],
+      ID: [26.4, 72.4],
+      IL: [43.3, 56.2],
+      IN: [37.7, 61.7],
+      KS: [32.6, 66.3],
+      KY: [39.4, 60.0],
+      LA: [38.2, 60.8],
+      MA: [48.4, 51.2],
+      MD: [47.0, 52.5],
+      ME: [38.8, 60.8],
+      MI: [40.2, 59.2],
+      MN: [49.7, 49.5],
+      MO: [40.0, 60.0],
+      MS: [37.5, 61.9],
+      MT: [38.2, 60.5],
+      NC: [37.9, 61.9],
+      ND: [33.8, 64.8],
+      NE: [28.8, 70.6],
+      NH: [30.9, 68.6],
+      NJ: [39.2, 60.1],
+      NM: [39.2, 59.7],
+      NV: [32.0, 65.8],
+      NY: [45.8, 53.8],
+      OH: [40.1, 58.9],
+      OK: [30.7, 68.6],
+      OR: [43.7, 55.9],
+      PA: [46.0, 53.3],
+      RI: [48.0, 51.7],
+      SC: [35.6, 63.6],
+      SD: [36.5, 63.0],
+      TN: [41.6, 57.8],
+      TX: [36.1, 63.6],
+      UT: [24.7, 74.5],
+      VA: [37.1, 62.3],
+      VT: [40.8, 57.9],
+      WA: [42.9, 55.8],
+      WI: [45.0, 54.2],
+      WV: [44.6, 55.1],
+      WY: [28.2, 70.5],
+    },
+    districts: {
+      ME: [
+        [39.6, 60.1],
+        [38.0, 61.6],
+      ],
+    },
+    faithlessElectors: [],
+  },
+  1988: {
+    democrat: "Michael Dukakis",
+    republican: "George H. W. Bush",
+    democraticVotes: 41_809_476,
+    republicanVotes: 48_886_597,
+    states: {
+      AK: [36.3, 59.6],
+      AL: [39.9, 59.2],
+      AR: [42.2, 56.4],
+      AZ: [38.7, 60.0],
+      CA: [47.6, 51.1],
+      CO: [45.3, 53.1],
+      CT: [46.9, 52.0],
+      DC: [82.6, 14.3],
+      DE: [43.5, 55.9],
+      FL: [38.5, 60.9],
+      GA: [39.5, 59.8],
+      HI: [54.3, 44.8],
+      IA: [54.7, 44.5],
+      ID: [36.0, 62.1],
+      IL: [48.6, 50.7],
+      IN: [39.7, 59.8],
+      KS: [42.6, 55.8],
+      KY: [43.9, 55.5],
+      LA: [44.1, 54.3],
+      MA: [53.2, 45.4],
+      MD: [48.2, 51.1],
+      ME: [43.9, 55.3],
+      MI: [45.7, 53.6],
+      MN: [52.9, 45.9],
+      MO: [47.8, 51.8],
+      MS: [39.1, 59.9],
+      MT: [46.2, 52.1],
+      NC: [41.7, 58.0],
+      ND: [42.8, 56.0],
+      NE: [39.2, 60.2],
+      NH: [36.3, 62.5],
+      NJ: [42.6, 56.2],
+      NM: [46.9, 51.9],
+      NV: [37.9, 58.9],
+      NY: [51.6, 47.5],
+      OH: [44.2, 55.0],
+      OK: [41.3, 57.9],
+      OR: [51.3, 46.6],
+      PA: [48.4, 50.7],
+      RI: [55.6, 43.9],
+      SC: [37.6, 61.5],
+      SD: [46.5, 52.9],
+      TN: [41.6, 57.9],
+      TX: [43.3, 56.0],
+      UT: [32.0, 66.2],
+      VA: [39.2, 59.7],
+      VT: [47.6, 51.1],
+      WA: [50.0, 48.5],
+      WI: [51.4, 47.8],
+      WV: [52.2, 47.5],
+      WY: [38.0, 60.5],
+    },
+    districts: {
+      ME: [
+        [44.3, 54.9],
+        [43.5, 55.7],
+      ],
+    },
+    faithlessElectors: [
+      { state: "WV", party: "D", count: 1, votedFor: "Lloyd Bentsen" },
+    ],
+  },
+  1992: {
+    democrat: "Bill Clinton",
+    republican: "George H. W. Bush",
+    democraticVotes: 44_909_806,
+    republicanVotes: 39_104_550,
+    states: {
+      AK: [30.3, 39.5],
+      AL: [40.9, 47.6],
+      AR: [53.2, 35.5],
+      AZ: [36.5, 38.5],
+      CA: [46.0, 32.6],
+      CO: [40.1, 35.9],
+      CT: [42.2, 35.8],
+      DC: [84.6, 9.1],
+      DE: [43.5, 35.3],
+      FL: [39.0, 40.9],
+      GA: [43.5, 42.9],
+      HI: [48.1, 36.7],
+      IA: [43.3, 37.3],
+      ID: [28.4, 42.0],
+      IL: [48.6, 34.3],
+      IN: [36.8, 42.9],
+      KS: [33.7, 38.9],
+      KY: [44.6, 41.3],
+      LA: [45.6, 41.0],
+      MA: [47.5, 29.0],
+      MD: [49.8, 35.6],
+      ME: [38.8, 30.4],
+      MI: [43.8, 36.4],
+      MN: [43.5, 31.9],
+      MO: [44.1, 33.9],
+      MS: [40.8, 49.7],
+      MT: [37.6, 35.1],
+      NC: [42.7, 43.4],
+      ND: [32.2, 44.2],
+      NE: [29.4, 46.6],
+      NH: [38.9, 37.7],
+      NJ: [43.0, 40.6],
+      NM: [45.9, 37.3],
+      NV: [37.4, 34.7],
+      NY: [49.7, 33.9],
+      OH: [40.2, 38.3],
+      OK: [34.0, 42.7],
+      OR: [42.5, 32.5],
+      PA: [45.1, 36.1],
+      RI: [47.0, 29.0],
+      SC: [39.9, 48.0],
+      SD: [37.1, 40.7],
+      TN: [47.1, 42.4],
+      TX: [37.1, 40.6],
+      UT: [24.7, 43.4],
+      VA: [40.6, 45.0],
+      VT: [46.1, 30.4],
+      WA: [43.4, 32.0],
+      WI: [41.1, 36.8],
+      WV: [48.4, 35.4],
+      WY: [34.1, 39.7],
+    },
+    districts: {
+      ME: [
+        [39.6, 31.2],
+        [37.9, 29.5],
+      ],
+      NE: [
+        [31.6, 44.6],
+        [31.4, 46.6],
+        [25.0, 48.6],
+      ],
+    },
+    faithlessElectors: [],
+  },
+  1996: {
+    democrat: "Bill Clinton",
+    republican: "Bob Dole",
+    democraticVotes: 47_401_185,
+    republicanVotes: 39_197_469,
+    states: {
+      AK: [33.3, 50.8],
+      AL: [43.2, 50.1],
+      AR: [53.7, 36.8],
+      AZ: [46.5, 44.3],
+      CA: [51.1, 38.2],
+      CO: [44.4, 45.8],
+      CT: [52.8, 34.7],
+      DC: [85.2, 9.3],
+      DE: [51.8, 36.6],
+      FL: [48.0, 42.3],
+      GA: [45.8, 47.0],
+      HI: [56.9, 31.6],
+      IA: [50.3, 39.9],
+      ID: [33.6, 52.2],
+      IL: [54.3, 36.8],
+      IN: [41.6, 47.1],
+      KS: [36.1, 54.3],
+      KY: [45.8, 44.9],
+      LA: [52.0, 39.9],
+      MA: [61.5, 28.1],
+      MD: [54.3, 38.3],
+      ME: [51.6, 30.8],
+      MI: [51.7, 38.5],
+      MN: [51.1, 35.0],
+      MO: [47.5, 41.2],
+      MS: [44.1, 49.2],
+      MT: [41.2, 44.1],
+      NC: [44.0, 48.7],
+      ND: [40.1, 46.9],
+      NE: [35.0, 53.7],
+      NH: [49.3, 39.4],
+      NJ: [53.7, 35.9],
+      NM: [49.2, 41.9],
+      NV: [43.9, 42.9],
+      NY: [59.5, 30.6],
+      OH: [47.4, 41.0],
+      OK: [40.4, 48.3],
+      OR: [47.2, 39.1],
+      PA: [49.2, 40.0],
+      RI: [59.7, 26.8],
+      SC: [44.0, 49.8],
+      SD: [43.0, 46.5],
+      TN: [48.0, 45.6],
+      TX: [43.8, 48.8],
+      UT: [33.3, 54.4],
+      VA: [45.1, 47.1],
+      VT: [53.4, 31.1],
+      WA: [49.8, 37.3],
+      WI: [48.8, 38.5],
+      WV: [51.5, 36.8],
+      WY: [36.8, 49.8],
+    },
+    districts: {
+      ME: [
+        [52.5, 31.0],
+        [50.6, 30.6],
+      ],
+      NE: [
+        [36.4, 52.4],
+        [37.8, 52.4],
+        [30.8, 56.3],
+      ],
+    },
+    faithlessElectors: [],
+  },
+  2000: {
+    democrat: "Al Gore",
+    republican: "George W. Bush",
+    democraticVotes: 50_999_897,
+    republicanVotes: 50_456_002,
+    states: {
+      AK: [27.7, 58.6],
+      AL: [41.6, 56.5],
+      AR: [45.9, 51.3],
+      AZ: [44.7, 51.0],
+      CA: [53.4, 41.7],
+      CO: [42.4, 50.8],
+      CT: [55.9, 38.4],
+      DC: [85.2, 9.0],
+      DE: [55.0, 41.9],
+      FL: [48.84, 48.85],
+      GA: [43.0, 54.7],
+      HI: [55.8, 37.5],
+      IA: [48.54, 48.22],
+      ID: [27.6, 67.2],
+      IL: [54.6, 42.6],
+      IN: [41.0, 56.6],
+      KS: [37.2, 58.0],
+      KY: [41.4, 56.5],
+      LA: [44.9, 52.6],
+      MA: [59.8, 32.5],
+      MD: [56.6, 40.2],
+      ME: [49.1, 44.0],
+      MI: [51.3, 46.1],
+      MN: [47.9, 45.5],
+      MO: [47.1, 50.4],
+      MS: [40.7, 57.6],
+      MT: [33.4, 58.4],
+      NC: [43.2, 56.0],
+      ND: [33.1, 60.7],
+      NE: [33.3, 62.2],
+      NH: [46.8, 48.1],
+      NJ: [56.1, 40.3],
+      NM: [47.91, 47.85],
+      NV: [46.0, 49.5],
+      NY: [60.2, 35.2],
+      OH: [46.5, 50.0],
+      OK: [38.4, 60.3],
+      OR: [47.0, 46.5],
+      PA: [50.6, 46.4],
+      RI: [61.0, 31.9],
+      SC: [40.9, 56.8],
+      SD: [37.6, 60.3],
+      TN: [47.3, 51.1],
+      TX: [38.0, 59.3],
+      UT: [26.3, 66.8],
+      VA: [44.4, 52.5],
+      VT: [50.6, 40.7],
+      WA: [50.2, 44.6],
+      WI: [47.83, 47.61],
+      WV: [45.6, 51.9],
+      WY: [27.7, 67.8],
+    },
+    districts: {
+      ME: [
+        [50.5, 42.6],
+        [47.4, 45.6],
+      ],
+      NE: [
+        [34.7, 60.4],
+        [38.0, 57.3],
+        [27.1, 68.8],
+      ],
+    },
+    faithlessElectors: [
+      { state: "DC", party: "D", count: 1, votedFor: "Abstained" },
+    ],
+  },
+  2004: {
+    democrat: "John Kerry",
+    republican: "George W. Bush",
+    democraticVotes: 59_028_444,
+    republicanVotes: 62_040_610,
+    states: {
+      AK: [35.5, 61.1],
+      AL: [36.8, 62.5],
+      AR: [44.5, 54.3],
+      AZ: [44.4, 54.9],
+      CA: [54.3, 44.4],
+      CO: [47.0, 51.7],
+      CT: [54.3, 44.0],
+      DC: [89.2, 9.3],
+      DE: [53.3, 45.8],
+      FL: [47.1, 52.1],
+      GA: [41.4, 58.0],
+      HI: [54.0, 45.3],
+      IA: [49.2, 49.9],
+      ID: [30.3, 68.4],
+      IL: [54.8, 44.5],
+      IN: [39.3, 59.9],
+      KS: [36.6, 62.0],
+      KY: [39.7, 59.6],
+      LA: [42.2, 56.7],
+      MA: [61.9, 36.8],
+      MD: [55.9, 42.9],
+      ME: [53.6, 44.6],
+      MI: [51.2, 47.8],
+      MN: [51.1, 47.6],
+      MO: [46.1, 53.3],
+      MS: [39.8, 59.4],
+      MT: [38.6, 59.1],
+      NC: [43.6, 56.0],
+      ND: [35.5, 62.9],
+      NE: [32.7, 65.9],
+      NH: [50.2, 48.9],
+      NJ: [52.9, 46.2],
+      NM: [49.0, 49.8],
+      NV: [47.9, 50.5],
+      NY: [58.4, 40.1],
+      OH: [48.7, 50.8],
+      OK: [34.4, 65.6],
+      OR: [51.4, 47.2],
+      PA: [50.9, 48.4],
+      RI: [59.4, 38.7],
+      SC: [40.9, 58.0],
+      SD: [38.4, 59.9],
+      TN: [42.5, 56.8],
+      TX: [38.2, 61.1],
+      UT: [26.0, 71.5],
+      VA: [45.5, 53.7],
+      VT: [58.9, 38.8],
+      WA: [52.8, 45.6],
+      WI: [49.7, 49.3],
+      WV: [43.2, 56.1],
+      WY: [29.1, 68.9],
+    },
+    districts: {
+      ME: [
+        [55.1, 43.1],
+        [51.9, 46.1],
+      ],
+      NE: [
+        [35.5, 63.1],
+        [38.2, 60.3],
+        [23.8, 74.9],
+      ],
+    },
+    faithlessElectors: [
+      { state: "MN", party: "D", count: 1, votedFor: "John Edwards" },
+    ],
+  },
+  2008: {
+    democrat: "Barack Obama",
+    republican: "John McCain",
+    democraticVotes: 69_498_516,
+    republicanVotes: 59_948_323,
+    states: {
+      AK: [37.9, 59.4],
+      AL: [38.7, 60.3],
+      AR: [38.9, 58.7],
+      AZ: [45.1, 53.6],
+      CA: [61.0, 37.0],
+      CO: [53.7, 44.7],
+      CT: [60.6, 38.2],
+      DC: [92.5, 6.5],
+      DE: [61.9, 37.0],
+      FL: [51.0, 48.2],
+      GA: [47.0, 52.2],
+      HI: [71.8, 26.6],
+      IA: [53.9, 44.4],
+      ID: [36.1, 61.5],
+      IL: [61.9, 36.8],
+      IN: [49.9, 48.9],
+      KS: [41.7, 56.6],
+      KY: [41.2, 57.4],
+      LA: [39.9, 58.6],
+      MA: [61.8, 36.0],
+      MD: [61.9, 36.5],
+      ME: [57.7, 40.4],
+      MI: [57.4, 41.0],
+      MN: [54.1, 43.8],
+      MO: [49.3, 49.4],
+      MS: [43.0, 56.2],
+      MT: [47.3, 49.5],
+      NC: [49.7, 49.4],
+      ND: [44.6, 53.3],
+      NE: [41.6, 56.5],
+      NH: [54.1, 44.5],
+      NJ: [57.3, 41.7],
+      NM: [56.9, 41.8],
+      NV: [55.2, 42.7],
+      NY: [62.9, 36.0],
+      OH: [51.5, 46.9],
+      OK: [34.4, 65.6],
+      OR: [56.7, 40.4],
+      PA: [54.5, 44.2],
+      RI: [62.9, 35.1],
+      SC: [44.9, 53.9],
+      SD: [44.8, 53.2],
+      TN: [41.8, 56.9],
+      TX: [43.7, 55.5],
+      UT: [34.4, 62.6],
+      VA: [52.6, 46.3],
+      VT: [67.5, 30.5],
+      WA: [57.7, 40.5],
+      WI: [56.2, 42.3],
+      WV: [42.6, 55.7],
+      WY: [32.5, 64.8],
+    },
+    districts: {
+      ME: [
+        [60.5, 37.6],
+        [54.6, 43.4],
+      ],
+      NE: [
+        [44.3, 54.1],
+        [50.0, 48.8],
+        [29.6, 68.6],
+      ],
+    },
+    faithlessElectors: [],
+  },
+  2012: {
+    democrat: "Barack Obama",
+    republican: "Mitt Romney",
+    democraticVotes: 65_915_795,
+    republicanVotes: 60_933_504,
+    states: {
+      AK: [40.8, 54.8],
+      AL: [38.4, 60.6],
+      AR: [36.9, 60.6],
+      AZ: [44.6, 53.7],
+      CA: [60.2, 37.1],
+      CO: [51.5, 46.1],
+      CT: [58.1, 40.7],
+      DC: [90.9, 7.3],
+      DE: [58.6, 40.0],
+      FL: [50.0, 49.1],
+      GA: [45.5, 53.3],
+      HI: [70.6, 27.8],
+      IA: [52.0, 46.2],
+      ID: [32.6, 64.5],
+      IL: [57.6, 40.7],
+      IN: [43.9, 54.1],
+      KS: [38.0, 59.7],
+      KY: [37.8, 60.5],
+      LA: [40.6, 57.8],
+      MA: [60.7, 37.5],
+      MD: [62.0, 35.9],
+      ME: [56.3, 41.0],
+      MI: [54.2, 44.7],
+      MN: [52.7, 45.0],
+      MO: [44.4, 53.8],
+      MS: [43.8, 55.3],
+      MT: [41.7, 55.4],
+      NC: [48.4, 50.4],
+      ND: [38.7, 58.3],
+      NE: [38.0, 59.8],
+      NH: [52.0, 46.4],
+      NJ: [58.4, 40.6],
+      NM: [53.0, 42.8],
+      NV: [52.4, 45.7],
+      NY: [63.4, 35.2],
+      OH: [50.7, 47.7],
+      OK: [33.2, 66.8],
+      OR: [54.2, 42.2],
+      PA: [52.0, 46.6],
+      RI: [62.7, 35.2],
+      SC: [44.1, 54.6],
+      SD: [39.9, 57.9],
+      TN: [39.1, 59.5],
+      TX: [41.4, 57.2],
+      UT: [24.8, 72.8],
+      VA: [51.2, 47.3],
+      VT: [66.6, 31.0],
+      WA: [56.2, 41.3],
+      WI: [52.8, 45.9],
+      WV: [35.5, 62.3],
+      WY: [27.8, 68.6],
+    },
+    districts: {
+      ME: [
+        [59.6, 37.9],
+        [52.9, 44.4],
+      ],
+      NE: [
+        [40.8, 57.4],
+        [45.7, 52.9],
+        [27.9, 70.0],
+      ],
+    },
+    faithlessElectors: [],
+  },
+  2016: {
+    democrat: "Hillary Clinton",
+    republican: "Donald Trump",
+    democraticVotes: 65_853_514,
+    republicanVotes: 62_984_828,
+    states: {
+      AK: [36.6, 51.3],
+      AL: [34.4, 62.1],
+      AR: [33.7, 60.6],
+      AZ: [45.1, 48.7],
+      CA: [61.7, 31.6],
+      CO: [48.2, 43.3],
+      CT: [54.6, 40.9],
+      DC: [90.9, 4.1],
+      DE: [53.4, 41.9],
+      FL: [47.8, 49.0],
+      GA: [45.6, 50.8],
+      HI: [62.2, 30.0],
+      IA: [41.7, 51.1],
+      ID: [27.5, 59.3],
+      IL: [55.8, 38.8],
+      IN: [37.9, 56.8],
+      KS: [36.1, 56.7],
+      KY: [32.7, 62.5],
+      LA: [38.4, 58.1],
+      MA: [60.0, 32.8],
+      MD: [60.3, 33.9],
+      ME: [47.8, 44.9],
+      MI: [47.3, 47.5],
+      MN: [46.4, 44.9],
+      MO: [38.1, 56.8],
+      MS: [40.1, 57.9],
+      MT: [35.8, 56.2],
+      NC: [46.2, 49.8],
+      ND: [27.2, 63.0],
+      NE: [33.7, 58.7],
+      NH: [47.0, 46.6],
+      NJ: [55.5, 41.4],
+      NM: [48.3, 40.0],
+      NV: [47.9, 45.5],
+      NY: [59.0, 36.5],
+      OH: [43.6, 51.7],
+      OK: [28.9, 65.3],
+      OR: [50.1, 39.1],
+      PA: [47.5, 48.2],
+      RI: [54.4, 38.9],
+      SC: [40.7, 54.9],
+      SD: [31.7, 61.5],
+      TN: [34.7, 60.7],
+      TX: [43.2, 52.2],
+      UT: [27.5, 45.5],
+      VA: [49.8, 44.4],
+      VT: [56.7, 30.3],
+      WA: [52.5, 36.8],
+      WI: [46.5, 47.2],
+      WV: [26.5, 68.5],
+      WY: [21.6, 68.2],
+    },
+    districts: {
+      ME: [
+        [54.0, 39.1],
+        [41.0, 51.3],
+      ],
+      NE: [
+        [35.5, 56.2],
+        [44.9, 47.2],
+        [19.7, 73.9],
+      ],
+    },
+    faithlessElectors: [
+      { state: "HI", party: "D", count: 1, votedFor: "Bernie Sanders" },
+      { state: "TX", party: "R", count: 2, votedFor: "John Kasich, Ron Paul" },
+      { state: "WA", party: "D", count: 4, votedFor: "Colin Powell, Faith Spotted Eagle" },
+    ],
+  },
+  2020: {
+    democrat: "Joe Biden",
+    republican: "Donald Trump",
+    democraticVotes: 81_283_501,
+    republicanVotes: 74_223_975,
+    states: {
+      AK: [42.8, 52.8],
+      AL: [36.6, 62.0],
+      AR: [34.8, 62.4],
+      AZ: [49.4, 49.1],
+      CA: [63.5, 34.3],
+      CO: [55.4, 41.9],
+      CT: [59.3, 39.2],
+      DC: [92.1, 5.4],
+      DE: [58.7, 39.8],
+      FL: [47.9, 51.2],
+      GA: [49.5, 49.2],
+      HI: [63.7, 34.3],
+      IA: [44.9, 53.1],
+      ID: [33.1, 63.8],
+      IL: [57.5, 40.6],
+      IN: [41.0, 57.0],
+      KS: [41.6, 56.2],
+      KY: [36.2, 62.1],
+      LA: [39.9, 58.5],
+      MA: [65.6, 32.1],
+      MD: [65.4, 32.2],
+      ME: [53.1, 44.0],
+      MI: [50.6, 47.8],
+      MN: [52.4, 45.3],
+      MO: [41.4, 56.8],
+      MS: [41.1, 57.6],
+      MT: [40.5, 56.9],
+      NC: [48.6, 49.9],
+      ND: [31.8, 65.1],
+      NE: [39.2, 58.2],
+      NH: [52.7, 45.4],
+      NJ: [57.3, 41.4],
+      NM: [54.3, 43.5],
+      NV: [50.1, 47.7],
+      NY: [60.9, 37.7],
+      OH: [45.2, 53.3],
+      OK: [32.3, 65.4],
+      OR: [56.5, 40.4],
+      PA: [50.0, 48.8],
+      RI: [59.4, 38.6],
+      SC: [43.4, 55.1],
+      SD: [35.6, 61.8],
+      TN: [37.5, 60.7],
+      TX: [46.5, 52.1],
+      UT: [37.6, 58.1],
+      VA: [54.1, 44.0],
+      VT: [66.1, 30.7],
+      WA: [58.0, 38.8],
+      WI: [49.4, 48.8],
+      WV: [29.7, 68.6],
+      WY: [26.6, 69.9],
+    },
+    districts: {
+      ME: [
+        [60.1, 37.0],
+        [44.8, 52.3],
+      ],
+      NE: [
+        [41.1, 56.0],
+        [52.0, 45.5],
+        [22.5, 75.4],
+      ],
+    },
+    faithlessElectors: [],
+  },
+  2024: {
+    democrat: "Kamala Harris",
+    republican: "Donald Trump",
+    democraticVotes: 75_017_613,
+    republicanVotes: 77_303_573,
+    states: {
+      AK: [41.4, 54.5],
+      AL: [34.1, 64.6],
+      AR: [33.6, 64.2],
+      AZ: [46.7, 52.2],
+      CA: [58.5, 38.3],
+      CO: [54.2, 43.1],
+      CT: [56.4, 41.9],
+      DC: [90.3, 6.5],
+      DE: [56.6, 41.8],
+      FL: [43.0, 56.1],
+      GA: [48.5, 50.7],
+      HI: [60.6, 37.5],
+      IA: [42.5, 55.7],
+      ID: [30.4, 66.9],
+      IL: [54.4, 43.5],
+      IN: [39.6, 58.6],
+      KS: [41.0, 57.2],
+      KY: [33.9, 64.5],
+      LA: [38.2, 60.2],
+      MA: [61.2, 36.0],
+      MD: [62.6, 34.1],
+      ME: [52.4, 45.5],
+      MI: [48.3, 49.7],
+      MN: [50.9, 46.7],
+      MO: [40.1, 58.5],
+      MS: [38.0, 60.9],
+      MT: [38.5, 58.4],
+      NC: [47.7, 50.9],
+      ND: [30.5, 67.0],
+      NE: [38.9, 59.3],
+      NH: [50.7, 47.9],
+      NJ: [52.0, 46.1],
+      NM: [51.9, 45.9],
+      NV: [47.5, 50.6],
+      NY: [55.9, 43.3],
+      OH: [43.9, 55.1],
+      OK: [31.9, 66.2],
+      OR: [55.3, 41.0],
+      PA: [48.7, 50.4],
+      RI: [55.5, 41.8],
+      SC: [40.4, 58.2],
+      SD: [34.2, 63.4],
+      TN: [34.5, 64.2],
+      TX: [42.5, 56.1],
+      UT: [37.8, 59.4],
+      VA: [51.8, 46.1],
+      VT: [63.8, 32.3],
+      WA: [57.2, 39.0],
+      WI: [48.7, 49.6],
+      WV: [28.1, 70.0],
+      WY: [25.8, 71.6],
+    },
+    districts: {
+      ME: [
+        [60.2, 37.8],
+        [44.4, 53.1],
+      ],
+      NE: [
+        [42.1, 56.0],
+        [51.3, 47.0],
+        [22.2, 76.6],
+      ],
+    },
+    faithlessElectors: [],
+  },
+} satisfies Record<number, PresidentialResult>;
@@ -1,6 +1,13 @@
 import { describe, expect, it } from "vitest";
 import populations from "../data/populations.json";
-import { apportion } from "./apportionment";
+import {
+  apportion,
+  APPORTIONMENT_METHODS,
+  computePriorityList,
+  computeSeatMargins,
+  sweepApportionment,
+  type ApportionmentMethod,
+} from "./apportionment";
 import type { StatePopulation } from "./metrics";
 
 describe("apportionment", () => {
@@ -32,4 +39,100 @@ describe("apportionment", () => {
     expect(seats.FL).toBe(28);
     expect(seats.NY).toBe(26);
   });
+
+  it.each(APPORTIONMENT_METHODS)(
+    "allocates every seat with at least one per state (%s)",
+    (method) => {
+      const seats = apportion(populationsByState, 600, method);
+      const total = Object.values(seats).reduce((acc, value) => acc + value, 0);
+      expect(total).toBe(600);
+      Object.values(seats).forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(1);
+      });
+    }
+  );
+
+  it("orders large-state favoritism Jefferson > Huntington–Hill > Adams", () => {
+    const jefferson = apportion(populationsByState, 435, "jefferson");
+    const huntingtonHill = apportion(populationsByState, 435, "huntingtonHill");
+    const adams = apportion(populationsByState, 435, "adams");
+    expect(jefferson.CA).toBeGreaterThan(huntingtonHill.CA);
+    expect(huntingtonHill.CA).toBeGreaterThan(adams.CA);
+  });
+
+  it("keeps Hamilton within each state's quota bounds", () => {
+    const totalPopulation = Object.values(populationsByState).reduce(
+      (acc, value) => acc + value,
+      0
+    );
+    const seats = apportion(populationsByState, 435, "hamilton");
+    Object.entries(populationsByState).forEach(([state, population]) => {
+      const quota = (population * 435) / totalPopulation;
+      expect(seats[state]).toBeGreaterThanOrEqual(Math.max(1, Math.floor(quota)));
+      expect(seats[state]).toBeLessThanOrEqual(Math.max(1, Math.ceil(quota)));
+    });
+  });
+
+  it("builds a priority list from seat 51 that reproduces the allocation", () => {
+    const list = computePriorityList(populationsByState, 440);
+    expect(list[0]).toMatchObject({ seat: 51, state: "CA", seats: 2 });
+    expect(list).toHaveLength(440 - 50);
+
+    const seats = apportion(populationsByState, 435);
+    list
+      .filter((entry) => entry.seat <= 435)
+      .forEach((entry) => {
+        expect(entry.seats).toBeLessThanOrEqual(seats[entry.state]);
+      });
+    expect(list.find((entry) => entry.seat === 435)?.state).toBe("MN");
+    expect(list.find((entry) => entry.seat === 436)?.state).toBe("NY");
+    const last = list.find((entry) => entry.seat === 435);
+    expect(last?.seats).toBe(seats[last?.state ?? ""]);
+    for (let i = 1; i < list.length; i += 1) {
+      expect(list[i].priority).toBeLessThanOrEqual(list[i - 1].priority);
+    }
+  });
+
+  it("sweeps every Huntington–Hill House size from 435 to 1200 in one pass", () => {
+    const sweep = sweepApportionment(populationsByState, 435, 1200);
+    for (let houseSize = 435; houseSize <= 1200; houseSize += 1) {
+      expect(sweep.seatsAt(houseSize)).toEqual(apportion(populationsByState, houseSize));
+    }
+    expect(sweep.priorityList).toHaveLength(1200 - 50);
+  });
+
+  it.each(["webster", "hamilton"] as ApportionmentMethod[])(
+    "sweeps %s allocations that match apportion",
+    (method) => {
+      const sweep = sweepApportionment(populationsByState, 435, 460, method);
+      [435, 447, 460].forEach((houseSize) => {
+        expect(sweep.seatsAt(houseSize)).toEqual(
+          apportion(populationsByState, houseSize, method)
+        );
+      });
+    }
+  );
+
+  it("rejects House sizes outside the sweep range", () => {
+    const sweep = sweepApportionment(populationsByState, 435, 440);
+    expect(() => sweep.seatsAt(434)).toThrow(/outside the sweep range/);
+    expect(() => sweep.seatsAt(441)).toThrow(/outside the sweep range/);
+  });
+
+  it("reproduces the 2020 margins: New York short by 89, Minnesota safe by 25", () => {
+    const official: Record<string, number> = {};
+    stateData
+      .filter((state) => state.abbr !== "DC")
+      .forEach((state) => {
+        official[state.abbr] = state.bases?.withOverseas ?? state.population;
+      });
+    const seats = apportion(official, 435);
+    const margins = computeSeatMargins(official, seats);
+    expect(margins.NY.toGain).toBe(89);
+    expect(margins.MN.toLose).toBe(25);
+    expect(margins.WY.toLose).toBeNull();
+
+    official.NY += 89;
+    expect(apportion(official, 435)).toMatchObject({ NY: 27, MN: 7 });
+  });
 });
@@ -2,11 +2,54 @@ export type PopulationByState = Record<string, number>;
 
 export type SeatAllocation = Record<string, number>;
 
+export type DivisorMethod =
+  | "huntingtonHill"
+  | "webster"
+  | "jefferson"
+  | "adams"
+  | "dean";
+
+export type ApportionmentMethod = DivisorMethod | "hamilton";
+
+export const DEFAULT_APPORTIONMENT_METHOD: ApportionmentMethod = "huntingtonHill";
+
+export const APPORTIONMENT_METHODS: ApportionmentMethod[] = [
+  "huntingtonHill",
+  "webster",
+  "jefferson",
+  "adams",
+  "dean",
+  "hamilton",
+];
+
 export type PriorityEntry = {
   state: string;
   priority: number;
 };
 
+export type PriorityListEntry = {
+  seat: number;
+  state: string;
+  priority: number;
+  seats: number;
+};
+
+export type SeatMargin = {
+  // People the state would need to add to win its next seat.
+  toGain: number;
+  // People the state could lose and still keep its last seat; null when that
+  // seat is guaranteed by the per-state minimum.
+  toLose: number | null;
+};
+
+export type ApportionmentSweep = {
+  minSeats: number;
+  maxSeats: number;
+  // Every divisor-method award through `maxSeats`; empty for Hamilton.
+  priorityList: PriorityListEntry[];
+  seatsAt: (totalSeats: number) => SeatAllocation;
+};
+
 const compareEntries = (a: PriorityEntry, b: PriorityEntry) => {
   if (a.priority === b.priority) {
     return b.state.localeCompare(a.state);
@@ -76,27 +119,75 @@ class MaxHeap {
   }
 }
 
-export const computePriority = (population: number, seats: number) =>
-  population / Math.sqrt(seats * (seats + 1));
+export const apportionmentMethodLabel = (method: ApportionmentMethod) => {
+  if (method === "webster") return "Webster / Sainte-Laguë";
+  if (method === "jefferson") return "Jefferson / D'Hondt";
+  if (method === "adams") return "Adams";
+  if (method === "dean") return "Dean (harmonic mean)";
+  if (method === "hamilton") return "Hamilton / Vinton";
+  return "Huntington–Hill";
+};
 
-export const apportion = (
-  populationsByState: PopulationByState,
-  totalSeats: number
-): SeatAllocation => {
-  const states = Object.keys(populationsByState);
+export const isDivisorMethod = (
+  method: ApportionmentMethod
+): method is DivisorMethod => method !== "hamilton";
+
+// Divisor applied to a state's population when it holds `seats` and is
+// competing for seat `seats + 1`. Every state starts with at least one seat,
+// so Adams never sees a zero divisor.
+const divisorFor = (method: DivisorMethod, seats: number) => {
+  if (method === "webster") return seats + 0.5;
+  if (method === "jefferson") return seats + 1;
+  if (method === "adams") return seats;
+  if (method === "dean") return (seats * (seats + 1)) / (seats + 0.5);
+  return Math.sqrt(seats * (seats + 1));
+};
+
+export const computePriority = (
+  population: number,
+  seats: number,
+  method: DivisorMethod = "huntingtonHill"
+) => population / divisorFor(method, seats);
+
+const initialSeats = (
+  states: string[],
+  totalSeats: number,
+  minSeatsPerState: number
+) => {
+  if (totalSeats < states.length * minSeatsPerState) {
+    throw new Error(
+      "Total seats must cover the minimum seats for every state."
+    );
+  }
   const seats: SeatAllocation = {};
   states.forEach((state) => {
-    seats[state] = 1;
+    seats[state] = minSeatsPerState;
   });
+  return seats;
+};
 
-  const remaining = totalSeats - states.length;
-  if (remaining < 0) {
-    throw new Error("Total seats must be at least the number of states.");
-  }
+// Census-style priority list: every seat after the guaranteed minimum for
+// each state, in award order, with the priority value that won it and the
+// state's seat count after the award.
+export const computePriorityList = (
+  populationsByState: PopulationByState,
+  throughSeat: number,
+  method: DivisorMethod = "huntingtonHill",
+  minSeatsPerState = 1
+): PriorityListEntry[] => {
+  const states = Object.keys(populationsByState);
+  const seats = initialSeats(states, throughSeat, minSeatsPerState);
+  const guaranteed = states.length * minSeatsPerState;
+  const remaining = throughSeat - guaranteed;
+  const list: PriorityListEntry[] = [];
 
   const heap = new MaxHeap();
   states.forEach((state) => {
-    const priority = computePriority(populationsByState[state], seats[state]);
+    const priority = computePriority(
+      populationsByState[state],
+      seats[state],
+      method
+    );
     heap.push({ state, priority });
   });
 
@@ -104,12 +195,218 @@ export const apportion = (
     const entry = heap.pop();
     if (!entry) break;
     seats[entry.state] += 1;
+    list.push({
+      seat: guaranteed + i + 1,
+      state: entry.state,
+      priority: entry.priority,
+      seats: seats[entry.state],
+    });
     const nextPriority = computePriority(
       populationsByState[entry.state],
-      seats[entry.state]
+      seats[entry.state],
+      method
     );
     heap.push({ state: entry.state, priority: nextPriority });
   }
 
+  return list;
+};
+
+// Seat margins at a fixed House size, holding every other state fixed. A
+// state gains a seat once its next priority beats the weakest seat held by
+// another state, and keeps its last seat while that seat's priority beats
+// the strongest unseated claim from another state.
+export const computeSeatMargins = (
+  populationsByState: PopulationByState,
+  seatsByState: SeatAllocation,
+  method: DivisorMethod = "huntingtonHill",
+  minSeatsPerState = 1
+): Record<string, SeatMargin> => {
+  const states = Object.keys(populationsByState);
+  const lastWon: Record<string, number> = {};
+  const nextUp: Record<string, number> = {};
+  states.forEach((state) => {
+    const seats = seatsByState[state];
+    lastWon[state] =
+      seats > minSeatsPerState
+        ? computePriority(populationsByState[state], seats - 1, method)
+        : Number.POSITIVE_INFINITY;
+    nextUp[state] = computePriority(populationsByState[state], seats, method);
+  });
+
+  const margins: Record<string, SeatMargin> = {};
+  states.forEach((state) => {
+    const population = populationsByState[state];
+    const seats = seatsByState[state];
+    let weakestHeld = Number.POSITIVE_INFINITY;
+    let strongestUnseated = 0;
+    states.forEach((other) => {
+      if (other === state) return;
+      weakestHeld = Math.min(weakestHeld, lastWon[other]);
+      strongestUnseated = Math.max(strongestUnseated, nextUp[other]);
+    });
+
+    margins[state] = {
+      toGain:
+        Math.floor(weakestHeld * divisorFor(method, seats)) + 1 - population,
+      toLose:
+        seats > minSeatsPerState
+          ? population -
+            (Math.floor(strongestUnseated * divisorFor(method, seats - 1)) + 1)
+          : null,
+    };
+  });
+
+  return margins;
+};
+
+const divisorApportion = (
+  populationsByState: PopulationByState,
+  totalSeats: number,
+  method: DivisorMethod,
+  minSeatsPerState: number
+): SeatAllocation => {
+  const seats = initialSeats(
+    Object.keys(populationsByState),
+    totalSeats,
+    minSeatsPerState
+  );
+  computePriorityList(
+    populationsByState,
+    totalSeats,
+    method,
+    minSeatsPerState
+  ).forEach((entry) => {
+    seats[entry.state] = entry.seats;
+  });
+  return seats;
+};
+
+// Hamilton/Vinton: floor each standard quota, then hand out the leftover
+// seats by largest fractional remainder. States whose quota falls below the
+// per-state minimum are pinned there and the quotas of the rest are
+// recomputed against the seats that remain.
+const hamiltonApportion = (
+  populationsByState: PopulationByState,
+  totalSeats: number,
+  minSeatsPerState: number
+): SeatAllocation => {
+  const states = Object.keys(populationsByState);
+  const seats = initialSeats(states, totalSeats, minSeatsPerState);
+
+  let pool = [...states];
+  let poolSeats = totalSeats;
+  while (pool.length > 0) {
+    const poolPopulation = pool.reduce(
+      (sum, state) => sum + populationsByState[state],
+      0
+    );
+    const pinned = pool.filter(
+      (state) =>
+        (populationsByState[state] * poolSeats) / poolPopulation < minSeatsPerState
+    );
+    if (pinned.length === 0) break;
+    poolSeats -= pinned.length * minSeatsPerState;
+    pool = pool.filter((state) => !pinned.includes(state));
+  }
+  if (pool.length === 0) return seats;
+
+  const poolPopulation = pool.reduce(
+    (sum, state) => sum + populationsByState[state],
+    0
+  );
+  const quotas = pool.map((state) => {
+    const quota = (populationsByState[state] * poolSeats) / poolPopulation;
+    return { state, base: Math.floor(quota), remainder: quota - Math.floor(quota) };
+  });
+
+  let allocated = 0;
+  quotas.forEach((entry) => {
+    seats[entry.state] = entry.base;
+    allocated += entry.base;
+  });
+
+  quotas
+    .sort((a, b) => {
+      if (a.remainder === b.remainder) return a.state.localeCompare(b.state);
+      return b.remainder - a.remainder;
+    })
+    .slice(0, poolSeats - allocated)
+    .forEach((entry) => {
+      seats[entry.state] += 1;
+    });
+
   return seats;
 };
+
+export const apportion = (
+  populationsByState: PopulationByState,
+  totalSeats: number,
+  method: ApportionmentMethod = DEFAULT_APPORTIONMENT_METHOD,
+  minSeatsPerState = 1
+): SeatAllocation => {
+  if (method === "hamilton") {
+    return hamiltonApportion(populationsByState, totalSeats, minSeatsPerState);
+  }
+  return divisorApportion(populationsByState, totalSeats, method, minSeatsPerState);
+};
+
+// Seat counts for every House size from `minSeats` to `maxSeats`. Divisor
+// methods are house-monotone, so one priority-list pass through `maxSeats`
+// yields every allocation in the range. Hamilton is not, and is apportioned
+// size by size.
+export const sweepApportionment = (
+  populationsByState: PopulationByState,
+  minSeats: number,
+  maxSeats: number,
+  method: ApportionmentMethod = DEFAULT_APPORTIONMENT_METHOD,
+  minSeatsPerState = 1
+): ApportionmentSweep => {
+  const states = Object.keys(populationsByState);
+  initialSeats(states, minSeats, minSeatsPerState);
+  const rows: number[][] = [];
+  let priorityList: PriorityListEntry[] = [];
+
+  if (method === "hamilton") {
+    for (let houseSize = minSeats; houseSize <= maxSeats; houseSize += 1) {
+      const seats = hamiltonApportion(populationsByState, houseSize, minSeatsPerState);
+      rows.push(states.map((state) => seats[state]));
+    }
+  } else {
+    priorityList = computePriorityList(
+      populationsByState,
+      maxSeats,
+      method,
+      minSeatsPerState
+    );
+    const indexByState: Record<string, number> = {};
+    states.forEach((state, index) => {
+      indexByState[state] = index;
+    });
+    const current = states.map(() => minSeatsPerState);
+    let next = 0;
+    for (let houseSize = minSeats; houseSize <= maxSeats; houseSize += 1) {
+      while (next < priorityList.length && priorityList[next].seat <= houseSize) {
+        current[indexByState[priorityList[next].state]] = priorityList[next].seats;
+        next += 1;
+      }
+      rows.push([...current]);
+    }
+  }
+
+  const seatsAt = (totalSeats: number): SeatAllocation => {
+    const row = rows[totalSeats - minSeats];
+    if (!Number.isInteger(totalSeats) || !row) {
+      throw new Error(
+        `House size ${totalSeats} is outside the sweep range ${minSeats}-${maxSeats}.`
+      );
+    }
+    const seats: SeatAllocation = {};
+    states.forEach((state, index) => {
+      seats[state] = row[index];
+    });
+    return seats;
+  };
+
+  return { minSeats, maxSeats, priorityList, seatsAt };
+};
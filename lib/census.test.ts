@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import populations from "../data/populations.json";
+import { apportion } from "./apportionment";
+import {
+  CENSUS_YEARS,
+  describeEnactedSeats,
+  getCensusDataset,
+  reconstructEnactedSeats,
+} from "./census";
+import type { StatePopulation } from "./metrics";
+
+const populationsFor = (year: number) => {
+  const dataset = getCensusDataset(year);
+  const byState: Record<string, number> = {};
+  dataset.states
+    .filter((state) => state.abbr !== "DC")
+    .forEach((state) => {
+      byState[state.abbr] = state.population;
+    });
+  return { dataset, byState };
+};
+
+describe("census datasets", () => {
+  it("covers every census from 1790 to 2020", () => {
+    expect(CENSUS_YEARS[0]).toBe(1790);
+    expect(CENSUS_YEARS[CENSUS_YEARS.length - 1]).toBe(2020);
+    expect(CENSUS_YEARS).toHaveLength(24);
+  });
+
+  it.each(CENSUS_YEARS)("enacted seats for %i sum to the House size", (year) => {
+    const { dataset } = populationsFor(year);
+    const total = Object.values(dataset.enactedSeats).reduce(
+      (acc, value) => acc + value,
+      0
+    );
+    expect(total).toBe(dataset.houseSize);
+  });
+
+  it.each(CENSUS_YEARS.filter((year) => year >= 1940))(
+    "reproduces the full %i Huntington–Hill apportionment",
+    (year) => {
+      const { dataset, byState } = populationsFor(year);
+      expect(dataset.method).toBe("huntingtonHill");
+      expect(apportion(byState, dataset.houseSize)).toEqual(dataset.enactedSeats);
+    }
+  );
+
+  // These censuses still carry resident totals rather than the official
+  // apportionment populations, and the reconstruction misses these states.
+  // Each entry goes once its census gets the official counts.
+  const residentTotalGaps: Record<number, Record<string, number>> = {
+    1890: { MN: 8, VA: 9 },
+    1900: { ME: 3, NE: 5, NY: 38, PA: 33 },
+    1930: { AZ: 2, IN: 11, LA: 7, NM: 2 },
+  };
+
+  it.each(CENSUS_YEARS)("reconstructs every state's enacted %i seats", (year) => {
+    const dataset = getCensusDataset(year);
+    const gaps = residentTotalGaps[year] ?? {};
+    expect(dataset.residentTotals).toBe(year in residentTotalGaps);
+    expect(reconstructEnactedSeats(dataset)).toEqual({
+      ...dataset.enactedSeats,
+      ...gaps,
+    });
+  });
+
+  it("adds statutory seats on top of the method's run", () => {
+    const dataset = getCensusDataset(1860);
+    expect(dataset.apportionedSeats).toBe(233);
+    expect(
+      Object.values(dataset.addedSeats).reduce((acc, value) => acc + value, 0)
+    ).toBe(dataset.houseSize - dataset.apportionedSeats);
+    expect(describeEnactedSeats(getCensusDataset(1920))).toContain(
+      "the 1910 seats stayed in force"
+    );
+  });
+
+  it("keeps the 2020 dataset in step with populations.json", () => {
+    const { dataset } = populationsFor(2020);
+    expect(dataset.states).toEqual(populations as StatePopulation[]);
+  });
+});
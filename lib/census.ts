@@ -0,0 +1,157 @@
+import populations from "@/data/populations.json";
+import { censusApportionmentsByYear } from "@/data/censusApportionments";
+import {
+  apportion,
+  apportionmentMethodLabel,
+  type ApportionmentMethod,
+  type PopulationByState,
+  type SeatAllocation,
+} from "@/lib/apportionment";
+import type { StatePopulation } from "@/lib/metrics";
+
+export type CensusDataset = {
+  year: number;
+  houseSize: number;
+  method: ApportionmentMethod;
+  apportionedSeats: number;
+  addedSeats: SeatAllocation;
+  admittedSeats: SeatAllocation;
+  seatsFromYear: number | null;
+  residentTotals: boolean;
+  states: StatePopulation[];
+  enactedSeats: SeatAllocation;
+};
+
+export const CENSUS_YEARS = Object.keys(censusApportionmentsByYear)
+  .map(Number)
+  .sort((a, b) => a - b);
+
+export const DEFAULT_CENSUS_YEAR = 2020;
+
+export const isCensusYear = (year: number) => CENSUS_YEARS.includes(year);
+
+const currentStates = populations as StatePopulation[];
+
+export const getCensusDataset = (year: number): CensusDataset => {
+  const record = censusApportionmentsByYear[year];
+  if (!record) {
+    throw new Error(`No census dataset for ${year}.`);
+  }
+
+  const states: StatePopulation[] = [];
+  const enactedSeats: SeatAllocation = {};
+  currentStates.forEach((state) => {
+    const entry = record.states[state.abbr];
+    if (!entry) return;
+    const [population, seats] = entry;
+    // Alternative bases in populations.json only describe the latest census.
+    const { bases, ...rest } = state;
+    states.push(
+      year === DEFAULT_CENSUS_YEAR && bases
+        ? { ...rest, population, bases }
+        : { ...rest, population }
+    );
+    if (state.abbr !== "DC") {
+      enactedSeats[state.abbr] = seats;
+    }
+  });
+
+  return {
+    year,
+    houseSize: record.houseSize,
+    method: record.method,
+    apportionedSeats: record.apportionedSeats ?? record.houseSize,
+    addedSeats: record.addedSeats ?? {},
+    admittedSeats: record.admittedSeats ?? {},
+    seatsFromYear: record.seatsFromYear ?? null,
+    residentTotals: record.residentTotals ?? false,
+    states,
+    enactedSeats,
+  };
+};
+
+export const previousCensusYear = (year: number) => {
+  const index = CENSUS_YEARS.indexOf(year);
+  return index > 0 ? CENSUS_YEARS[index - 1] : null;
+};
+
+// The Vinton acts as written: states whose quota falls short of one seat get
+// one, and the leftover seats go to the largest remainders of the rest
+// without recomputing their quotas.
+const vintonApportion = (populationsByState: PopulationByState, totalSeats: number) => {
+  const states = Object.keys(populationsByState);
+  const totalPopulation = states.reduce(
+    (sum, state) => sum + populationsByState[state],
+    0
+  );
+  const seats: SeatAllocation = {};
+  const remainders: { state: string; remainder: number }[] = [];
+  let allocated = 0;
+  states.forEach((state) => {
+    const quota = (populationsByState[state] * totalSeats) / totalPopulation;
+    seats[state] = Math.max(1, Math.floor(quota));
+    allocated += seats[state];
+    if (quota >= 1) {
+      remainders.push({ state, remainder: quota - Math.floor(quota) });
+    }
+  });
+  remainders
+    .sort((a, b) => b.remainder - a.remainder || a.state.localeCompare(b.state))
+    .slice(0, totalSeats - allocated)
+    .forEach(({ state }) => {
+      seats[state] += 1;
+    });
+  return seats;
+};
+
+// Rebuilds the enacted table from the census populations: the method's run
+// at the apportioned size, plus seats added by statute.
+export const reconstructEnactedSeats = (dataset: CensusDataset): SeatAllocation => {
+  if (dataset.seatsFromYear !== null) {
+    return reconstructEnactedSeats(getCensusDataset(dataset.seatsFromYear));
+  }
+  const populationsByState: PopulationByState = {};
+  dataset.states.forEach((state) => {
+    if (state.abbr !== "DC" && !(state.abbr in dataset.admittedSeats)) {
+      populationsByState[state.abbr] = state.population;
+    }
+  });
+  const seats =
+    dataset.method === "hamilton"
+      ? vintonApportion(populationsByState, dataset.apportionedSeats)
+      : apportion(populationsByState, dataset.apportionedSeats, dataset.method);
+  [dataset.addedSeats, dataset.admittedSeats].forEach((extra) => {
+    Object.entries(extra).forEach(([state, count]) => {
+      seats[state] = (seats[state] ?? 0) + count;
+    });
+  });
+  return seats;
+};
+
+const formatSeatList = (seats: SeatAllocation) =>
+  Object.keys(seats)
+    .sort()
+    .map((state) => (seats[state] === 1 ? state : `${state} +${seats[state]}`))
+    .join(", ");
+
+export const describeEnactedSeats = (dataset: CensusDataset) => {
+  if (dataset.seatsFromYear !== null) {
+    return `Congress did not reapportion after the ${dataset.year} census; the ${dataset.seatsFromYear} seats stayed in force.`;
+  }
+  const method = apportionmentMethodLabel(dataset.method);
+  const parts = [
+    dataset.apportionedSeats === dataset.houseSize
+      ? `Enacted House: ${dataset.houseSize} seats by ${method}.`
+      : `Enacted House: ${dataset.houseSize} seats, ${dataset.apportionedSeats} by ${method}.`,
+  ];
+  if (Object.keys(dataset.addedSeats).length > 0) {
+    parts.push(`Statute added seats for ${formatSeatList(dataset.addedSeats)}.`);
+  }
+  if (Object.keys(dataset.admittedSeats).length > 0) {
+    parts.push(`${formatSeatList(dataset.admittedSeats)} seated on admission.`);
+  }
+  if (dataset.residentTotals) {
+    parts.push("Populations are resident totals, not the apportionment base.");
+  }
+  return parts.join(" ");
+};
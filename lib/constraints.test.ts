@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import populations from "../data/populations.json";
+import { apportion, sweepApportionment } from "./apportionment";
+import { getCensusDataset } from "./census";
+import {
+  buildHouseSizeFeasibility,
+  computeHouseSizeBounds,
+  DEFAULT_HOUSE_CONSTRAINTS,
+  parseHouseConstraints,
+  writeHouseConstraints,
+  type HouseConstraints,
+} from "./constraints";
+import type { StatePopulation } from "./metrics";
+
+const byState: Record<string, number> = {};
+(populations as StatePopulation[])
+  .filter((state) => state.abbr !== "DC")
+  .forEach((state) => {
+    byState[state.abbr] = state.population;
+  });
+
+const feasibilityFor = (constraints: HouseConstraints) => {
+  const bounds = computeHouseSizeBounds(byState, constraints, 435);
+  const sweep = sweepApportionment(
+    byState,
+    bounds.min,
+    bounds.max,
+    "huntingtonHill",
+    constraints.minSeatsPerState
+  );
+  // 50 states' senators plus DC's three electors.
+  return buildHouseSizeFeasibility(bounds, sweep, byState, constraints, () => 103);
+};
+
+describe("House-size constraints", () => {
+  it("caps the 1790 House at one seat per 30,000 people", () => {
+    const dataset = getCensusDataset(1790);
+    const populations1790: Record<string, number> = {};
+    dataset.states.forEach((state) => {
+      populations1790[state.abbr] = state.population;
+    });
+    const total = Object.values(populations1790).reduce((a, b) => a + b, 0);
+
+    const bounds = computeHouseSizeBounds(
+      populations1790,
+      DEFAULT_HOUSE_CONSTRAINTS,
+      dataset.houseSize
+    );
+    expect(bounds.min).toBe(dataset.houseSize);
+    expect(bounds.max).toBe(Math.floor(total / 30_000));
+    expect(bounds.conflict).toBeNull();
+
+    const crossed = computeHouseSizeBounds(
+      populations1790,
+      DEFAULT_HOUSE_CONSTRAINTS,
+      bounds.max + 1
+    );
+    expect(crossed.conflict).not.toBeNull();
+    expect(crossed.max).toBe(crossed.min);
+  });
+
+  it("keeps only odd Electoral College totals when asked", () => {
+    const feasibility = feasibilityFor({
+      ...DEFAULT_HOUSE_CONSTRAINTS,
+      oddElectoralCollege: true,
+    });
+    expect(feasibility.feasibleSizes[0]).toBe(436);
+    expect(feasibility.feasibleSizes.every((size) => size % 2 === 0)).toBe(true);
+    expect(feasibility.explain(435)).toEqual([
+      "The Electoral College would total 538, an even number.",
+    ]);
+    expect(feasibility.nearest(435)).toBe(436);
+  });
+
+  it("finds the first House size that keeps every district under a limit", () => {
+    const feasibility = feasibilityFor({
+      ...DEFAULT_HOUSE_CONSTRAINTS,
+      maxDistrictPopulation: 700_000,
+    });
+    const first = feasibility.feasibleSizes[0];
+    expect(first).toBeGreaterThan(435);
+    expect(feasibility.explain(first - 1)).toHaveLength(1);
+    const seats = apportion(byState, first);
+    Object.keys(seats).forEach((state) => {
+      expect(byState[state] / seats[state]).toBeLessThanOrEqual(700_000);
+    });
+  });
+
+  it("gives every state the per-state minimum", () => {
+    const seats = apportion(byState, 435, "huntingtonHill", 2);
+    expect(Object.values(seats).reduce((a, b) => a + b, 0)).toBe(435);
+    expect(Math.min(...Object.values(seats))).toBe(2);
+    expect(seats.WY).toBe(2);
+
+    const hamilton = apportion(byState, 435, "hamilton", 2);
+    expect(Object.values(hamilton).reduce((a, b) => a + b, 0)).toBe(435);
+    expect(hamilton.WY).toBe(2);
+
+    expect(() => apportion(byState, 149, "huntingtonHill", 3)).toThrow();
+  });
+
+  it("round-trips through URL parameters", () => {
+    const constraints: HouseConstraints = {
+      minSeatsPerState: 3,
+      statutoryFloor: false,
+      thirtyThousandCeiling: true,
+      maxDistrictPopulation: 500_000,
+      oddElectoralCollege: true,
+    };
+    const params = new URLSearchParams();
+    writeHouseConstraints(params, constraints);
+    expect(parseHouseConstraints(params)).toEqual(constraints);
+    expect(parseHouseConstraints(new URLSearchParams())).toEqual(
+      DEFAULT_HOUSE_CONSTRAINTS
+    );
+    expect(
+      parseHouseConstraints(new URLSearchParams("minSeats=9&maxDistrict=10"))
+    ).toEqual(DEFAULT_HOUSE_CONSTRAINTS);
+  });
+});
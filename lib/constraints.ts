@@ -0,0 +1,194 @@
+import type { ApportionmentSweep, PopulationByState } from "@/lib/apportionment";
+import { formatNumber } from "@/lib/metrics";
+
+export type HouseConstraints = {
+  // Article I guarantees each state one Representative.
+  minSeatsPerState: number;
+  // Never go below the House size enacted for the selected census.
+  statutoryFloor: boolean;
+  // Article I, Section 2: at most one Representative per 30,000 people.
+  thirtyThousandCeiling: boolean;
+  // Largest average district any state may have; null for no limit.
+  maxDistrictPopulation: number | null;
+  // An odd Electoral College total rules out a 269-269 style tie.
+  oddElectoralCollege: boolean;
+};
+
+export type HouseSizeBounds = {
+  min: number;
+  max: number;
+  minReason: string;
+  maxReason: string;
+  // Set when the floors and ceilings cross; `max` is then pinned to `min`.
+  conflict: string | null;
+};
+
+export type HouseSizeFeasibility = {
+  bounds: HouseSizeBounds;
+  feasibleSizes: number[];
+  explain: (houseSize: number) => string[];
+  nearest: (houseSize: number) => number;
+};
+
+export const DEFAULT_HOUSE_CONSTRAINTS: HouseConstraints = {
+  minSeatsPerState: 1,
+  statutoryFloor: true,
+  thirtyThousandCeiling: true,
+  maxDistrictPopulation: null,
+  oddElectoralCollege: false,
+};
+
+// The explorer's upper range, not a legal limit.
+export const EXPLORER_MAX_HOUSE_SIZE = 1200;
+
+const CONSTITUTIONAL_RATIO = 30_000;
+
+// Floors and ceilings that do not depend on how seats are allocated.
+export const computeHouseSizeBounds = (
+  populationsByState: PopulationByState,
+  constraints: HouseConstraints,
+  statutorySize: number
+): HouseSizeBounds => {
+  const stateCount = Object.keys(populationsByState).length;
+  const nationalPopulation = Object.values(populationsByState).reduce(
+    (sum, value) => sum + value,
+    0
+  );
+
+  let min = stateCount * constraints.minSeatsPerState;
+  let minReason = `${stateCount} states with at least ${constraints.minSeatsPerState} seat${
+    constraints.minSeatsPerState === 1 ? "" : "s"
+  } each need ${min} seats.`;
+  if (constraints.statutoryFloor && statutorySize > min) {
+    min = statutorySize;
+    minReason = `The statutory House for this census has ${statutorySize} seats.`;
+  }
+
+  let max = EXPLORER_MAX_HOUSE_SIZE;
+  let maxReason = `The explorer stops at ${EXPLORER_MAX_HOUSE_SIZE} seats.`;
+  const constitutionalMax = Math.floor(nationalPopulation / CONSTITUTIONAL_RATIO);
+  if (constraints.thirtyThousandCeiling && constitutionalMax < max) {
+    max = constitutionalMax;
+    maxReason = `One seat per 30,000 people allows at most ${constitutionalMax} seats.`;
+  }
+
+  if (max < min) {
+    return {
+      min,
+      max: min,
+      minReason,
+      maxReason,
+      conflict: `${minReason} ${maxReason}`,
+    };
+  }
+  return { min, max, minReason, maxReason, conflict: null };
+};
+
+// Adds the checks that depend on the allocation itself. `sweep` must cover
+// `bounds`, and `otherElectors` counts the electors at each House size that
+// do not come from House seats (two per state, plus DC's while it is not a
+// state, which can grow with the least populous state's seats).
+export const buildHouseSizeFeasibility = (
+  bounds: HouseSizeBounds,
+  sweep: ApportionmentSweep,
+  populationsByState: PopulationByState,
+  constraints: HouseConstraints,
+  otherElectors: (houseSize: number) => number
+): HouseSizeFeasibility => {
+  const explain = (houseSize: number) => {
+    if (bounds.conflict) return [bounds.conflict];
+    if (houseSize < bounds.min) return [bounds.minReason];
+    if (houseSize > bounds.max) return [bounds.maxReason];
+
+    const reasons: string[] = [];
+    const { maxDistrictPopulation } = constraints;
+    if (maxDistrictPopulation !== null) {
+      const seats = sweep.seatsAt(houseSize);
+      const oversized = Object.keys(seats).filter(
+        (state) => populationsByState[state] / seats[state] > maxDistrictPopulation
+      );
+      if (oversized.length > 0) {
+        const [first] = oversized;
+        reasons.push(
+          `${oversized.length} state${oversized.length === 1 ? "" : "s"} would average more than ${formatNumber(
+            maxDistrictPopulation
+          )} people per district (${first}: ${formatNumber(
+            populationsByState[first] / seats[first]
+          )}).`
+        );
+      }
+    }
+    const electors = houseSize + otherElectors(houseSize);
+    if (constraints.oddElectoralCollege && electors % 2 === 0) {
+      reasons.push(`The Electoral College would total ${electors}, an even number.`);
+    }
+    return reasons;
+  };
+
+  const feasibleSizes: number[] = [];
+  if (!bounds.conflict) {
+    for (let houseSize = bounds.min; houseSize <= bounds.max; houseSize += 1) {
+      if (explain(houseSize).length === 0) feasibleSizes.push(houseSize);
+    }
+  }
+
+  // Closest feasible size, preferring the larger on a tie. With nothing
+  // feasible, the request is only clamped into the bounds.
+  const nearest = (houseSize: number) => {
+    if (feasibleSizes.length === 0) {
+      return Math.min(bounds.max, Math.max(bounds.min, houseSize));
+    }
+    return feasibleSizes.reduce((best, candidate) =>
+      Math.abs(candidate - houseSize) <= Math.abs(best - houseSize)
+        ? candidate
+        : best
+    );
+  };
+
+  return { bounds, feasibleSizes, explain, nearest };
+};
+
+// URL keys: `minSeats`, `statutory`, `ceiling`, `maxDistrict`, `oddEc`.
+export const parseHouseConstraints = (params: {
+  get: (key: string) => string | null;
+}): HouseConstraints => {
+  const flag = (key: string, fallback: boolean) => {
+    const value = params.get(key);
+    return value === null ? fallback : value === "1";
+  };
+  const minSeats = Number(params.get("minSeats"));
+  const maxDistrict = Number(params.get("maxDistrict"));
+
+  return {
+    minSeatsPerState:
+      Number.isInteger(minSeats) && minSeats >= 1 && minSeats <= 5
+        ? minSeats
+        : DEFAULT_HOUSE_CONSTRAINTS.minSeatsPerState,
+    statutoryFloor: flag("statutory", DEFAULT_HOUSE_CONSTRAINTS.statutoryFloor),
+    thirtyThousandCeiling: flag(
+      "ceiling",
+      DEFAULT_HOUSE_CONSTRAINTS.thirtyThousandCeiling
+    ),
+    maxDistrictPopulation:
+      Number.isFinite(maxDistrict) && maxDistrict >= CONSTITUTIONAL_RATIO
+        ? Math.round(maxDistrict)
+        : null,
+    oddElectoralCollege: flag(
+      "oddEc",
+      DEFAULT_HOUSE_CONSTRAINTS.oddElectoralCollege
+    ),
+  };
+};
+
+export const writeHouseConstraints = (
+  params: URLSearchParams,
+  constraints: HouseConstraints
+) => {
+  params.set("minSeats", String(constraints.minSeatsPerState));
+  params.set("statutory", constraints.statutoryFloor ? "1" : "0");
+  params.set("ceiling", constraints.thirtyThousandCeiling ? "1" : "0");
+  if (constraints.maxDistrictPopulation !== null) {
+    params.set("maxDistrict", String(constraints.maxDistrictPopulation));
+  }
+  params.set("oddEc", constraints.oddElectoralCollege ? "1" : "0");
+};
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { censusApportionmentsByYear } from "../data/censusApportionments";
+import populations from "../data/populations.json";
+import { presidentialResultsByYear } from "../data/presidentialResults";
+import { apportion } from "./apportionment";
+import {
+  computeHistoricalEcOutcomes,
+  ELECTION_YEARS,
+  electorsUnderSystem,
+  NPVIC_MEMBERS,
+  presidentialSplitDistricts,
+  tallyElectoralVotes,
+  type ElectoralSystem,
+} from "./elections";
+import { buildStateMetrics, type StateMetrics, type StatePopulation } from "./metrics";
+import { PROPORTIONAL_SEAT_VOTE_CURVE } from "./overlays";
+
+const states = populations as StatePopulation[];
+
+const metricsAt = (totalSeats: number) => {
+  const byState: Record<string, number> = {};
+  states
+    .filter((state) => state.abbr !== "DC")
+    .forEach((state) => {
+      byState[state.abbr] = state.population;
+    });
+  const seats = apportion(byState, totalSeats);
+  const nationalPopulation = Object.values(byState).reduce((a, b) => a + b, 0);
+  const metrics: Record<string, StateMetrics> = {};
+  states.forEach((state) => {
+    metrics[state.abbr] = buildStateMetrics(state, seats, seats, {
+      nationalPopulation,
+      totalSeats,
+    });
+  });
+  return metrics;
+};
+
+const replay = (system: ElectoralSystem, compactMembers = NPVIC_MEMBERS) =>
+  computeHistoricalEcOutcomes(metricsAt(435), {
+    system,
+    compactMembers,
+    seatVoteCurve: PROPORTIONAL_SEAT_VOTE_CURVE,
+  }, [2016, 2020, 2024]);
+
+// The EC map in force at an election: the previous census's enacted seats.
+// Alaska and Hawaii held one temporary seat each in 1960.
+const enactedMetrics = (year: number) => {
+  const census = censusApportionmentsByYear[Math.floor((year - 2) / 10) * 10];
+  const seats: Record<string, number> = {};
+  Object.entries(census.states).forEach(([abbr, [, enacted]]) => {
+    if (abbr !== "DC") seats[abbr] = enacted;
+  });
+  if (year === 1960) Object.assign(seats, { AK: 1, HI: 1 });
+  const metrics: Record<string, StateMetrics> = {};
+  [...Object.keys(seats), ...(year >= 1964 ? ["DC"] : [])].forEach((abbr) => {
+    metrics[abbr] = buildStateMetrics(
+      { state: abbr, abbr, fips: "", population: census.states[abbr]?.[0] ?? 1 },
+      seats,
+      seats,
+      { nationalPopulation: 1, totalSeats: census.houseSize }
+    );
+  });
+  return metrics;
+};
+
+// Certified electoral votes: [Democrat, Republican, other].
+const CERTIFIED: Record<number, [number, number, number]> = {
+  1960: [303, 219, 15],
+  1964: [486, 52, 0],
+  1968: [191, 301, 46],
+  1972: [17, 520, 1],
+  1976: [297, 240, 1],
+  1980: [49, 489, 0],
+  1984: [13, 525, 0],
+  1988: [111, 426, 1],
+  1992: [370, 168, 0],
+  1996: [379, 159, 0],
+  2000: [266, 271, 1],
+  2004: [251, 286, 1],
+  2008: [365, 173, 0],
+  2012: [332, 206, 0],
+  2016: [227, 304, 7],
+  2020: [306, 232, 0],
+  2024: [226, 312, 0],
+};
+
+describe("Electoral College systems", () => {
+  it("records every state from 1960 and DC from 1964", () => {
+    expect(ELECTION_YEARS).toEqual(Object.keys(CERTIFIED).map(Number));
+    ELECTION_YEARS.forEach((year) => {
+      const { states } = presidentialResultsByYear[year];
+      expect(Object.keys(states)).toHaveLength(year === 1960 ? 50 : 51);
+    });
+  });
+
+  it("records a result for each Maine and Nebraska district", () => {
+    ELECTION_YEARS.forEach((year) => {
+      const { districts } = presidentialResultsByYear[year];
+      expect(Object.keys(districts)).toEqual(
+        [year >= 1972 && "ME", year >= 1992 && "NE"].filter(Boolean)
+      );
+    });
+    expect(presidentialSplitDistricts(2008).NE).toEqual({
+      districtDemWins: 1,
+      districtCount: 3,
+    });
+    expect(presidentialSplitDistricts(2016).ME).toEqual({
+      districtDemWins: 1,
+      districtCount: 2,
+    });
+  });
+
+  it("reproduces each certified result on the map of its day", () => {
+    ELECTION_YEARS.forEach((year) => {
+      const [outcome] = computeHistoricalEcOutcomes(
+        enactedMetrics(year),
+        undefined,
+        [year]
+      );
+      expect([outcome.democrats, outcome.republicans, outcome.other]).toEqual(
+        CERTIFIED[year]
+      );
+    });
+  });
+
+  it("replays the 2024 result on the 2020-census map", () => {
+    const [, , outcome2024] = replay("current");
+    expect(outcome2024).toMatchObject({
+      year: 2024,
+      democrats: 226,
+      republicans: 312,
+      total: 538,
+      majority: 270,
+      winner: "R",
+    });
+  });
+
+  it("splits every state's electors by statewide vote", () => {
+    const outcomes = replay("proportional");
+    outcomes.forEach((outcome) => {
+      expect(outcome.democrats + outcome.republicans + outcome.other).toBe(538);
+    });
+    // Clinton won the 2016 national two-party vote but lost the EC.
+    expect(outcomes[0].democrats).toBeGreaterThan(replay("current")[0].democrats);
+  });
+
+  it("drops the Senate-based electors under House-only allocation", () => {
+    const electors = electorsUnderSystem(metricsAt(435), "houseOnly");
+    expect(electors.CA).toBe(52);
+    expect(electors.WY).toBe(1);
+    expect(electors.DC).toBe(1);
+    const [, outcome2020] = replay("houseOnly");
+    expect(outcome2020.total).toBe(436);
+    expect(outcome2020.majority).toBe(219);
+  });
+
+  it("keeps winner-take-all at-large electors under the district method", () => {
+    const [, outcome2020] = replay("congressionalDistrict");
+    expect(outcome2020.democrats + outcome2020.republicans).toBe(538);
+    const [, current2020] = replay("current");
+    expect(outcome2020.democrats).not.toBe(current2020.democrats);
+  });
+
+  it("activates the compact only once members hold a majority", () => {
+    const [outcome2016] = replay("npvic");
+    expect(outcome2016.compactActive).toBe(false);
+    expect(outcome2016).toMatchObject({
+      democrats: replay("current")[0].democrats,
+    });
+
+    const [expanded2016] = replay("npvic", [
+      ...NPVIC_MEMBERS,
+      "TX",
+      "FL",
+      "OH",
+      "GA",
+    ]);
+    expect(expanded2016.compactActive).toBe(true);
+    expect(expanded2016.winner).toBe("D");
+  });
+
+  it("counts live toss-ups inside the band", () => {
+    const metrics = metricsAt(435);
+    const demShareByState: Record<string, number> = {};
+    states.forEach((state) => {
+      demShareByState[state.abbr] = state.abbr === "PA" ? 0.5 : 0.4;
+    });
+    const tally = tallyElectoralVotes(
+      metrics,
+      { demShareByState, nationalDemShare: 0.4 },
+      {
+        system: "current",
+        compactMembers: NPVIC_MEMBERS,
+        seatVoteCurve: PROPORTIONAL_SEAT_VOTE_CURVE,
+        tossUpBand: [0.46, 0.54],
+      }
+    );
+    expect(tally.tossUp).toBe(19);
+    // Maine's and Nebraska's districts follow the seat-vote curve.
+    expect(tally.democrats).toBe(2);
+    expect(tally.republicans).toBe(517);
+  });
+});
@@ -1,129 +1,159 @@
+import {
+  presidentialResultsByYear,
+  type FaithlessElectors,
+  type PresidentialResult,
+} from "@/data/presidentialResults";
 import type { StateMetrics } from "@/lib/metrics";
-import { hamiltonAllocation } from "@/lib/overlays";
+import {
+  hamiltonAllocation,
+  PROPORTIONAL_SEAT_VOTE_CURVE,
+  seatShareFromVote,
+  type SeatVoteCurve,
+} from "@/lib/overlays";
+import { isTerritory } from "@/lib/statehood";
 
-export type ElectionYear = 2016 | 2020 | 2024;
+export type ElectionYear = keyof typeof presidentialResultsByYear;
 
 type Party = "D" | "R";
 
-type ElectionConfig = {
-  demWinners: string[];
-  splitStates: Partial<
-    Record<
-      "ME" | "NE",
-      {
-        districtDemWins: number;
-        districtCount: number;
-      }
-    >
+export type ElectoralSystem =
+  | "current"
+  | "congressionalDistrict"
+  | "proportional"
+  | "houseOnly"
+  | "npvic";
+
+export type ElectoralSystemOptions = {
+  system: ElectoralSystem;
+  // States and DC that have joined the National Popular Vote compact.
+  compactMembers: string[];
+  // Seat-vote curve used for district electors without recorded results.
+  seatVoteCurve: SeatVoteCurve;
+  // Winner-take-all units with a Democratic share strictly inside this band
+  // count as toss-ups. Omit it to call every unit for its leader.
+  tossUpBand?: [number, number];
+};
+
+export type ElectoralVoteInputs = {
+  // Two-party Democratic share of the statewide vote.
+  demShareByState: Record<string, number>;
+  nationalDemShare: number;
+  // Recorded district results. When given, only these states split their
+  // electors; otherwise Maine and Nebraska do, as today.
+  splitDistricts?: Partial<
+    Record<string, { districtDemWins: number; districtCount: number }>
   >;
+  // States whose statewide plurality went to a third or unpledged slate.
+  thirdPartyWins?: string[];
+  faithlessElectors?: FaithlessElectors[];
 };
 
-export type ElectionOutcome = {
-  year: ElectionYear;
+export type ElectoralTally = {
   democrats: number;
   republicans: number;
+  tossUp: number;
+  // Third-party, unpledged and faithless electors.
+  other: number;
+  // Electors with no vote-share input, such as admitted territories.
+  unassigned: number;
+  total: number;
   majority: number;
-  winner: Party;
+  // Null when neither party reaches a majority.
+  winner: Party | null;
+  // Whether compact members held enough electors to trigger the compact.
+  compactActive: boolean;
 };
 
-const ELECTIONS: Record<ElectionYear, ElectionConfig> = {
-  2016: {
-    demWinners: [
-      "CA",
-      "CO",
-      "CT",
-      "DC",
-      "DE",
-      "HI",
-      "IL",
-      "MA",
-      "MD",
-      "ME",
-      "MN",
-      "NH",
-      "NJ",
-      "NM",
-      "NV",
-      "NY",
-      "OR",
-      "RI",
-      "VA",
-      "VT",
-      "WA",
-    ],
-    splitStates: {
-      ME: { districtDemWins: 1, districtCount: 2 },
-      NE: { districtDemWins: 0, districtCount: 3 },
-    },
-  },
-  2020: {
-    demWinners: [
-      "AZ",
-      "CA",
-      "CO",
-      "CT",
-      "DC",
-      "DE",
-      "GA",
-      "HI",
-      "IL",
-      "MA",
-      "MD",
-      "ME",
-      "MI",
-      "MN",
-      "NH",
-      "NJ",
-      "NM",
-      "NV",
-      "NY",
-      "OR",
-      "PA",
-      "RI",
-      "VA",
-      "VT",
-      "WA",
-      "WI",
-    ],
-    splitStates: {
-      ME: { districtDemWins: 1, districtCount: 2 },
-      NE: { districtDemWins: 1, districtCount: 3 },
-    },
-  },
-  2024: {
-    demWinners: [
-      "CA",
-      "CO",
-      "CT",
-      "DC",
-      "DE",
-      "HI",
-      "IL",
-      "MA",
-      "MD",
-      "ME",
-      "MN",
-      "NH",
-      "NJ",
-      "NM",
-      "NY",
-      "OR",
-      "RI",
-      "VA",
-      "VT",
-      "WA",
-    ],
-    splitStates: {
-      ME: { districtDemWins: 1, districtCount: 2 },
-      NE: { districtDemWins: 1, districtCount: 3 },
-    },
-  },
+export type ElectionOutcome = ElectoralTally & { year: ElectionYear };
+
+export const ELECTORAL_SYSTEMS: ElectoralSystem[] = [
+  "current",
+  "congressionalDistrict",
+  "proportional",
+  "houseOnly",
+  "npvic",
+];
+
+export const DEFAULT_ELECTORAL_SYSTEM: ElectoralSystem = "current";
+
+// Members as of 2024.
+export const NPVIC_MEMBERS = [
+  "CA",
+  "CO",
+  "CT",
+  "DC",
+  "DE",
+  "HI",
+  "IL",
+  "MA",
+  "MD",
+  "ME",
+  "MN",
+  "NJ",
+  "NM",
+  "NY",
+  "OR",
+  "RI",
+  "VT",
+  "WA",
+];
+
+// Maine and Nebraska give two electors to the statewide winner and one to
+// the winner of each congressional district.
+const SPLIT_STATES = new Set(["ME", "NE"]);
+
+export const electoralSystemLabel = (system: ElectoralSystem) => {
+  if (system === "congressionalDistrict") return "District method everywhere";
+  if (system === "proportional") return "Proportional by statewide vote";
+  if (system === "houseOnly") return "House seats only (no +2)";
+  if (system === "npvic") return "National Popular Vote compact";
+  return "Current rules";
+};
+
+export const isElectoralSystem = (value: string | null): value is ElectoralSystem =>
+  value !== null && ELECTORAL_SYSTEMS.includes(value as ElectoralSystem);
+
+export const ELECTION_YEARS = (
+  Object.keys(presidentialResultsByYear).map(Number) as ElectionYear[]
+).sort((a, b) => a - b);
+
+// D / (D + R) for each state that voted.
+export const presidentialDemShares = (year: ElectionYear): Record<string, number> => {
+  const shares: Record<string, number> = {};
+  Object.entries(presidentialResultsByYear[year]?.states ?? {}).forEach(
+    ([abbr, [dem, rep]]) => {
+      shares[abbr] = dem / (dem + rep);
+    }
+  );
+  return shares;
 };
 
-export const PRESIDENTIAL_DEM_WINNERS_BY_YEAR: Record<ElectionYear, string[]> = {
-  2016: ELECTIONS[2016].demWinners,
-  2020: ELECTIONS[2020].demWinners,
-  2024: ELECTIONS[2024].demWinners,
+// Districts each party carried, for the states that split their electors.
+export const presidentialSplitDistricts = (year: ElectionYear) => {
+  const districts: ElectoralVoteInputs["splitDistricts"] = {};
+  Object.entries(presidentialResultsByYear[year].districts).forEach(
+    ([abbr, results]) => {
+      districts[abbr] = {
+        districtDemWins: results.filter(([dem, rep]) => dem > rep).length,
+        districtCount: results.length,
+      };
+    }
+  );
+  return districts;
+};
+
+export const presidentialVoteInputs = (year: ElectionYear): ElectoralVoteInputs => {
+  const result: PresidentialResult = presidentialResultsByYear[year];
+  return {
+    demShareByState: presidentialDemShares(year),
+    nationalDemShare:
+      result.democraticVotes / (result.democraticVotes + result.republicanVotes),
+    splitDistricts: presidentialSplitDistricts(year),
+    thirdPartyWins: Object.entries(result.states)
+      .filter(([, [dem, rep, other = 0]]) => other > Math.max(dem, rep))
+      .map(([abbr]) => abbr),
+    faithlessElectors: result.faithlessElectors,
+  };
 };
 
 const allocateSplitDistrictVotes = (
@@ -138,56 +168,163 @@ const allocateSplitDistrictVotes = (
   return { dem: allocation.partyA, rep: allocation.partyB };
 };
 
-export const computeHistoricalEcOutcomes = (
-  metricsByState: Record<string, StateMetrics>
-): ElectionOutcome[] => {
-  const ecTotal = Object.values(metricsByState).reduce(
-    (sum, state) => sum + state.ecVotes,
-    0
+// Electors each entity casts under the system. Without the Senate-based
+// pair, DC keeps as many electors as the least populous state (23rd
+// Amendment) and the districted states keep only their district electors.
+export const electorsUnderSystem = (
+  metricsByState: Record<string, StateMetrics>,
+  system: ElectoralSystem
+): Record<string, number> => {
+  const electors: Record<string, number> = {};
+  if (system !== "houseOnly") {
+    Object.entries(metricsByState).forEach(([abbr, state]) => {
+      electors[abbr] = state.ecVotes;
+    });
+    return electors;
+  }
+
+  const apportioned = Object.values(metricsByState).filter(
+    (state) => state.houseSeats > 0
+  );
+  const leastPopulous = apportioned.reduce<StateMetrics | null>(
+    (smallest, state) =>
+      smallest === null || state.population < smallest.population ? state : smallest,
+    null
   );
-  const majority = Math.floor(ecTotal / 2) + 1;
+  Object.entries(metricsByState).forEach(([abbr, state]) => {
+    if (state.houseSeats > 0) electors[abbr] = state.houseSeats;
+    else if (state.ecVotes > 0) electors[abbr] = leastPopulous?.houseSeats ?? 0;
+    else electors[abbr] = 0;
+  });
+  return electors;
+};
 
-  return ([2016, 2020, 2024] as const).map((year) => {
-    const config = ELECTIONS[year];
-    const demWinners = new Set(config.demWinners);
-    let democrats = 0;
-    let republicans = 0;
+export const tallyElectoralVotes = (
+  metricsByState: Record<string, StateMetrics>,
+  inputs: ElectoralVoteInputs,
+  options: ElectoralSystemOptions
+): ElectoralTally => {
+  const { system, tossUpBand } = options;
+  const electors = electorsUnderSystem(metricsByState, system);
+  const total = Object.values(electors).reduce((sum, value) => sum + value, 0);
+  const majority = Math.floor(total / 2) + 1;
 
-    Object.entries(metricsByState).forEach(([abbr, state]) => {
-      if (abbr === "ME" || abbr === "NE") {
-        const split = config.splitStates[abbr];
-        const districtVotes = Math.max(0, state.ecVotes - 2);
-        const atLargeToDem = demWinners.has(abbr);
+  const tally = { democrats: 0, republicans: 0, tossUp: 0, other: 0, unassigned: 0 };
+  const members = new Set(options.compactMembers);
+  const compactElectors = Object.entries(electors).reduce(
+    (sum, [abbr, votes]) => (members.has(abbr) ? sum + votes : sum),
+    0
+  );
+  const compactActive = system === "npvic" && compactElectors >= majority;
+  const splitStates = inputs.splitDistricts
+    ? new Set(Object.keys(inputs.splitDistricts))
+    : SPLIT_STATES;
+  const thirdPartyWins = new Set(inputs.thirdPartyWins ?? []);
+  const faithlessByState = new Map<string, FaithlessElectors[]>();
+  (inputs.faithlessElectors ?? []).forEach((faithless) => {
+    faithlessByState.set(faithless.state, [
+      ...(faithlessByState.get(faithless.state) ?? []),
+      faithless,
+    ]);
+  });
+
+  Object.entries(metricsByState).forEach(([abbr, state]) => {
+    const votes = electors[abbr];
+    const share = inputs.demShareByState[abbr];
+    if (votes <= 0) return;
+    if (isTerritory(abbr) || share === undefined) {
+      tally.unassigned += votes;
+      return;
+    }
 
-        if (atLargeToDem) democrats += Math.min(2, state.ecVotes);
-        else republicans += Math.min(2, state.ecVotes);
+    const entry = { democrats: 0, republicans: 0, tossUp: 0, other: 0 };
+    const award = (count: number, demShare: number, statewide = true) => {
+      if (count <= 0) return;
+      if (statewide && thirdPartyWins.has(abbr)) {
+        entry.other += count;
+      } else if (tossUpBand && demShare > tossUpBand[0] && demShare < tossUpBand[1]) {
+        entry.tossUp += count;
+      } else if (demShare > 0.5) {
+        entry.democrats += count;
+      } else {
+        entry.republicans += count;
+      }
+    };
+    const split = (allocation: { dem: number; rep: number }) => {
+      entry.democrats += allocation.dem;
+      entry.republicans += allocation.rep;
+    };
 
-        if (split) {
-          const districtAllocation = allocateSplitDistrictVotes(
+    const districted =
+      (system === "congressionalDistrict" || splitStates.has(abbr)) &&
+      state.houseSeats > 0;
+    const recorded = inputs.splitDistricts?.[abbr];
+    if (compactActive && members.has(abbr)) {
+      award(votes, inputs.nationalDemShare, false);
+    } else if (system === "proportional") {
+      const allocation = hamiltonAllocation(votes, share);
+      split({ dem: allocation.partyA, rep: allocation.partyB });
+    } else if (!districted) {
+      award(votes, share);
+    } else {
+      const districtVotes = Math.min(state.houseSeats, votes);
+      award(votes - districtVotes, share);
+      if (recorded) {
+        split(
+          allocateSplitDistrictVotes(
             districtVotes,
-            split.districtDemWins,
-            split.districtCount
-          );
-          democrats += districtAllocation.dem;
-          republicans += districtAllocation.rep;
-        } else if (atLargeToDem) {
-          democrats += districtVotes;
-        } else {
-          republicans += districtVotes;
-        }
-        return;
+            recorded.districtDemWins,
+            recorded.districtCount
+          )
+        );
+      } else {
+        const allocation = hamiltonAllocation(
+          districtVotes,
+          seatShareFromVote(share, options.seatVoteCurve)
+        );
+        split({ dem: allocation.partyA, rep: allocation.partyB });
       }
+    }
 
-      if (demWinners.has(abbr)) democrats += state.ecVotes;
-      else republicans += state.ecVotes;
+    // Faithless electors defect from whatever their party won in the state.
+    faithlessByState.get(abbr)?.forEach((faithless) => {
+      const key = faithless.party === "D" ? "democrats" : "republicans";
+      const moved = Math.min(faithless.count, entry[key]);
+      entry[key] -= moved;
+      entry.other += moved;
     });
 
-    return {
-      year,
-      democrats,
-      republicans,
-      majority,
-      winner: democrats >= majority ? "D" : "R",
-    };
+    tally.democrats += entry.democrats;
+    tally.republicans += entry.republicans;
+    tally.tossUp += entry.tossUp;
+    tally.other += entry.other;
   });
+
+  return {
+    ...tally,
+    total,
+    majority,
+    winner:
+      tally.democrats >= majority ? "D" : tally.republicans >= majority ? "R" : null,
+    compactActive,
+  };
 };
+
+// Replays recorded results on the current map. Third-party wins, faithless
+// electors and the district splits of the day carry over as recorded.
+export const computeHistoricalEcOutcomes = (
+  metricsByState: Record<string, StateMetrics>,
+  options: ElectoralSystemOptions = {
+    system: DEFAULT_ELECTORAL_SYSTEM,
+    compactMembers: NPVIC_MEMBERS,
+    seatVoteCurve: PROPORTIONAL_SEAT_VOTE_CURVE,
+  },
+  years: ElectionYear[] = ELECTION_YEARS
+): ElectionOutcome[] =>
+  years.map((year) => ({
+    year,
+    ...tallyElectoralVotes(metricsByState, presidentialVoteInputs(year), {
+      ...options,
+      tossUpBand: undefined,
+    }),
+  }));
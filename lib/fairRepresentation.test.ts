@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TRANSFER_PREFERENCES,
+  parseTransferPreferences,
+  runStvDistrict,
+  simulateFairRepresentation,
+  splitIntoDistricts,
+  writeTransferPreferences,
+  type TransferPreferences,
+} from "./fairRepresentation";
+import { emptyPartySeats } from "./overlays";
+
+const votes = {
+  democrats: 0.38,
+  libertarians: 0.05,
+  greens: 0.15,
+  independents: 0,
+  republicans: 0.42,
+};
+
+const noTransfers = (): TransferPreferences => ({
+  democrats: emptyPartySeats(),
+  libertarians: emptyPartySeats(),
+  greens: emptyPartySeats(),
+  independents: emptyPartySeats(),
+  republicans: emptyPartySeats(),
+});
+
+describe("fair representation", () => {
+  it("splits large delegations into the fewest three- to five-member districts", () => {
+    expect(splitIntoDistricts(1)).toEqual([1]);
+    expect(splitIntoDistricts(5)).toEqual([5]);
+    expect(splitIntoDistricts(6)).toEqual([3, 3]);
+    expect(splitIntoDistricts(7)).toEqual([4, 3]);
+    const california = splitIntoDistricts(52);
+    expect(california).toHaveLength(11);
+    expect(california.filter((size) => size === 5)).toHaveLength(8);
+    expect(california.filter((size) => size === 4)).toHaveLength(3);
+  });
+
+  it("lets transfers from eliminated parties decide the last seat", () => {
+    const withTransfers = noTransfers();
+    withTransfers.democrats.greens = 1;
+    withTransfers.libertarians.republicans = 1;
+    // Quota 0.25: D and R elect outright, then L and D go out in turn and
+    // the Democratic surplus carries the Greens over the quota.
+    expect(runStvDistrict(3, votes, withTransfers)).toMatchObject({
+      democrats: 1,
+      greens: 1,
+      republicans: 1,
+    });
+    expect(runStvDistrict(3, votes, noTransfers())).toMatchObject({
+      democrats: 1,
+      greens: 0,
+      republicans: 2,
+    });
+  });
+
+  it("fills every seat in every state", () => {
+    const result = simulateFairRepresentation(
+      { CA: 52, WY: 1, OR: 6 },
+      { CA: votes, WY: votes, OR: votes }
+    );
+    expect(result.districtCount).toBe(14);
+    expect(Object.values(result.seats).reduce((sum, seats) => sum + seats, 0)).toBe(59);
+  });
+
+  it("round-trips edited preferences through the URL", () => {
+    const params = new URLSearchParams();
+    writeTransferPreferences(params, DEFAULT_TRANSFER_PREFERENCES);
+    expect(params.has("xfer")).toBe(false);
+
+    const edited = noTransfers();
+    edited.greens.democrats = 0.9;
+    edited.libertarians.republicans = 0.45;
+    writeTransferPreferences(params, edited);
+    expect(parseTransferPreferences(params)).toEqual(edited);
+    expect(parseTransferPreferences(new URLSearchParams("xfer=1,2"))).toBe(
+      DEFAULT_TRANSFER_PREFERENCES
+    );
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  emptyPartySeats,
+  OVERLAY_PARTIES,
+  type OverlayParty,
+  type PartySeats,
+  type PartyVoteShares,
+} from "@/lib/overlays";
+
+// Share of each party's ballots that moves to each other party once the
+// ballot's own party has no hopeful candidate left. Whatever a row leaves
+// unassigned exhausts.
+export type TransferPreferences = Record<OverlayParty, Record<OverlayParty, number>>;
+
+export type FairRepresentationState = {
+  // Members elected in each district.
+  districts: number[];
+  seats: PartySeats;
+};
+
+export type FairRepresentationResult = {
+  states: Record<string, FairRepresentationState>;
+  seats: PartySeats;
+  districtCount: number;
+};
+
+// Fair Representation Act: states with six or more seats draw districts of
+// three to five members; smaller states elect at large.
+export const FRA_MIN_DISTRICTED_SEATS = 6;
+export const FRA_MAX_DISTRICT_SIZE = 5;
+
+const preferenceRow = (entries: Partial<Record<OverlayParty, number>>) => {
+  const row = emptyPartySeats();
+  Object.assign(row, entries);
+  return row;
+};
+
+// Illustrative defaults, not estimates from ballot data.
+export const DEFAULT_TRANSFER_PREFERENCES: TransferPreferences = {
+  democrats: preferenceRow({
+    greens: 0.6,
+    independents: 0.2,
+    libertarians: 0.05,
+    republicans: 0.05,
+  }),
+  libertarians: preferenceRow({
+    republicans: 0.5,
+    independents: 0.2,
+    democrats: 0.1,
+    greens: 0.05,
+  }),
+  greens: preferenceRow({
+    democrats: 0.7,
+    independents: 0.15,
+    libertarians: 0.05,
+    republicans: 0.02,
+  }),
+  independents: preferenceRow({
+    democrats: 0.35,
+    republicans: 0.35,
+    libertarians: 0.1,
+    greens: 0.1,
+  }),
+  republicans: preferenceRow({
+    libertarians: 0.6,
+    independents: 0.2,
+    democrats: 0.05,
+    greens: 0.02,
+  }),
+};
+
+// As few districts as the five-member cap allows, sized as evenly as
+// possible: 6 seats become 3 + 3, 52 become eight 5s and three 4s.
+export const splitIntoDistricts = (seats: number): number[] => {
+  if (seats <= 0) return [];
+  if (seats < FRA_MIN_DISTRICTED_SEATS) return [seats];
+  const count = Math.ceil(seats / FRA_MAX_DISTRICT_SIZE);
+  const base = Math.floor(seats / count);
+  const larger = seats - base * count;
+  return Array.from({ length: count }, (_, index) => base + (index < larger ? 1 : 0));
+};
+
+// One STV count where every party runs a full slate and its voters rank its
+// candidates first. Votes inside a party follow its slate, so a party's
+// surplus stays with its next candidate and only eliminated parties'
+// ballots transfer. Ballots remember their first party, so a Green ballot
+// held by a Democrat moves on by Green preferences. Droop quota; exhausted
+// ballots drop out of later counts.
+export const runStvDistrict = (
+  seats: number,
+  votes: PartyVoteShares,
+  preferences: TransferPreferences = DEFAULT_TRANSFER_PREFERENCES
+): PartySeats => {
+  const elected = emptyPartySeats();
+  if (seats <= 0) return elected;
+
+  const total = OVERLAY_PARTIES.reduce(
+    (sum, party) => sum + Math.max(0, votes[party]),
+    0
+  );
+  const quota = total / (seats + 1);
+  // Ballot weight held by each hopeful party, by the ballot's first party.
+  const holdings = new Map<OverlayParty, PartyVoteShares>();
+  OVERLAY_PARTIES.forEach((party) => {
+    if (votes[party] > 0) {
+      const held = emptyPartySeats();
+      held[party] = votes[party];
+      holdings.set(party, held);
+    }
+  });
+  const heldWeight = (held: PartyVoteShares) =>
+    OVERLAY_PARTIES.reduce((sum, origin) => sum + held[origin], 0);
+
+  let filled = 0;
+  while (filled < seats && holdings.size > 0) {
+    holdings.forEach((held, party) => {
+      let weight = heldWeight(held);
+      while (filled < seats && quota > 0 && weight >= quota - 1e-12) {
+        elected[party] += 1;
+        filled += 1;
+        const scale = Math.max(0, weight - quota) / weight;
+        OVERLAY_PARTIES.forEach((origin) => {
+          held[origin] *= scale;
+        });
+        weight = heldWeight(held);
+      }
+    });
+    if (filled >= seats) break;
+
+    const hopeful = [...holdings.entries()]
+      .sort(([, a], [, b]) => heldWeight(b) - heldWeight(a))
+      .map(([party]) => party);
+    const remaining = seats - filled;
+    // Only each party's leading candidate holds votes; the rest are
+    // eliminated at zero until as many hopefuls remain as seats.
+    if (hopeful.length <= remaining) {
+      for (let seat = 0; seat < remaining; seat += 1) {
+        elected[hopeful[seat % hopeful.length]] += 1;
+      }
+      filled = seats;
+      break;
+    }
+
+    const out = hopeful[hopeful.length - 1];
+    const transferred = holdings.get(out);
+    if (!transferred) break;
+    holdings.delete(out);
+    OVERLAY_PARTIES.forEach((origin) => {
+      const weight = transferred[origin];
+      if (weight <= 0) return;
+      const row = preferences[origin];
+      const rowTotal = OVERLAY_PARTIES.reduce(
+        (sum, party) => sum + (party === origin ? 0 : row[party]),
+        0
+      );
+      // Shares meant for parties already out pass to the ones still in.
+      const live = [...holdings.entries()].filter(([party]) => party !== origin);
+      const liveTotal = live.reduce((sum, [party]) => sum + row[party], 0);
+      if (liveTotal <= 0) return;
+      live.forEach(([party, held]) => {
+        held[origin] += (weight * Math.min(1, rowTotal) * row[party]) / liveTotal;
+      });
+    });
+  }
+
+  return elected;
+};
+
+// Every district takes its state's statewide shares, so the spread within a
+// state comes only from district magnitude.
+export const simulateFairRepresentation = (
+  seatsByState: Record<string, number>,
+  votesByState: Record<string, PartyVoteShares>,
+  preferences: TransferPreferences = DEFAULT_TRANSFER_PREFERENCES
+): FairRepresentationResult => {
+  const states: Record<string, FairRepresentationState> = {};
+  const seats = emptyPartySeats();
+  let districtCount = 0;
+
+  Object.entries(seatsByState).forEach(([abbr, houseSeats]) => {
+    const votes = votesByState[abbr];
+    if (!votes || houseSeats <= 0) return;
+    const districts = splitIntoDistricts(houseSeats);
+    const stateSeats = emptyPartySeats();
+    districts.forEach((size) => {
+      const result = runStvDistrict(size, votes, preferences);
+      OVERLAY_PARTIES.forEach((party) => {
+        stateSeats[party] += result[party];
+      });
+    });
+    OVERLAY_PARTIES.forEach((party) => {
+      seats[party] += stateSeats[party];
+    });
+    states[abbr] = { districts, seats: stateSeats };
+    districtCount += districts.length;
+  });
+
+  return { states, seats, districtCount };
+};
+
+const transferPairs = OVERLAY_PARTIES.flatMap((from) =>
+  OVERLAY_PARTIES.filter((to) => to !== from).map((to) => [from, to] as const)
+);
+
+// URL key `xfer`: every off-diagonal share in points, in party order. Only
+// written when it differs from the defaults.
+export const parseTransferPreferences = (params: {
+  get: (key: string) => string | null;
+}): TransferPreferences => {
+  const values = (params.get("xfer") ?? "").split(",").map(Number);
+  const valid =
+    values.length === transferPairs.length &&
+    values.every((value) => Number.isFinite(value) && value >= 0 && value <= 100);
+  if (!valid) return DEFAULT_TRANSFER_PREFERENCES;
+
+  const preferences = {} as TransferPreferences;
+  OVERLAY_PARTIES.forEach((party) => {
+    preferences[party] = emptyPartySeats();
+  });
+  transferPairs.forEach(([from, to], index) => {
+    preferences[from][to] = values[index] / 100;
+  });
+  // A row past 100% is scaled back so ballots are never created.
+  OVERLAY_PARTIES.forEach((from) => {
+    const rowTotal = OVERLAY_PARTIES.reduce(
+      (sum, to) => sum + preferences[from][to],
+      0
+    );
+    if (rowTotal > 1) {
+      OVERLAY_PARTIES.forEach((to) => {
+        preferences[from][to] /= rowTotal;
+      });
+    }
+  });
+  return preferences;
+};
+
+export const writeTransferPreferences = (
+  params: URLSearchParams,
+  preferences: TransferPreferences
+) => {
+  const values = transferPairs.map(([from, to]) =>
+    Math.round(preferences[from][to] * 100)
+  );
+  const defaults = transferPairs.map(([from, to]) =>
+    Math.round(DEFAULT_TRANSFER_PREFERENCES[from][to] * 100)
+  );
+  if (values.join(",") !== defaults.join(",")) {
+    params.set("xfer", values.join(","));
+  }
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import populations from "../data/populations.json";
+import { apportion, sweepApportionment } from "./apportionment";
+import { computeFairnessIndices, computeFairnessSweep } from "./fairness";
+import type { StatePopulation } from "./metrics";
+
+const byState: Record<string, number> = {};
+(populations as StatePopulation[])
+  .filter((state) => state.abbr !== "DC")
+  .forEach((state) => {
+    byState[state.abbr] = state.population;
+  });
+
+describe("fairness indices", () => {
+  it("is zero for a perfectly proportional House", () => {
+    expect(computeFairnessIndices({ A: 300, B: 100 }, { A: 3, B: 1 })).toEqual({
+      maxMinRatio: 1,
+      absoluteInequality: 0,
+      relativeInequality: 0,
+      gini: 0,
+      loosemoreHanby: 0,
+      quotaDeviation: 0,
+    });
+  });
+
+  it("matches a hand-worked two-state example", () => {
+    const indices = computeFairnessIndices({ A: 300, B: 100 }, { A: 2, B: 2 });
+    expect(indices.maxMinRatio).toBeCloseTo(3);
+    expect(indices.absoluteInequality).toBeCloseTo(50);
+    expect(indices.relativeInequality).toBeCloseTo(0.5);
+    expect(indices.gini).toBeCloseTo(0.25);
+    expect(indices.loosemoreHanby).toBeCloseTo(0.25);
+    expect(indices.quotaDeviation).toBeCloseTo(2);
+  });
+
+  it("compares Delaware and Montana districts at 435 seats in 2020", () => {
+    const seats = apportion(byState, 435);
+    const indices = computeFairnessIndices(byState, seats);
+    expect(indices.maxMinRatio).toBeCloseTo(byState.DE / (byState.MT / 2), 10);
+  });
+
+  it("tracks the sweep at every House size", () => {
+    const sweep = sweepApportionment(byState, 435, 600);
+    const series = computeFairnessSweep(byState, sweep);
+    expect(series).toHaveLength(166);
+    expect(series[0].houseSize).toBe(435);
+    expect(series[165]).toEqual({
+      houseSize: 600,
+      ...computeFairnessIndices(byState, apportion(byState, 600)),
+    });
+    // A much larger House shrinks the gap between extremes.
+    expect(series[165].maxMinRatio).toBeLessThan(series[0].maxMinRatio);
+  });
+});
@@ -0,0 +1,138 @@
+import type {
+  ApportionmentSweep,
+  PopulationByState,
+  SeatAllocation,
+} from "@/lib/apportionment";
+
+export type FairnessIndexKey =
+  | "maxMinRatio"
+  | "absoluteInequality"
+  | "relativeInequality"
+  | "gini"
+  | "loosemoreHanby"
+  | "quotaDeviation";
+
+export type FairnessIndices = Record<FairnessIndexKey, number>;
+
+export type FairnessPoint = FairnessIndices & { houseSize: number };
+
+export const FAIRNESS_INDEX_KEYS: FairnessIndexKey[] = [
+  "maxMinRatio",
+  "absoluteInequality",
+  "relativeInequality",
+  "gini",
+  "loosemoreHanby",
+  "quotaDeviation",
+];
+
+export const fairnessIndexLabel = (key: FairnessIndexKey) => {
+  if (key === "maxMinRatio") return "Largest / smallest district";
+  if (key === "absoluteInequality") return "Absolute inequality";
+  if (key === "relativeInequality") return "Relative inequality";
+  if (key === "gini") return "Gini of district size";
+  if (key === "loosemoreHanby") return "Loosemore–Hanby";
+  return "Deviation from quota";
+};
+
+export const fairnessIndexDescription = (key: FairnessIndexKey) => {
+  if (key === "maxMinRatio") {
+    return "People per seat in the largest-district state over the smallest.";
+  }
+  if (key === "absoluteInequality") {
+    return "Average gap, in people, between a resident's district and the national average district.";
+  }
+  if (key === "relativeInequality") {
+    return "The absolute inequality as a share of the national average district.";
+  }
+  if (key === "gini") {
+    return "Gini coefficient across every district's population; 0 when all are equal.";
+  }
+  if (key === "loosemoreHanby") {
+    return "Half the summed gap between each state's population share and seat share.";
+  }
+  return "Sum over states of the distance between seats and standard quota.";
+};
+
+// Every index is 0 for a perfectly proportional House except the max/min
+// ratio, which is 1. Smaller is fairer for all of them.
+export const computeFairnessIndices = (
+  populationsByState: PopulationByState,
+  seatsByState: SeatAllocation
+): FairnessIndices => {
+  const states = Object.keys(populationsByState).filter(
+    (state) => seatsByState[state] > 0
+  );
+  const totalPopulation = states.reduce(
+    (sum, state) => sum + populationsByState[state],
+    0
+  );
+  const totalSeats = states.reduce((sum, state) => sum + seatsByState[state], 0);
+  if (states.length === 0 || totalPopulation === 0) {
+    return {
+      maxMinRatio: 1,
+      absoluteInequality: 0,
+      relativeInequality: 0,
+      gini: 0,
+      loosemoreHanby: 0,
+      quotaDeviation: 0,
+    };
+  }
+
+  const idealDistrict = totalPopulation / totalSeats;
+  const districts = states.map((state) => ({
+    size: populationsByState[state] / seatsByState[state],
+    seats: seatsByState[state],
+    population: populationsByState[state],
+  }));
+  const sizes = districts.map((entry) => entry.size);
+
+  // Population-weighted, so it reads as the typical resident's distance
+  // from an ideal district.
+  const absoluteInequality =
+    districts.reduce(
+      (sum, entry) => sum + entry.population * Math.abs(entry.size - idealDistrict),
+      0
+    ) / totalPopulation;
+
+  // Seat-weighted Gini: each district counts once.
+  let pairGap = 0;
+  districts.forEach((a) => {
+    districts.forEach((b) => {
+      pairGap += a.seats * b.seats * Math.abs(a.size - b.size);
+    });
+  });
+  const gini = pairGap / (2 * totalSeats * totalSeats * idealDistrict);
+
+  let shareGap = 0;
+  let quotaDeviation = 0;
+  districts.forEach((entry) => {
+    shareGap += Math.abs(
+      entry.population / totalPopulation - entry.seats / totalSeats
+    );
+    quotaDeviation += Math.abs(entry.seats - entry.population / idealDistrict);
+  });
+
+  return {
+    maxMinRatio: Math.max(...sizes) / Math.min(...sizes),
+    absoluteInequality,
+    relativeInequality: absoluteInequality / idealDistrict,
+    gini,
+    loosemoreHanby: shareGap / 2,
+    quotaDeviation,
+  };
+};
+
+// One row per House size in the sweep.
+export const computeFairnessSweep = (
+  populationsByState: PopulationByState,
+  sweep: ApportionmentSweep
+): FairnessPoint[] => {
+  const points: FairnessPoint[] = [];
+  for (let houseSize = sweep.minSeats; houseSize <= sweep.maxSeats; houseSize += 1) {
+    points.push({
+      houseSize,
+      ...computeFairnessIndices(populationsByState, sweep.seatsAt(houseSize)),
+    });
+  }
+  return points;
+};
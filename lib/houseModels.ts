@@ -6,8 +6,6 @@ export type HouseModelKey =
   | "proportional500k"
   | "wyomingRule";
 
-const clampHouseSize = (value: number) => Math.min(1200, Math.max(435, value));
-
 export const houseModelLabel = (model: HouseModelKey) => {
   if (model === "cubeRoot") return "Cube-root model";
   if (model === "proportional500k") return "Proportional (500k/seat)";
@@ -15,30 +13,33 @@ export const houseModelLabel = (model: HouseModelKey) => {
   return "Manual";
 };
 
+// `states` are the apportioned states only (no DC unless it is admitted).
+// `fitHouseSize` moves a formula's result onto the nearest size the active
+// constraints allow.
 export const computeHouseSizeByModel = (
   model: HouseModelKey,
   states: StatePopulation[],
-  manualSeats: number
+  manualSeats: number,
+  fitHouseSize: (value: number) => number
 ) => {
   if (model === "manual") {
-    return clampHouseSize(manualSeats);
+    return fitHouseSize(manualSeats);
   }
 
-  const nonDc = states.filter((state) => state.abbr !== "DC");
-  const nationalPopulation = nonDc.reduce((sum, state) => sum + state.population, 0);
+  const nationalPopulation = states.reduce((sum, state) => sum + state.population, 0);
 
   if (model === "cubeRoot") {
-    return clampHouseSize(Math.round(Math.cbrt(nationalPopulation)));
+    return fitHouseSize(Math.round(Math.cbrt(nationalPopulation)));
   }
 
   if (model === "proportional500k") {
-    return clampHouseSize(Math.round(nationalPopulation / 500_000));
+    return fitHouseSize(Math.round(nationalPopulation / 500_000));
   }
 
-  const smallestStatePopulation = nonDc.reduce(
+  const smallestStatePopulation = states.reduce(
     (min, state) => Math.min(min, state.population),
     Number.POSITIVE_INFINITY
   );
-  return clampHouseSize(Math.round(nationalPopulation / smallestStatePopulation));
+  return fitHouseSize(Math.round(nationalPopulation / smallestStatePopulation));
 };
 
@@ -1,8 +1,14 @@
+import type { SeatMargin } from "@/lib/apportionment";
+import type { AlternativePopulationBase } from "@/lib/populationBases";
+import type { VotingPower } from "@/lib/power";
+
 export type StatePopulation = {
   state: string;
   abbr: string;
   fips: string;
   population: number;
+  // Alternative apportionment bases; `population` is the resident count.
+  bases?: Partial<Record<AlternativePopulationBase, number>>;
 };
 
 export type StateMetrics = {
@@ -11,23 +17,120 @@ export type StateMetrics = {
   population: number;
   houseSeats: number;
   houseDelta: number;
+  methodDelta: number;
+  baseDelta: number;
+  standardQuota: number;
+  lowerQuota: number;
+  upperQuota: number;
+  quotaDeviation: number;
+  violatesQuota: boolean;
+  // Null when the method has no priority values or the state is not apportioned.
+  seatMargin: SeatMargin | null;
   ecVotes: number;
   ecDelta: number;
   ecPerMillion: number;
+  // Null for entities that cast no electoral votes.
+  votingPower: VotingPower | null;
+};
+
+export type QuotaBasis = {
+  nationalPopulation: number;
+  totalSeats: number;
+};
+
+export const computeStandardQuota = (
+  population: number,
+  { nationalPopulation, totalSeats }: QuotaBasis
+) => (nationalPopulation > 0 ? (population * totalSeats) / nationalPopulation : 0);
+
+// A seat count satisfies the quota rule when it is the floor or ceiling of
+// the standard quota.
+export const violatesQuotaRule = (seats: number, standardQuota: number) =>
+  seats < Math.floor(standardQuota) || seats > Math.ceil(standardQuota);
+
+// What an unadmitted DC would hold as a state, and the 23rd Amendment's cap:
+// the seats of the least populous state.
+export type DistrictSeats = {
+  entitled: number;
+  leastPopulous: number;
+};
+
+// States get two Senate-based electors on top of their House seats. Until
+// admitted, DC casts the electors it would have as a state but no more than
+// the least populous state (three at 435 seats); territories get none.
+export const computeECVotes = (
+  abbr: string,
+  houseSeats: number,
+  admitted = abbr !== "DC",
+  districtSeats: DistrictSeats = { entitled: 1, leastPopulous: 1 }
+) => {
+  if (admitted) return houseSeats + 2;
+  if (abbr !== "DC") return 0;
+  const { entitled, leastPopulous } = districtSeats;
+  return Math.min(Math.max(1, entitled), leastPopulous) + 2;
 };
 
-export const computeECVotes = (abbr: string, houseSeats: number) =>
-  abbr === "DC" ? 3 : houseSeats + 2;
+// Apportionment never gives a more populous state fewer seats, so DC would
+// hold at least as many as the largest state it outnumbers, and never fewer
+// than the minimum every state is guaranteed.
+export const computeDistrictSeats = (
+  states: StatePopulation[],
+  seatsByState: Record<string, number>,
+  minSeatsPerState = 1
+): DistrictSeats => {
+  const district = states.find((state) => state.abbr === "DC");
+  let leastPopulation = Infinity;
+  let leastPopulous = minSeatsPerState;
+  let entitled = minSeatsPerState;
+  states.forEach((state) => {
+    const seats = seatsByState[state.abbr];
+    if (seats === undefined || state.abbr === "DC") return;
+    if (state.population < leastPopulation) {
+      leastPopulation = state.population;
+      leastPopulous = seats;
+    }
+    if (district && state.population <= district.population) {
+      entitled = Math.max(entitled, seats);
+    }
+  });
+  return { entitled, leastPopulous };
+};
 
 export const buildStateMetrics = (
   data: StatePopulation,
   seatsByState: Record<string, number>,
-  baselineSeats: Record<string, number>
+  baselineSeats: Record<string, number>,
+  quotaBasis: QuotaBasis,
+  references: {
+    // Huntington–Hill at the same House size and population base.
+    method?: Record<string, number>;
+    // The chosen method applied to resident population.
+    resident?: Record<string, number>;
+    // Caps an unadmitted DC's electors in the current House.
+    districtSeats?: DistrictSeats;
+  } = {},
+  seatMargins: Record<string, SeatMargin> = {},
+  votingPower: Record<string, VotingPower> = {}
 ): StateMetrics => {
   const houseSeats = seatsByState[data.abbr] ?? 0;
   const baselineHouse = baselineSeats[data.abbr] ?? 0;
-  const ecVotes = computeECVotes(data.abbr, houseSeats);
-  const baselineEc = computeECVotes(data.abbr, baselineHouse);
+  const methodHouse = (references.method ?? seatsByState)[data.abbr] ?? 0;
+  const residentHouse = (references.resident ?? seatsByState)[data.abbr] ?? 0;
+  const apportioned = data.abbr in seatsByState;
+  const standardQuota = apportioned
+    ? computeStandardQuota(data.population, quotaBasis)
+    : 0;
+  const ecVotes = computeECVotes(
+    data.abbr,
+    houseSeats,
+    apportioned,
+    references.districtSeats
+  );
+  const baselineEc = computeECVotes(
+    data.abbr,
+    baselineHouse,
+    data.abbr in baselineSeats
+  );
   const ecPerMillion = ecVotes / (data.population / 1_000_000);
 
   return {
@@ -36,9 +139,18 @@ export const buildStateMetrics = (
     population: data.population,
     houseSeats,
     houseDelta: houseSeats - baselineHouse,
+    methodDelta: houseSeats - methodHouse,
+    baseDelta: houseSeats - residentHouse,
+    standardQuota,
+    lowerQuota: Math.floor(standardQuota),
+    upperQuota: Math.ceil(standardQuota),
+    quotaDeviation: houseSeats - standardQuota,
+    violatesQuota: apportioned && violatesQuotaRule(houseSeats, standardQuota),
+    seatMargin: seatMargins[data.abbr] ?? null,
     ecVotes,
     ecDelta: ecVotes - baselineEc,
     ecPerMillion,
+    votingPower: votingPower[data.abbr] ?? null,
   };
 };
 
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import {
+  allocateMmpHouse,
+  allocateOverlaySeats,
+  DEFAULT_OVERLAY_PARTY_SETTINGS,
+  parseMmpSettings,
+  parseOverlayPartySettings,
+  statePartyVoteShares,
+  writeMmpSettings,
+  writeOverlayPartySettings,
+  type MmpOptions,
+} from "./overlays";
+
+const shares = { a: 0.47, b: 0.16, c: 0.15, d: 0.12, e: 0.1 };
+
+describe("overlay seat allocation", () => {
+  it("matches textbook Hamilton, D'Hondt and Sainte-Laguë results", () => {
+    expect(allocateOverlaySeats(10, shares, { method: "hamilton", threshold: 0 })).toEqual({
+      a: 5,
+      b: 2,
+      c: 1,
+      d: 1,
+      e: 1,
+    });
+    // D'Hondt's divisors 1, 2, 3, ... favor the largest party.
+    expect(allocateOverlaySeats(10, shares, { method: "dhondt", threshold: 0 })).toEqual({
+      a: 5,
+      b: 2,
+      c: 1,
+      d: 1,
+      e: 1,
+    });
+    expect(allocateOverlaySeats(7, shares, { method: "dhondt", threshold: 0 })).toEqual({
+      a: 4,
+      b: 1,
+      c: 1,
+      d: 1,
+      e: 0,
+    });
+    expect(allocateOverlaySeats(7, shares, { method: "sainteLague", threshold: 0 })).toEqual({
+      a: 3,
+      b: 1,
+      c: 1,
+      d: 1,
+      e: 1,
+    });
+  });
+
+  it("drops parties under the threshold unless none clears it", () => {
+    expect(allocateOverlaySeats(10, shares, { method: "hamilton", threshold: 0.15 })).toEqual({
+      a: 6,
+      b: 2,
+      c: 2,
+      d: 0,
+      e: 0,
+    });
+    // Nobody reaches 50%, so everyone stays in.
+    expect(
+      allocateOverlaySeats(3, { a: 0.4, b: 0.35, c: 0.25 }, { method: "dhondt", threshold: 0.5 })
+    ).toEqual({ a: 1, b: 1, c: 1 });
+  });
+
+  it("gives Republicans the remainder of the statewide vote", () => {
+    const votes = statePartyVoteShares(0.6, { libertarians: 0.03, greens: 0.02, independents: 0.05 });
+    expect(votes.democrats).toBe(0.6);
+    expect(votes.republicans).toBeCloseTo(0.3, 12);
+    expect(votes.greens).toBe(0.02);
+    // Shares past 100% are scaled down together.
+    const scaled = statePartyVoteShares(0.8, { libertarians: 0, greens: 0, independents: 0.4 });
+    expect(scaled.democrats).toBeCloseTo(2 / 3, 12);
+    expect(scaled.republicans).toBeCloseTo(0, 12);
+    expect(scaled.independents).toBeCloseTo(1 / 3, 12);
+  });
+
+  it("round-trips party settings through the URL", () => {
+    const settings = {
+      method: "sainteLague" as const,
+      threshold: 0.05,
+      baseline: { libertarians: 0.03, greens: 0.015, independents: 0 },
+      byState: { CA: { libertarians: 0.02, greens: 0.06, independents: 0.01 } },
+    };
+    const params = new URLSearchParams();
+    writeOverlayPartySettings(params, settings);
+    expect(params.get("minor")).toBe("CA:2:6:1");
+    expect(parseOverlayPartySettings(params)).toEqual(settings);
+    expect(parseOverlayPartySettings(new URLSearchParams("alloc=x&lib=90"))).toEqual(
+      DEFAULT_OVERLAY_PARTY_SETTINGS
+    );
+  });
+});
+
+describe("mixed-member proportional overlay", () => {
+  const noMinor = { libertarians: 0, greens: 0, independents: 0 };
+  const seatsByState = { A: 10, B: 10 };
+  const uniformStates = {
+    A: statePartyVoteShares(0.6, noMinor),
+    B: statePartyVoteShares(0.6, noMinor),
+  };
+  const mmp = (options: Partial<MmpOptions>, votesByState = uniformStates) =>
+    allocateMmpHouse(seatsByState, seatsByState, votesByState, {
+      constituencyShare: 1,
+      tier: "national",
+      overhang: "fixed",
+      method: "hamilton",
+      threshold: 0,
+      // Cube law: 60% of the vote wins 8 of 10 districts.
+      seatVoteCurve: { responsiveness: 3, bias: 0 },
+      ...options,
+    });
+
+  it("handles district seats beyond a party's proportional share", () => {
+    // Democrats win 16 districts but are owed 12 of 20 seats.
+    expect(mmp({ overhang: "fixed" })).toMatchObject({
+      seats: { democrats: 16, republicans: 4 },
+      houseSize: 20,
+      added: 0,
+    });
+    expect(mmp({ overhang: "overhang" })).toMatchObject({
+      list: { democrats: 0, republicans: 4 },
+      houseSize: 24,
+      added: 4,
+    });
+    // At 26 seats Hamilton gives 60% of the vote 16 seats.
+    expect(mmp({ overhang: "leveling" })).toMatchObject({
+      seats: { democrats: 16, republicans: 10 },
+      houseSize: 26,
+    });
+  });
+
+  it("levels a large overhang to the smallest covering House", () => {
+    // Greens win no districts, so Democrats sweep far past their 55%.
+    const votes = statePartyVoteShares(0.55, { ...noMinor, greens: 0.2 });
+    const result = allocateMmpHouse({ A: 1000 }, { A: 1000 }, { A: votes }, {
+      constituencyShare: 1,
+      tier: "national",
+      overhang: "leveling",
+      method: "sainteLague",
+      threshold: 0,
+      seatVoteCurve: { responsiveness: 3, bias: 0 },
+    });
+    const districts = result.constituency.democrats;
+    expect(districts).toBeGreaterThan(800);
+    const owed = (size: number) =>
+      allocateOverlaySeats(size, votes, { method: "sainteLague", threshold: 0 }).democrats;
+    expect(result.seats.democrats).toBe(districts);
+    expect(owed(result.houseSize)).toBeGreaterThanOrEqual(districts);
+    expect(owed(result.houseSize - 1)).toBeLessThan(districts);
+    expect(result.houseSize).toBeGreaterThan(1400);
+  });
+
+  it("compensates within each state under state lists", () => {
+    const mirrored = {
+      A: statePartyVoteShares(0.6, noMinor),
+      B: statePartyVoteShares(0.4, noMinor),
+    };
+    // Nationally the two states' overhangs cancel out.
+    expect(mmp({ overhang: "leveling" }, mirrored)).toMatchObject({
+      seats: { democrats: 10, republicans: 10 },
+      added: 0,
+    });
+    expect(mmp({ overhang: "leveling", tier: "state" }, mirrored)).toMatchObject({
+      seats: { democrats: 13, republicans: 13 },
+      houseSize: 26,
+    });
+  });
+
+  it("round-trips MMP settings through the URL", () => {
+    const settings = {
+      constituencyShare: 0.35,
+      tier: "state" as const,
+      overhang: "overhang" as const,
+    };
+    const params = new URLSearchParams();
+    writeMmpSettings(params, settings);
+    expect(parseMmpSettings(params)).toEqual(settings);
+  });
+});
@@ -3,10 +3,73 @@ export type PartyAllocation = {
   partyB: number;
 };
 
-export type ThreePartyAllocation = {
-  democrats: number;
-  republicans: number;
-  independents: number;
+export type OverlayParty =
+  | "democrats"
+  | "republicans"
+  | "libertarians"
+  | "greens"
+  | "independents";
+
+// Shares of the vote, or seats, by party.
+export type PartyVoteShares = Record<OverlayParty, number>;
+export type PartySeats = Record<OverlayParty, number>;
+
+export type MinorPartyShares = Pick<
+  PartyVoteShares,
+  "libertarians" | "greens" | "independents"
+>;
+
+export type OverlayAllocationMethod = "hamilton" | "dhondt" | "sainteLague";
+
+export type OverlayAllocationOptions = {
+  method: OverlayAllocationMethod;
+  // Parties below this share of a state's vote win no seats there.
+  threshold: number;
+};
+
+export type OverlayPartySettings = OverlayAllocationOptions & {
+  // Minor-party shares for states without their own.
+  baseline: MinorPartyShares;
+  byState: Record<string, MinorPartyShares>;
+};
+
+export const OVERLAY_PARTIES: OverlayParty[] = [
+  "democrats",
+  "libertarians",
+  "greens",
+  "independents",
+  "republicans",
+];
+
+export const OVERLAY_ALLOCATION_METHODS: OverlayAllocationMethod[] = [
+  "hamilton",
+  "dhondt",
+  "sainteLague",
+];
+
+export const DEFAULT_OVERLAY_ALLOCATION: OverlayAllocationOptions = {
+  method: "hamilton",
+  threshold: 0,
+};
+
+export const DEFAULT_OVERLAY_PARTY_SETTINGS: OverlayPartySettings = {
+  ...DEFAULT_OVERLAY_ALLOCATION,
+  baseline: { libertarians: 0, greens: 0, independents: 0.02 },
+  byState: {},
+};
+
+// Logit seats–votes curve: logit(S) = logit(1/2 + bias) + responsiveness ×
+// logit(V). Responsiveness 1 with no bias gives seats in proportion to votes;
+// 3 is the cube law.
+export type SeatVoteCurve = {
+  responsiveness: number;
+  // Democratic seat share above one half at an even vote.
+  bias: number;
+};
+
+export const PROPORTIONAL_SEAT_VOTE_CURVE: SeatVoteCurve = {
+  responsiveness: 1,
+  bias: 0,
 };
 
 export const hamiltonAllocation = (
@@ -41,60 +104,453 @@ export const hamiltonAllocation = (
   return { partyA: partyASeats, partyB: partyBSeats };
 };
 
-export const hamiltonThreePartyAllocation = (
-  totalSeats: number,
+// Shares of the statewide vote, with Republicans taking the remainder.
+// Inputs that sum past 1 are scaled down together.
+export const statePartyVoteShares = (
   democratsShare: number,
-  independentsShare: number
-): ThreePartyAllocation => {
-  const safeDemocrats = Math.min(1, Math.max(0, democratsShare));
-  const safeIndependents = Math.min(1, Math.max(0, independentsShare));
-  const combined = safeDemocrats + safeIndependents;
-  const normalizedDemocrats =
-    combined > 1 ? safeDemocrats / combined : safeDemocrats;
-  const normalizedIndependents =
-    combined > 1 ? safeIndependents / combined : safeIndependents;
-  const normalizedRepublicans = Math.max(
-    0,
-    1 - normalizedDemocrats - normalizedIndependents
-  );
-
-  const allocations = [
-    { party: "democrats", raw: totalSeats * normalizedDemocrats },
-    { party: "republicans", raw: totalSeats * normalizedRepublicans },
-    { party: "independents", raw: totalSeats * normalizedIndependents },
-  ] as const;
-
-  const base = allocations.map((entry) => ({
-    party: entry.party,
-    seats: Math.floor(entry.raw),
-    remainder: entry.raw - Math.floor(entry.raw),
-  }));
-
-  let allocated = base.reduce((acc, entry) => acc + entry.seats, 0);
-  const seats = {
-    democrats: base.find((entry) => entry.party === "democrats")?.seats ?? 0,
-    republicans: base.find((entry) => entry.party === "republicans")?.seats ?? 0,
-    independents:
-      base.find((entry) => entry.party === "independents")?.seats ?? 0,
+  minor: MinorPartyShares
+): PartyVoteShares => {
+  const democrats = Math.min(1, Math.max(0, democratsShare));
+  const libertarians = Math.min(1, Math.max(0, minor.libertarians));
+  const greens = Math.min(1, Math.max(0, minor.greens));
+  const independents = Math.min(1, Math.max(0, minor.independents));
+  const combined = democrats + libertarians + greens + independents;
+  const scale = combined > 1 ? 1 / combined : 1;
+  return {
+    democrats: democrats * scale,
+    republicans: Math.max(0, 1 - combined * scale),
+    libertarians: libertarians * scale,
+    greens: greens * scale,
+    independents: independents * scale,
   };
+};
 
+const largestRemainder = <P extends string>(
+  totalSeats: number,
+  shares: [P, number][]
+) => {
+  const votes = shares.reduce((sum, [, share]) => sum + share, 0);
+  const base = shares.map(([party, share]) => {
+    const raw = votes > 0 ? (totalSeats * share) / votes : 0;
+    return { party, seats: Math.floor(raw), remainder: raw - Math.floor(raw) };
+  });
+  let allocated = base.reduce((sum, entry) => sum + entry.seats, 0);
   const remainders = [...base].sort((a, b) => b.remainder - a.remainder);
   let idx = 0;
-  while (allocated < totalSeats) {
-    const pick = remainders[idx % remainders.length];
-    seats[pick.party] += 1;
+  while (votes > 0 && allocated < totalSeats) {
+    remainders[idx % remainders.length].seats += 1;
     allocated += 1;
     idx += 1;
   }
+  return base;
+};
 
+// Highest averages. Ties go to the larger share, then to the earlier party.
+const highestAverages = <P extends string>(
+  totalSeats: number,
+  shares: [P, number][],
+  divisor: (seats: number) => number
+) => {
+  const base = shares.map(([party, share]) => ({ party, share, seats: 0 }));
+  if (!base.some((entry) => entry.share > 0)) return base;
+  for (let seat = 0; seat < totalSeats; seat += 1) {
+    let pick = base[0];
+    let best = -1;
+    base.forEach((entry) => {
+      const average = entry.share / divisor(entry.seats);
+      if (average > best || (average === best && entry.share > pick.share)) {
+        pick = entry;
+        best = average;
+      }
+    });
+    pick.seats += 1;
+  }
+  return base;
+};
+
+// Seats for any list of parties. Parties under the threshold win nothing
+// unless none clears it.
+export const allocateOverlaySeats = <P extends string>(
+  totalSeats: number,
+  shares: Record<P, number>,
+  { method, threshold }: OverlayAllocationOptions = DEFAULT_OVERLAY_ALLOCATION
+): Record<P, number> => {
+  const entries = (Object.entries(shares) as [P, number][]).map(
+    ([party, share]): [P, number] => [party, Math.max(0, share)]
+  );
+  const votes = entries.reduce((sum, [, share]) => sum + share, 0);
+  // The tolerance keeps a party sitting exactly on the threshold in.
+  const qualifying = entries.filter(
+    ([, share]) => votes > 0 && share >= threshold * votes - 1e-12
+  );
+  const eligible = qualifying.length > 0 ? qualifying : entries;
+
+  const allocation =
+    method === "hamilton"
+      ? largestRemainder(totalSeats, eligible)
+      : highestAverages(totalSeats, eligible, (seats) =>
+          method === "dhondt" ? seats + 1 : 2 * seats + 1
+        );
+
+  const seats = {} as Record<P, number>;
+  entries.forEach(([party]) => {
+    seats[party] = 0;
+  });
+  allocation.forEach((entry) => {
+    seats[entry.party] = entry.seats;
+  });
   return seats;
 };
 
-export const seatShareFromVote = (
-  voteShare: number,
-  responsiveness: "low" | "medium" | "high"
+// Nationwide seats from allocating every state on its own.
+export const allocateOverlayHouse = (
+  seatsByState: Record<string, number>,
+  votesByState: Record<string, PartyVoteShares>,
+  options: OverlayAllocationOptions = DEFAULT_OVERLAY_ALLOCATION
+): PartySeats => {
+  const totals = emptyPartySeats();
+  Object.entries(seatsByState).forEach(([abbr, seats]) => {
+    const votes = votesByState[abbr];
+    if (!votes || seats <= 0) return;
+    const allocation = allocateOverlaySeats(seats, votes, options);
+    OVERLAY_PARTIES.forEach((party) => {
+      totals[party] += allocation[party];
+    });
+  });
+  return totals;
+};
+
+export const overlayPartyLabel = (party: OverlayParty) => {
+  if (party === "democrats") return "Democrats";
+  if (party === "republicans") return "Republicans";
+  if (party === "libertarians") return "Libertarians";
+  if (party === "greens") return "Greens";
+  return "Independents";
+};
+
+export const overlayAllocationMethodLabel = (method: OverlayAllocationMethod) => {
+  if (method === "dhondt") return "D'Hondt";
+  if (method === "sainteLague") return "Sainte-Laguë";
+  return "Hamilton";
+};
+
+export const emptyPartySeats = (): PartySeats => ({
+  democrats: 0,
+  republicans: 0,
+  libertarians: 0,
+  greens: 0,
+  independents: 0,
+});
+
+const MAX_MINOR_SHARE = 0.2;
+const MAX_THRESHOLD = 0.1;
+
+const parsePercent = (value: string | null, max: number) => {
+  if (value === null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= max * 100
+    ? parsed / 100
+    : null;
+};
+
+const formatPercent = (value: number) => String(Math.round(value * 1000) / 10);
+
+// URL keys: `ind`, `lib` and `grn` for the baseline, `minor` for state
+// overrides as `CA:lib:grn:ind` in points, `alloc` and `thr`.
+export const parseOverlayPartySettings = (params: {
+  get: (key: string) => string | null;
+}): OverlayPartySettings => {
+  const defaults = DEFAULT_OVERLAY_PARTY_SETTINGS;
+  const byState: Record<string, MinorPartyShares> = {};
+  (params.get("minor") ?? "").split(",").forEach((entry) => {
+    const [abbr, ...values] = entry.split(":");
+    const [libertarians, greens, independents] = values.map((value) =>
+      parsePercent(value, MAX_MINOR_SHARE)
+    );
+    if (abbr && libertarians != null && greens != null && independents != null) {
+      byState[abbr] = { libertarians, greens, independents };
+    }
+  });
+  const method = params.get("alloc");
+  return {
+    baseline: {
+      libertarians:
+        parsePercent(params.get("lib"), MAX_MINOR_SHARE) ??
+        defaults.baseline.libertarians,
+      greens:
+        parsePercent(params.get("grn"), MAX_MINOR_SHARE) ?? defaults.baseline.greens,
+      independents:
+        parsePercent(params.get("ind"), MAX_MINOR_SHARE) ??
+        defaults.baseline.independents,
+    },
+    byState,
+    method: OVERLAY_ALLOCATION_METHODS.includes(method as OverlayAllocationMethod)
+      ? (method as OverlayAllocationMethod)
+      : defaults.method,
+    threshold: parsePercent(params.get("thr"), MAX_THRESHOLD) ?? defaults.threshold,
+  };
+};
+
+export const writeOverlayPartySettings = (
+  params: URLSearchParams,
+  settings: OverlayPartySettings
+) => {
+  params.set("ind", formatPercent(settings.baseline.independents));
+  params.set("lib", formatPercent(settings.baseline.libertarians));
+  params.set("grn", formatPercent(settings.baseline.greens));
+  const overrides = Object.entries(settings.byState)
+    .map(
+      ([abbr, shares]) =>
+        `${abbr}:${formatPercent(shares.libertarians)}:${formatPercent(
+          shares.greens
+        )}:${formatPercent(shares.independents)}`
+    )
+    .join(",");
+  if (overrides) params.set("minor", overrides);
+  params.set("alloc", settings.method);
+  params.set("thr", formatPercent(settings.threshold));
+};
+
+export const logit = (p: number) => Math.log(p / (1 - p));
+
+export const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+
+export const seatShareFromVote = (voteShare: number, curve: SeatVoteCurve) => {
+  if (voteShare <= 0) return 0;
+  if (voteShare >= 1) return 1;
+  const bias = Math.min(0.49, Math.max(-0.49, curve.bias));
+  return logistic(logit(0.5 + bias) + curve.responsiveness * logit(voteShare));
+};
+
+// Mixed-member proportional: a share of the House is elected in single-member
+// districts, the rest from party lists that top each party up toward its
+// proportional share, nationally or within each state.
+export type MmpTier = "national" | "state";
+
+// Fixed keeps the House size, so overhanging parties' extra district seats
+// come out of everyone else's list seats. Overhang adds those seats on top.
+// Leveling grows the House until every party's proportional share covers
+// its district seats.
+export type MmpOverhangRule = "fixed" | "overhang" | "leveling";
+
+export type MmpSettings = {
+  // Fraction of the House elected in districts.
+  constituencyShare: number;
+  tier: MmpTier;
+  overhang: MmpOverhangRule;
+};
+
+export type MmpOptions = MmpSettings &
+  OverlayAllocationOptions & {
+    seatVoteCurve: SeatVoteCurve;
+  };
+
+export type MmpResult = {
+  constituency: PartySeats;
+  list: PartySeats;
+  seats: PartySeats;
+  houseSize: number;
+  // Seats beyond the nominal House from overhang or leveling.
+  added: number;
+};
+
+export const MMP_TIERS: MmpTier[] = ["national", "state"];
+export const MMP_OVERHANG_RULES: MmpOverhangRule[] = ["fixed", "overhang", "leveling"];
+
+export const MIN_MMP_CONSTITUENCY_SHARE = 0.2;
+
+export const DEFAULT_MMP_SETTINGS: MmpSettings = {
+  constituencyShare: 0.5,
+  tier: "national",
+  overhang: "leveling",
+};
+
+export const mmpConstituencySeats = (houseSize: number, constituencyShare: number) =>
+  Math.round(houseSize * constituencyShare);
+
+export const mmpTierLabel = (tier: MmpTier) =>
+  tier === "state" ? "State lists" : "National list";
+
+export const mmpOverhangRuleLabel = (rule: MmpOverhangRule) => {
+  if (rule === "overhang") return "Keep overhang seats";
+  if (rule === "leveling") return "Leveling seats";
+  return "Fixed House size";
+};
+
+// District seats go to Democrats and Republicans along the seat-vote curve,
+// as in the single-member overlay.
+const constituencySeats = (seats: number, votes: PartyVoteShares, curve: SeatVoteCurve) => {
+  const major = votes.democrats + votes.republicans;
+  const split = hamiltonAllocation(
+    seats,
+    seatShareFromVote(major > 0 ? votes.democrats / major : 0.5, curve)
+  );
+  const result = emptyPartySeats();
+  result.democrats = split.partyA;
+  result.republicans = split.partyB;
+  return result;
+};
+
+const sumSeats = (seats: PartySeats) =>
+  OVERLAY_PARTIES.reduce((sum, party) => sum + seats[party], 0);
+
+// List seats for one tier of `seats` members, given the district seats won
+// inside it. Parties under the threshold keep their districts but win no
+// list seats.
+const compensate = (
+  seats: number,
+  votes: PartyVoteShares,
+  constituency: PartySeats,
+  { method, threshold, overhang }: MmpOptions
 ) => {
-  const factor = responsiveness === "low" ? 0.6 : responsiveness === "high" ? 1.4 : 1;
-  const adjusted = 0.5 + (voteShare - 0.5) * factor;
-  return Math.min(1, Math.max(0, adjusted));
+  const totalVotes = OVERLAY_PARTIES.reduce((sum, party) => sum + votes[party], 0);
+  const qualifying = OVERLAY_PARTIES.filter(
+    (party) => totalVotes > 0 && votes[party] >= threshold * totalVotes - 1e-12
+  );
+  const eligible = qualifying.length > 0 ? qualifying : OVERLAY_PARTIES;
+  const entitlement = (tierSeats: number, parties: OverlayParty[]) => {
+    const shares = {} as Record<OverlayParty, number>;
+    parties.forEach((party) => {
+      shares[party] = votes[party];
+    });
+    return allocateOverlaySeats(Math.max(0, tierSeats), shares, { method, threshold: 0 });
+  };
+  const districtSeats = sumSeats(constituency);
+  const base = Math.max(seats, districtSeats);
+  const list = emptyPartySeats();
+
+  if (overhang === "fixed") {
+    // Overhanging parties drop out and the rest share what is left, until
+    // no remaining party is owed fewer seats than it won in districts.
+    let parties = eligible;
+    for (;;) {
+      const kept = parties;
+      const outside = OVERLAY_PARTIES.filter((party) => !kept.includes(party)).reduce(
+        (sum, party) => sum + constituency[party],
+        0
+      );
+      const owed = entitlement(base - outside, kept);
+      const next = kept.filter((party) => owed[party] >= constituency[party]);
+      if (next.length === kept.length || next.length === 0) {
+        next.forEach((party) => {
+          list[party] = owed[party] - constituency[party];
+        });
+        break;
+      }
+      parties = next;
+    }
+    return { list, houseSize: base };
+  }
+
+  const ineligibleSeats = OVERLAY_PARTIES.filter(
+    (party) => !eligible.includes(party)
+  ).reduce((sum, party) => sum + constituency[party], 0);
+  const owedAt = (tierSeats: number) => entitlement(tierSeats - ineligibleSeats, eligible);
+  const covers = (owed: PartySeats) =>
+    eligible.every((party) => owed[party] >= constituency[party]);
+  let owed = owedAt(base);
+  if (overhang === "leveling" && !covers(owed)) {
+    // Entitlements grow with the House, so bisect for the smallest size that
+    // covers every district seat. Bounded so a party with almost no vote
+    // cannot grow the House forever; anything still uncovered at the bound
+    // stays as overhang. Hamilton's rare Alabama paradox can leave a covered
+    // size just below the one found.
+    let uncovered = base;
+    let covered = base * 4;
+    if (covers(owedAt(covered))) {
+      while (covered - uncovered > 1) {
+        const middle = Math.floor((uncovered + covered) / 2);
+        if (covers(owedAt(middle))) covered = middle;
+        else uncovered = middle;
+      }
+    }
+    owed = owedAt(covered);
+  }
+  eligible.forEach((party) => {
+    list[party] = Math.max(0, owed[party] - constituency[party]);
+  });
+  return { list, houseSize: districtSeats + sumSeats(list) };
+};
+
+// `seatsByState` is the full House, which sets each state's weight in the
+// national vote and its size under state lists; `constituencySeatsByState`
+// is the apportionment of the district seats alone.
+export const allocateMmpHouse = (
+  seatsByState: Record<string, number>,
+  constituencySeatsByState: Record<string, number>,
+  votesByState: Record<string, PartyVoteShares>,
+  options: MmpOptions
+): MmpResult => {
+  const constituency = emptyPartySeats();
+  const list = emptyPartySeats();
+  const nationalVotes = emptyPartySeats();
+  let nominal = 0;
+  let houseSize = 0;
+
+  Object.entries(seatsByState).forEach(([abbr, seats]) => {
+    const votes = votesByState[abbr];
+    if (!votes || seats <= 0) return;
+    const districts = constituencySeats(
+      constituencySeatsByState[abbr] ?? 0,
+      votes,
+      options.seatVoteCurve
+    );
+    OVERLAY_PARTIES.forEach((party) => {
+      constituency[party] += districts[party];
+      nationalVotes[party] += votes[party] * seats;
+    });
+    nominal += seats;
+    if (options.tier === "state") {
+      const tier = compensate(seats, votes, districts, options);
+      OVERLAY_PARTIES.forEach((party) => {
+        list[party] += tier.list[party];
+      });
+      houseSize += tier.houseSize;
+    }
+  });
+
+  if (options.tier === "national" && nominal > 0) {
+    OVERLAY_PARTIES.forEach((party) => {
+      nationalVotes[party] /= nominal;
+    });
+    const tier = compensate(nominal, nationalVotes, constituency, options);
+    OVERLAY_PARTIES.forEach((party) => {
+      list[party] = tier.list[party];
+    });
+    houseSize = tier.houseSize;
+  }
+
+  const seats = emptyPartySeats();
+  OVERLAY_PARTIES.forEach((party) => {
+    seats[party] = constituency[party] + list[party];
+  });
+  return { constituency, list, seats, houseSize, added: houseSize - nominal };
+};
+
+// URL keys: `mmpc` for the district share in points, `mmpt` and `mmpo`.
+export const parseMmpSettings = (params: {
+  get: (key: string) => string | null;
+}): MmpSettings => {
+  const share = parsePercent(params.get("mmpc"), 1);
+  const tier = params.get("mmpt");
+  const overhang = params.get("mmpo");
+  return {
+    constituencyShare:
+      // Snapped to the slider's five-point steps.
+      share !== null && share >= MIN_MMP_CONSTITUENCY_SHARE
+        ? Math.round(share * 20) / 20
+        : DEFAULT_MMP_SETTINGS.constituencyShare,
+    tier: MMP_TIERS.includes(tier as MmpTier)
+      ? (tier as MmpTier)
+      : DEFAULT_MMP_SETTINGS.tier,
+    overhang: MMP_OVERHANG_RULES.includes(overhang as MmpOverhangRule)
+      ? (overhang as MmpOverhangRule)
+      : DEFAULT_MMP_SETTINGS.overhang,
+  };
+};
+
+export const writeMmpSettings = (params: URLSearchParams, settings: MmpSettings) => {
+  params.set("mmpc", formatPercent(settings.constituencyShare));
+  params.set("mmpt", settings.tier);
+  params.set("mmpo", settings.overhang);
 };
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import populations from "../data/populations.json";
+import type { StatePopulation } from "./metrics";
+import {
+  findAlabamaParadoxes,
+  findNewStatesParadoxes,
+  findPopulationParadoxes,
+  findQuotaViolations,
+} from "./paradoxes";
+
+describe("paradoxes", () => {
+  const populationsByState: Record<string, number> = {};
+  (populations as StatePopulation[])
+    .filter((state) => state.abbr !== "DC")
+    .forEach((state) => {
+      populationsByState[state.abbr] = state.population;
+    });
+
+  it("confirms Huntington–Hill is house-monotone", () => {
+    expect(findAlabamaParadoxes(populationsByState, "huntingtonHill", 435, 700)).toEqual(
+      []
+    );
+  });
+
+  it("lists Alabama-paradox counterexamples for Hamilton", () => {
+    const cases = findAlabamaParadoxes(
+      { A: 6000, B: 6000, C: 2000 },
+      "hamilton",
+      3,
+      12
+    );
+    expect(cases).toEqual([
+      { state: "C", houseSize: 11, seatsBefore: 2, seatsAfter: 1 },
+    ]);
+  });
+
+  it("detects a population paradox between two datasets", () => {
+    const cases = findPopulationParadoxes(
+      { A: 6031, B: 4362, C: 8022 },
+      { A: 6334, B: 5054, C: 9212 },
+      10,
+      "hamilton"
+    );
+    expect(cases).toHaveLength(1);
+    expect(cases[0]).toMatchObject({
+      loser: "B",
+      gainer: "C",
+      loserSeats: [3, 2],
+      gainerSeats: [4, 5],
+    });
+    expect(cases[0].loserGrowth).toBeGreaterThan(cases[0].gainerGrowth);
+  });
+
+  it("detects a new-states paradox when a state is admitted", () => {
+    const result = findNewStatesParadoxes(
+      { A: 50000, B: 23000 },
+      { abbr: "C", population: 13000 },
+      27,
+      "hamilton"
+    );
+    expect(result.addedSeats).toBe(5);
+    expect(result.cases).toEqual([
+      { state: "A", seatsBefore: 18, seatsAfter: 19 },
+      { state: "B", seatsBefore: 9, seatsAfter: 8 },
+    ]);
+    // A small state still brings the minimum it is guaranteed.
+    const small = findNewStatesParadoxes(
+      { A: 50000, B: 23000 },
+      { abbr: "C", population: 1000 },
+      27,
+      "hamilton",
+      3
+    );
+    expect(small).toMatchObject({ addedSeats: 3, addedStateSeats: 3 });
+  });
+
+  it("flags quota-rule violations for Jefferson but not Hamilton", () => {
+    const jefferson = findQuotaViolations(populationsByState, "jefferson", 435, 435);
+    expect(jefferson).toContainEqual(
+      expect.objectContaining({ state: "CA", houseSize: 435, seats: 54 })
+    );
+    expect(findQuotaViolations(populationsByState, "hamilton", 435, 500)).toEqual([]);
+  });
+
+  it("exempts seats a higher minimum forces", () => {
+    // B and C are held at three seats, which pushes A under its lower quota.
+    const cases = findQuotaViolations({ A: 9000, B: 500, C: 500 }, "hamilton", 10, 10, 3);
+    expect(cases).toEqual([{ state: "A", houseSize: 10, seats: 4, standardQuota: 9 }]);
+  });
+});
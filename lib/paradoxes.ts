@@ -0,0 +1,211 @@
+import {
+  apportion,
+  sweepApportionment,
+  type ApportionmentMethod,
+  type ApportionmentSweep,
+  type PopulationByState,
+} from "@/lib/apportionment";
+import { computeStandardQuota, violatesQuotaRule } from "@/lib/metrics";
+
+export type AlabamaParadoxCase = {
+  state: string;
+  houseSize: number;
+  seatsBefore: number;
+  seatsAfter: number;
+};
+
+export type QuotaViolationCase = {
+  state: string;
+  houseSize: number;
+  seats: number;
+  standardQuota: number;
+};
+
+export type PopulationParadoxCase = {
+  loser: string;
+  gainer: string;
+  loserGrowth: number;
+  gainerGrowth: number;
+  loserSeats: [number, number];
+  gainerSeats: [number, number];
+};
+
+export type NewStatesParadoxCase = {
+  state: string;
+  seatsBefore: number;
+  seatsAfter: number;
+};
+
+export type NewStatesParadoxResult = {
+  addedState: string;
+  addedSeats: number;
+  addedStateSeats: number;
+  cases: NewStatesParadoxCase[];
+};
+
+// Alabama paradox: a state loses a seat when the House grows by one.
+// `houseSize` is the larger of the two sizes compared. Pass a sweep covering
+// the range to reuse one already computed.
+export const findAlabamaParadoxes = (
+  populationsByState: PopulationByState,
+  method: ApportionmentMethod,
+  minSeats: number,
+  maxSeats: number,
+  sweep: ApportionmentSweep = sweepApportionment(
+    populationsByState,
+    minSeats,
+    maxSeats,
+    method
+  )
+): AlabamaParadoxCase[] => {
+  const cases: AlabamaParadoxCase[] = [];
+  let previous = sweep.seatsAt(minSeats);
+
+  for (let houseSize = minSeats + 1; houseSize <= maxSeats; houseSize += 1) {
+    const current = sweep.seatsAt(houseSize);
+    Object.keys(current).forEach((state) => {
+      if (current[state] < previous[state]) {
+        cases.push({
+          state,
+          houseSize,
+          seatsBefore: previous[state],
+          seatsAfter: current[state],
+        });
+      }
+    });
+    previous = current;
+  }
+
+  return cases;
+};
+
+// Population paradox: at a fixed House size, a state that grew faster than
+// another loses a seat while the slower-growing state gains one. Only states
+// present in both datasets are compared.
+export const findPopulationParadoxes = (
+  before: PopulationByState,
+  after: PopulationByState,
+  totalSeats: number,
+  method: ApportionmentMethod,
+  minSeatsPerState = 1
+): PopulationParadoxCase[] => {
+  const shared = Object.keys(before).filter((state) => state in after);
+  const sharedBefore: PopulationByState = {};
+  const sharedAfter: PopulationByState = {};
+  shared.forEach((state) => {
+    sharedBefore[state] = before[state];
+    sharedAfter[state] = after[state];
+  });
+
+  const seatsBefore = apportion(sharedBefore, totalSeats, method, minSeatsPerState);
+  const seatsAfter = apportion(sharedAfter, totalSeats, method, minSeatsPerState);
+  const growth = (state: string) => sharedAfter[state] / sharedBefore[state] - 1;
+
+  const losers = shared.filter((state) => seatsAfter[state] < seatsBefore[state]);
+  const gainers = shared.filter((state) => seatsAfter[state] > seatsBefore[state]);
+
+  const cases: PopulationParadoxCase[] = [];
+  losers.forEach((loser) => {
+    gainers.forEach((gainer) => {
+      if (growth(loser) <= growth(gainer)) return;
+      cases.push({
+        loser,
+        gainer,
+        loserGrowth: growth(loser),
+        gainerGrowth: growth(gainer),
+        loserSeats: [seatsBefore[loser], seatsAfter[loser]],
+        gainerSeats: [seatsBefore[gainer], seatsAfter[gainer]],
+      });
+    });
+  });
+
+  return cases;
+};
+
+// New-states paradox: admit a state, grow the House by its fair share of
+// seats, and report existing states whose delegations change anyway. The
+// share is at least the minimum the new state is guaranteed.
+export const findNewStatesParadoxes = (
+  populationsByState: PopulationByState,
+  addedState: { abbr: string; population: number },
+  totalSeats: number,
+  method: ApportionmentMethod,
+  minSeatsPerState = 1
+): NewStatesParadoxResult => {
+  const nationalPopulation = Object.values(populationsByState).reduce(
+    (sum, value) => sum + value,
+    0
+  );
+  const addedSeats = Math.max(
+    minSeatsPerState,
+    Math.round((addedState.population * totalSeats) / nationalPopulation)
+  );
+
+  const seatsBefore = apportion(populationsByState, totalSeats, method, minSeatsPerState);
+  const seatsAfter = apportion(
+    { ...populationsByState, [addedState.abbr]: addedState.population },
+    totalSeats + addedSeats,
+    method,
+    minSeatsPerState
+  );
+
+  const cases: NewStatesParadoxCase[] = [];
+  Object.keys(seatsBefore).forEach((state) => {
+    if (seatsAfter[state] !== seatsBefore[state]) {
+      cases.push({
+        state,
+        seatsBefore: seatsBefore[state],
+        seatsAfter: seatsAfter[state],
+      });
+    }
+  });
+
+  return {
+    addedState: addedState.abbr,
+    addedSeats,
+    addedStateSeats: seatsAfter[addedState.abbr] ?? 0,
+    cases,
+  };
+};
+
+// Quota rule: every state should receive the floor or ceiling of its
+// standard quota. Every divisor method can break it; Jefferson and Adams do
+// so at almost every House size.
+export const findQuotaViolations = (
+  populationsByState: PopulationByState,
+  method: ApportionmentMethod,
+  minSeats: number,
+  maxSeats: number,
+  minSeatsPerState = 1,
+  sweep: ApportionmentSweep = sweepApportionment(
+    populationsByState,
+    minSeats,
+    maxSeats,
+    method,
+    minSeatsPerState
+  )
+): QuotaViolationCase[] => {
+  const nationalPopulation = Object.values(populationsByState).reduce(
+    (sum, value) => sum + value,
+    0
+  );
+  const cases: QuotaViolationCase[] = [];
+
+  for (let houseSize = minSeats; houseSize <= maxSeats; houseSize += 1) {
+    const seats = sweep.seatsAt(houseSize);
+    Object.keys(seats).forEach((state) => {
+      const standardQuota = computeStandardQuota(populationsByState[state], {
+        nationalPopulation,
+        totalSeats: houseSize,
+      });
+      // Seats the minimum forces, constitutional or chosen, are not a quota
+      // violation.
+      if (seats[state] === minSeatsPerState && standardQuota < minSeatsPerState) return;
+      if (violatesQuotaRule(seats[state], standardQuota)) {
+        cases.push({ state, houseSize, seats: seats[state], standardQuota });
+      }
+    });
+  }
+
+  return cases;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { statePartyVoteShares } from "./overlays";
+import { computePartisanFairness } from "./partisanFairness";
+
+const unit = (abbr: string, seats: number, demShare: number, independents = 0) => ({
+  abbr,
+  seats,
+  votes: statePartyVoteShares(demShare, { libertarians: 0, greens: 0, independents }),
+});
+
+describe("partisan fairness", () => {
+  it("computes every measure for single-seat units", () => {
+    const { measures, seats, twoPartyVote, states } = computePartisanFairness([
+      unit("A", 1, 0.7),
+      unit("B", 1, 0.4),
+      unit("C", 1, 0.45),
+    ]);
+    const vote = 1.55 / 3;
+    expect(seats).toMatchObject({ democrats: 1, republicans: 2, independents: 0 });
+    expect(twoPartyVote).toBeCloseTo(vote, 12);
+    expect(measures.efficiencyGap).toBeCloseTo(1 / 3 - 0.5 - 2 * (vote - 0.5), 12);
+    expect(measures.meanMedian).toBeCloseTo(0.45 - vote, 12);
+    // A uniform swing to 50% leaves A the only Democratic seat.
+    expect(measures.partisanBias).toBeCloseTo(1 / 3 - 0.5, 12);
+    expect(measures.declination).toBeCloseTo(
+      (2 * (Math.atan(0.075 / (1 / 3)) - Math.atan(0.2 / (1 / 6)))) / Math.PI,
+      12
+    );
+    expect(measures.gallagher).toBeCloseTo(vote - 1 / 3, 12);
+    expect(states.A.partisanBias).toBeNull();
+  });
+
+  it("reports per-state measures and undefined national ones", () => {
+    const { measures, states } = computePartisanFairness([
+      unit("A", 10, 0.6, 0.1),
+      unit("B", 4, 0.55),
+    ]);
+    // A: 6 D, 3 R, 1 I; its two-party vote is 0.6 / 0.9.
+    expect(states.A.seats).toMatchObject({ democrats: 6, republicans: 3, independents: 1 });
+    expect(states.A.efficiencyGap).toBeCloseTo(6 / 9 - 0.5 - 2 * (0.6 / 0.9 - 0.5), 12);
+    expect(states.A.gallagher).toBeCloseTo(0, 12);
+    expect(states.B.twoPartySeats).toBeCloseTo(0.5, 12);
+    // An even vote splits B 2–2.
+    expect(states.B.partisanBias).toBeCloseTo(0, 12);
+    // Both units lean Democratic, so declination has no Republican side.
+    expect(measures.declination).toBeNull();
+    expect(measures.gallagher).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  allocateOverlaySeats,
+  DEFAULT_OVERLAY_ALLOCATION,
+  emptyPartySeats,
+  OVERLAY_PARTIES,
+  type OverlayAllocationOptions,
+  type PartySeats,
+  type PartyVoteShares,
+} from "@/lib/overlays";
+
+export type PartisanFairnessKey =
+  | "efficiencyGap"
+  | "meanMedian"
+  | "partisanBias"
+  | "declination"
+  | "gallagher";
+
+// Null where a measure is undefined, such as declination when one party
+// carries every unit.
+export type PartisanFairnessMeasures = Record<PartisanFairnessKey, number | null>;
+
+export type PartisanUnit = {
+  abbr: string;
+  seats: number;
+  votes: PartyVoteShares;
+};
+
+export type StatePartisanFairness = {
+  votes: PartyVoteShares;
+  seats: PartySeats;
+  // Democratic share of the two-party vote and of two-party seats.
+  twoPartyVote: number;
+  twoPartySeats: number | null;
+  efficiencyGap: number | null;
+  // Null when the state has a single seat.
+  partisanBias: number | null;
+  gallagher: number;
+};
+
+export type PartisanFairness = {
+  measures: PartisanFairnessMeasures;
+  seats: PartySeats;
+  twoPartyVote: number;
+  states: Record<string, StatePartisanFairness>;
+};
+
+export const PARTISAN_FAIRNESS_KEYS: PartisanFairnessKey[] = [
+  "efficiencyGap",
+  "meanMedian",
+  "partisanBias",
+  "declination",
+  "gallagher",
+];
+
+export type StatePartisanFairnessKey = "efficiencyGap" | "partisanBias" | "gallagher";
+
+export const STATE_PARTISAN_FAIRNESS_KEYS: StatePartisanFairnessKey[] = [
+  "efficiencyGap",
+  "partisanBias",
+  "gallagher",
+];
+
+export const partisanFairnessLabel = (key: PartisanFairnessKey) => {
+  if (key === "efficiencyGap") return "Efficiency gap";
+  if (key === "meanMedian") return "Mean–median difference";
+  if (key === "partisanBias") return "Partisan bias at 50%";
+  if (key === "declination") return "Declination";
+  return "Gallagher index";
+};
+
+export const partisanFairnessDescription = (key: PartisanFairnessKey) => {
+  if (key === "efficiencyGap") {
+    return "Seat share minus half, less twice the vote share minus half: the wasted-vote gap with equal turnout per seat.";
+  }
+  if (key === "meanMedian") {
+    return "Median seat's Democratic vote share minus the mean; negative when Democratic votes are packed.";
+  }
+  if (key === "partisanBias") {
+    return "Democratic seat share above half after a uniform swing to an even national vote.";
+  }
+  if (key === "declination") {
+    return "Angle between the average winning shares of each side, scaled to ±1 (Warrington).";
+  }
+  return "Least-squares gap between vote and seat shares across every party.";
+};
+
+// Every signed measure is positive when the translation favors Democrats.
+// The Gallagher index is unsigned.
+export const partisanFairnessFavors = (key: PartisanFairnessKey, value: number) => {
+  if (key === "gallagher" || Math.abs(value) < 1e-9) return null;
+  return value > 0 ? "D" : "R";
+};
+
+const twoParty = (democrats: number, republicans: number) =>
+  democrats + republicans > 0 ? democrats / (democrats + republicans) : null;
+
+const efficiencyGap = (seatShare: number | null, voteShare: number) =>
+  seatShare === null ? null : seatShare - 0.5 - 2 * (voteShare - 0.5);
+
+const gallagher = (votes: PartyVoteShares, seats: PartySeats) => {
+  const total = OVERLAY_PARTIES.reduce((sum, party) => sum + seats[party], 0);
+  if (total === 0) return 0;
+  const squared = OVERLAY_PARTIES.reduce(
+    (sum, party) => sum + (votes[party] - seats[party] / total) ** 2,
+    0
+  );
+  return Math.sqrt(squared / 2);
+};
+
+const median = (sorted: number[]) => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Warrington's declination with its sign flipped to favor Democrats when
+// positive. Units on exactly 50% count for neither side.
+const declination = (shares: number[]) => {
+  const rep = shares.filter((share) => share < 0.5);
+  const dem = shares.filter((share) => share > 0.5);
+  if (rep.length === 0 || dem.length === 0) return null;
+  const n = rep.length + dem.length;
+  const thetaRep = Math.atan((0.5 - mean(rep)) / (rep.length / (2 * n)));
+  const thetaDem = Math.atan((mean(dem) - 0.5) / (dem.length / (2 * n)));
+  return (2 * (thetaRep - thetaDem)) / Math.PI;
+};
+
+// Moves the two-party Democratic share by `swing`; minor parties keep theirs.
+const swingVotes = (votes: PartyVoteShares, swing: number): PartyVoteShares => {
+  const major = votes.democrats + votes.republicans;
+  const share = Math.min(
+    1,
+    Math.max(0, (twoParty(votes.democrats, votes.republicans) ?? 0.5) + swing)
+  );
+  return { ...votes, democrats: share * major, republicans: (1 - share) * major };
+};
+
+const addSeats = (total: PartySeats, seats: PartySeats) => {
+  OVERLAY_PARTIES.forEach((party) => {
+    total[party] += seats[party];
+  });
+};
+
+// Democratic two-party seat share above half once every unit swings by the
+// same amount to an even vote.
+const partisanBias = (
+  units: PartisanUnit[],
+  twoPartyVote: number,
+  options: OverlayAllocationOptions
+) => {
+  const swung = emptyPartySeats();
+  units.forEach((unit) => {
+    addSeats(
+      swung,
+      allocateOverlaySeats(unit.seats, swingVotes(unit.votes, 0.5 - twoPartyVote), options)
+    );
+  });
+  const swungSeats = twoParty(swung.democrats, swung.republicans);
+  return swungSeats === null ? null : swungSeats - 0.5;
+};
+
+// A single seat ties at an even vote.
+const MIN_BIAS_SEATS = 2;
+
+// Treats each state as a multi-member unit filled by the overlay's
+// allocation. Measures built on a distribution of districts (mean–median,
+// declination) give every seat its state's statewide share, so turnout is
+// taken as equal per seat throughout. Those two need a spread of shares, so
+// they are national only; states get the measures that vary between them.
+export const computePartisanFairness = (
+  units: PartisanUnit[],
+  options: OverlayAllocationOptions = DEFAULT_OVERLAY_ALLOCATION
+): PartisanFairness => {
+  const states: Record<string, StatePartisanFairness> = {};
+  const seats = emptyPartySeats();
+  const votes = emptyPartySeats();
+  const seatShares: number[] = [];
+  let totalSeats = 0;
+
+  units.forEach((unit) => {
+    if (unit.seats <= 0) return;
+    const stateVotes = unit.votes;
+    const stateSeats = allocateOverlaySeats(unit.seats, stateVotes, options);
+    const twoPartyVote = twoParty(stateVotes.democrats, stateVotes.republicans) ?? 0.5;
+    const twoPartySeats = twoParty(stateSeats.democrats, stateSeats.republicans);
+    states[unit.abbr] = {
+      votes: stateVotes,
+      seats: stateSeats,
+      twoPartyVote,
+      twoPartySeats,
+      efficiencyGap: efficiencyGap(twoPartySeats, twoPartyVote),
+      partisanBias:
+        unit.seats >= MIN_BIAS_SEATS ? partisanBias([unit], twoPartyVote, options) : null,
+      gallagher: gallagher(stateVotes, stateSeats),
+    };
+
+    addSeats(seats, stateSeats);
+    OVERLAY_PARTIES.forEach((party) => {
+      votes[party] += stateVotes[party] * unit.seats;
+    });
+    totalSeats += unit.seats;
+    for (let seat = 0; seat < unit.seats; seat += 1) seatShares.push(twoPartyVote);
+  });
+
+  if (totalSeats === 0) {
+    return {
+      measures: {
+        efficiencyGap: null,
+        meanMedian: null,
+        partisanBias: null,
+        declination: null,
+        gallagher: null,
+      },
+      seats,
+      twoPartyVote: 0.5,
+      states,
+    };
+  }
+
+  const nationalVotes = emptyPartySeats();
+  OVERLAY_PARTIES.forEach((party) => {
+    nationalVotes[party] = votes[party] / totalSeats;
+  });
+  const twoPartyVote = mean(seatShares);
+  const sortedShares = [...seatShares].sort((a, b) => a - b);
+
+  return {
+    measures: {
+      efficiencyGap: efficiencyGap(twoParty(seats.democrats, seats.republicans), twoPartyVote),
+      meanMedian: median(sortedShares) - twoPartyVote,
+      partisanBias: partisanBias(units, twoPartyVote, options),
+      declination: declination(seatShares),
+      gallagher: gallagher(nationalVotes, seats),
+    },
+    seats,
+    twoPartyVote,
+    states,
+  };
+};
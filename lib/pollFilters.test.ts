@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_POLL_FILTERS,
+  describePollFilters,
+  parsePollFilters,
+  writePollFilters,
+} from "./pollFilters";
+
+describe("poll filters", () => {
+  it("keeps the defaults without params and round-trips edits", () => {
+    expect(parsePollFilters(new URLSearchParams())).toEqual({
+      filters: DEFAULT_POLL_FILTERS,
+      errors: [],
+    });
+
+    const filters = {
+      races: ["senate" as const, "governor" as const],
+      cycle: 2024,
+      startDate: "2024-09-01",
+      endDate: "2024-11-04",
+      minGrade: "A-",
+      includePartisan: true,
+      includeInternal: false,
+      populations: ["lv" as const],
+    };
+    const params = new URLSearchParams();
+    writePollFilters(params, filters);
+    expect(params.toString()).toBe(
+      "race=senate%2Cgovernor&cycle=2024&start=2024-09-01&end=2024-11-04&grade=A-&partisan=1&population=lv"
+    );
+    expect(parsePollFilters(params)).toEqual({ filters, errors: [] });
+    expect(describePollFilters(filters)).toBe(
+      "Senate and Governor polls; 2024 cycle; ending 2024-09-01 to 2024-11-04; grade A- or better; partisan sponsors included; non-internal; populations LV"
+    );
+  });
+
+  it("reports every invalid param", () => {
+    const { errors } = parsePollFilters(
+      new URLSearchParams(
+        "race=house&cycle=2023&start=2024-02-30&end=2024-01-01&grade=Z&internal=maybe&population="
+      )
+    );
+    expect(errors.map((error) => error.param)).toEqual([
+      "race",
+      "cycle",
+      "start",
+      "grade",
+      "internal",
+      "population",
+    ]);
+    expect(
+      parsePollFilters(new URLSearchParams("start=2024-06-01&end=2024-01-01")).errors
+    ).toEqual([
+      { param: "start", value: "2024-06-01", message: "The start date is after the end date." },
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import { POLL_RACES, type PollRace } from "@/lib/pollRaces";
+
+// FiveThirtyEight's `population` codes: likely voters, registered voters,
+// all adults and voters.
+export type PollPopulation = "lv" | "rv" | "a" | "v";
+
+export type PollFilters = {
+  races: PollRace[];
+  cycle: number | null;
+  // Inclusive end-date bounds, as YYYY-MM-DD.
+  startDate: string | null;
+  endDate: string | null;
+  minGrade: string;
+  includePartisan: boolean;
+  includeInternal: boolean;
+  populations: PollPopulation[];
+};
+
+export type PollFilterError = {
+  param: string;
+  value: string;
+  message: string;
+};
+
+export const POLL_FILTER_RACES: PollRace[] = POLL_RACES.map((race) => race.key);
+
+// Best first.
+export const POLL_GRADES = [
+  "A+",
+  "A",
+  "A-",
+  "A/B",
+  "B+",
+  "B",
+  "B-",
+  "B/C",
+  "C+",
+  "C",
+  "C-",
+  "C/D",
+  "D+",
+  "D",
+  "D-",
+  "F",
+];
+
+export const POLL_POPULATIONS: PollPopulation[] = ["lv", "rv", "a", "v"];
+
+export const DEFAULT_POLL_FILTERS: PollFilters = {
+  races: POLL_FILTER_RACES,
+  cycle: null,
+  startDate: null,
+  endDate: null,
+  minGrade: "B/C",
+  includePartisan: false,
+  includeInternal: false,
+  populations: POLL_POPULATIONS,
+};
+
+const MIN_CYCLE = 1968;
+const MAX_CYCLE = 2100;
+
+export const pollGradeRank = (grade: string | null) => {
+  const rank = POLL_GRADES.indexOf((grade ?? "").trim().toUpperCase());
+  return rank === -1 ? null : rank;
+};
+
+export const pollRaceLabel = (race: PollRace) =>
+  POLL_RACES.find((entry) => entry.key === race)?.label ?? race;
+
+export const pollPopulationLabel = (population: PollPopulation) => {
+  if (population === "lv") return "Likely voters";
+  if (population === "rv") return "Registered voters";
+  if (population === "a") return "Adults";
+  return "Voters";
+};
+
+const parseDay = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value
+    ? null
+    : date;
+};
+
+const parseList = <T extends string>(value: string, allowed: T[]) => {
+  const entries = value
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  const unknown = entries.filter((entry) => !allowed.includes(entry as T));
+  return { entries: [...new Set(entries)] as T[], unknown };
+};
+
+const parseFlag = (value: string) => {
+  const normalized = value.trim().toLowerCase();
+  if (["1", "true", "yes"].includes(normalized)) return true;
+  if (["0", "false", "no"].includes(normalized)) return false;
+  return null;
+};
+
+// Query keys: `race` and `population` as comma lists, `cycle`, `start` and
+// `end` (YYYY-MM-DD), `grade` for the minimum grade, and `partisan` and
+// `internal` as 0 or 1. Missing keys keep the defaults.
+export const parsePollFilters = (params: {
+  get: (key: string) => string | null;
+}): { filters: PollFilters; errors: PollFilterError[] } => {
+  const filters = { ...DEFAULT_POLL_FILTERS };
+  const errors: PollFilterError[] = [];
+  const fail = (param: string, value: string, message: string) => {
+    errors.push({ param, value, message });
+  };
+
+  const race = params.get("race");
+  if (race !== null) {
+    const { entries, unknown } = parseList(race, POLL_FILTER_RACES);
+    if (unknown.length > 0 || entries.length === 0) {
+      fail("race", race, `Use one or more of ${POLL_FILTER_RACES.join(", ")}.`);
+    } else {
+      filters.races = POLL_FILTER_RACES.filter((entry) => entries.includes(entry));
+    }
+  }
+
+  const cycle = params.get("cycle");
+  if (cycle !== null) {
+    const year = Number(cycle);
+    if (!Number.isInteger(year) || year < MIN_CYCLE || year > MAX_CYCLE || year % 2) {
+      fail("cycle", cycle, `Use an even election year from ${MIN_CYCLE} to ${MAX_CYCLE}.`);
+    } else {
+      filters.cycle = year;
+    }
+  }
+
+  (["start", "end"] as const).forEach((param) => {
+    const value = params.get(param);
+    if (value === null) return;
+    if (!parseDay(value)) {
+      fail(param, value, "Use a calendar date as YYYY-MM-DD.");
+    } else if (param === "start") {
+      filters.startDate = value;
+    } else {
+      filters.endDate = value;
+    }
+  });
+  if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+    fail("start", filters.startDate, "The start date is after the end date.");
+  }
+
+  const grade = params.get("grade");
+  if (grade !== null) {
+    const rank = pollGradeRank(grade);
+    if (rank === null) {
+      fail("grade", grade, `Use one of ${POLL_GRADES.join(", ")}.`);
+    } else {
+      filters.minGrade = POLL_GRADES[rank];
+    }
+  }
+
+  (["partisan", "internal"] as const).forEach((param) => {
+    const value = params.get(param);
+    if (value === null) return;
+    const flag = parseFlag(value);
+    if (flag === null) {
+      fail(param, value, "Use 1 or 0.");
+    } else if (param === "partisan") {
+      filters.includePartisan = flag;
+    } else {
+      filters.includeInternal = flag;
+    }
+  });
+
+  const population = params.get("population");
+  if (population !== null) {
+    const { entries, unknown } = parseList(population, POLL_POPULATIONS);
+    if (unknown.length > 0 || entries.length === 0) {
+      fail("population", population, `Use one or more of ${POLL_POPULATIONS.join(", ")}.`);
+    } else {
+      filters.populations = POLL_POPULATIONS.filter((entry) => entries.includes(entry));
+    }
+  }
+
+  return { filters, errors };
+};
+
+// Only keys that differ from the defaults are written.
+export const writePollFilters = (params: URLSearchParams, filters: PollFilters) => {
+  const defaults = DEFAULT_POLL_FILTERS;
+  if (filters.races.join(",") !== defaults.races.join(",")) {
+    params.set("race", filters.races.join(","));
+  }
+  if (filters.cycle !== null) params.set("cycle", String(filters.cycle));
+  if (filters.startDate) params.set("start", filters.startDate);
+  if (filters.endDate) params.set("end", filters.endDate);
+  if (filters.minGrade !== defaults.minGrade) params.set("grade", filters.minGrade);
+  if (filters.includePartisan) params.set("partisan", "1");
+  if (filters.includeInternal) params.set("internal", "1");
+  if (filters.populations.join(",") !== defaults.populations.join(",")) {
+    params.set("population", filters.populations.join(","));
+  }
+};
+
+const joinLabels = (labels: string[]) =>
+  labels.length <= 1
+    ? labels.join("")
+    : `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`;
+
+export const describePollFilters = (filters: PollFilters) => {
+  const dates =
+    filters.startDate && filters.endDate
+      ? `ending ${filters.startDate} to ${filters.endDate}`
+      : filters.startDate
+        ? `ending on or after ${filters.startDate}`
+        : filters.endDate
+          ? `ending on or before ${filters.endDate}`
+          : "any end date";
+  return [
+    `${joinLabels(filters.races.map(pollRaceLabel))} polls`,
+    filters.cycle === null ? "any cycle" : `${filters.cycle} cycle`,
+    dates,
+    `grade ${filters.minGrade} or better`,
+    filters.includePartisan ? "partisan sponsors included" : "non-partisan",
+    filters.includeInternal ? "internal polls included" : "non-internal",
+    `populations ${filters.populations.map((entry) => entry.toUpperCase()).join("/")}`,
+  ].join("; ");
+};
@@ -0,0 +1,17 @@
+// Races with statewide polls, shared by the sources and the request filters.
+// Kept apart from the sources so the client can read it without their
+// file-system code.
+export type PollRace = "president" | "senate" | "governor";
+
+export type PollRaceTable = {
+  key: PollRace;
+  // FiveThirtyEight's polls table for the race.
+  table: string;
+  label: string;
+};
+
+export const POLL_RACES: PollRaceTable[] = [
+  { key: "president", table: "president_polls", label: "President" },
+  { key: "senate", table: "senate_polls", label: "Senate" },
+  { key: "governor", table: "governor_polls", label: "Governor" },
+];
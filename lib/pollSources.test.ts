@@ -0,0 +1,67 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createFilePollSource, resolvePollSource } from "./pollSources";
+
+const CSV = `race,state,pollster,fte_grade,end_date,candidate_party,pct,sample_size,poll_id,question_id,partisan,internal
+president,Pennsylvania,"Muhlenberg College, PA",A,10/30/24,DEM,48.5,812,101,1,,
+president,Pennsylvania,"Muhlenberg College, PA",A,10/30/24,REP,47,812,101,1,,
+senate,OH,Marist,A,10/28/24,DEM,46,,202,7,,false
+`;
+
+describe("poll source adapters", () => {
+  let dir = "";
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "polls-"));
+    await writeFile(path.join(dir, "polls.csv"), CSV);
+    await writeFile(
+      path.join(dir, "polls.json"),
+      JSON.stringify([{ race: "governor", state: "NC", pct: 51, internal: null }])
+    );
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads CSV rows for one race, with blanks as null", async () => {
+    const source = createFilePollSource("polls.csv", dir);
+    const rows = await source.fetchRows("president");
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toEqual({
+      state: "Pennsylvania",
+      pollster: "Muhlenberg College, PA",
+      fte_grade: "A",
+      end_date: "10/30/24",
+      candidate_party: "DEM",
+      pct: "48.5",
+      sample_size: "812",
+      poll_id: "101",
+      question_id: "1",
+      partisan: null,
+      internal: null,
+      cycle: null,
+      population: null,
+    });
+    expect(await source.fetchRows("governor")).toEqual([]);
+  });
+
+  it("reads JSON rows and rejects paths outside the data directory", async () => {
+    const rows = await createFilePollSource("polls.json", dir).fetchRows("governor");
+    expect(rows[0]).toMatchObject({ state: "NC", pct: 51, pollster: null });
+    await expect(
+      createFilePollSource("../polls.csv", dir).fetchRows("senate")
+    ).rejects.toThrow("outside data/");
+  });
+
+  it("picks the adapter from the environment", () => {
+    expect(resolvePollSource({}).id).toBe("datasette");
+    expect(resolvePollSource({ POLL_SOURCE_URL: "http://localhost/polls.json" }).sourceUrl).toBe(
+      "http://localhost/polls.json"
+    );
+    expect(resolvePollSource({ POLL_SOURCE: "file" }).label).toBe("data/statewidePolls.csv");
+    expect(() => resolvePollSource({ POLL_SOURCE: "gallup" })).toThrow("Unknown POLL_SOURCE");
+  });
+});
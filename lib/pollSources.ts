@@ -0,0 +1,206 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { POLL_RACES, type PollRace } from "@/lib/pollRaces";
+
+// One candidate's line in a poll, in FiveThirtyEight's polls-table columns.
+// Every source returns these so the statewide filters treat them alike.
+export type PollRow = {
+  state: string | null;
+  pollster: string | null;
+  fte_grade: string | null;
+  end_date: string | null;
+  candidate_party: string | null;
+  pct: number | string | null;
+  sample_size: number | string | null;
+  poll_id: string | number | null;
+  question_id: string | number | null;
+  partisan: string | null;
+  internal: string | number | boolean | null;
+  cycle: number | string | null;
+  population: string | null;
+};
+
+export type PollSourceAdapter = {
+  id: string;
+  // Where the polls come from, for the API's methodology note.
+  label: string;
+  sourceUrl: string | null;
+  fetchRows: (race: PollRace) => Promise<PollRow[]>;
+};
+
+export const DATASETTE_ROOT = "https://fivethirtyeight.datasettes.com/polls.json";
+export const DEFAULT_POLL_FILE = "statewidePolls.csv";
+
+const POLL_COLUMNS: (keyof PollRow)[] = [
+  "state",
+  "pollster",
+  "fte_grade",
+  "end_date",
+  "candidate_party",
+  "pct",
+  "sample_size",
+  "poll_id",
+  "question_id",
+  "partisan",
+  "internal",
+  "cycle",
+  "population",
+];
+
+const SQL_TEMPLATE = (table: string) => `
+  select
+    ${POLL_COLUMNS.join(",\n    ")}
+  from ${table}
+  where state is not null
+    and trim(state) != ''
+    and candidate_party in ('DEM', 'REP')
+`;
+
+export const createDatasettePollSource = (root = DATASETTE_ROOT): PollSourceAdapter => ({
+  id: "datasette",
+  label: "FiveThirtyEight's public polls tables",
+  sourceUrl: root,
+  fetchRows: async (race) => {
+    const entry = POLL_RACES.find((candidate) => candidate.key === race);
+    if (!entry) {
+      throw new Error(`Unknown poll race ${race}`);
+    }
+    const { table } = entry;
+    const url = new URL(root);
+    url.searchParams.set("sql", SQL_TEMPLATE(table));
+    url.searchParams.set("_shape", "array");
+
+    const response = await fetch(url.toString(), {
+      next: { revalidate: 60 * 60 * 6 },
+    });
+    if (!response.ok) {
+      throw new Error(`Polling source ${table} failed`);
+    }
+    return (await response.json()) as PollRow[];
+  },
+});
+
+// Quoted fields may hold commas, doubled quotes and line breaks.
+const parseCsv = (text: string) => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((entry) => entry.some((value) => value.trim() !== ""));
+};
+
+const csvRows = (text: string) => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((name) => name.trim());
+  return records.map((values) => {
+    const row: Record<string, string | null> = {};
+    columns.forEach((column, index) => {
+      const value = values[index]?.trim() ?? "";
+      row[column] = value === "" ? null : value;
+    });
+    return row;
+  });
+};
+
+const toPollRow = (raw: Record<string, unknown>): PollRow => {
+  const row = {} as Record<keyof PollRow, unknown>;
+  POLL_COLUMNS.forEach((column) => {
+    row[column] = raw[column] ?? null;
+  });
+  return row as PollRow;
+};
+
+// A CSV or JSON file in `data/` with the polls-table columns plus `race`
+// (president, senate or governor). JSON files hold an array of row objects.
+export const createFilePollSource = (
+  fileName = DEFAULT_POLL_FILE,
+  dataDir = path.join(process.cwd(), "data")
+): PollSourceAdapter => {
+  const filePath = path.resolve(dataDir, fileName);
+  let rows: Promise<Record<string, unknown>[]> | null = null;
+
+  const load = async () => {
+    if (!filePath.startsWith(dataDir + path.sep)) {
+      throw new Error(`Poll file ${fileName} is outside data/`);
+    }
+    const text = await readFile(filePath, "utf8").catch(() => {
+      throw new Error(`Poll file data/${fileName} could not be read`);
+    });
+    if (fileName.toLowerCase().endsWith(".json")) {
+      const parsed: unknown = JSON.parse(text);
+      if (!Array.isArray(parsed)) {
+        throw new Error(`Poll file data/${fileName} must hold an array of rows`);
+      }
+      return parsed as Record<string, unknown>[];
+    }
+    return csvRows(text);
+  };
+
+  return {
+    id: "file",
+    label: `data/${fileName}`,
+    sourceUrl: null,
+    fetchRows: async (race) => {
+      // Read once per adapter; the three races share the file.
+      rows ??= load();
+      return (await rows)
+        .filter((row) => String(row.race ?? "").trim().toLowerCase() === race)
+        .map(toPollRow);
+    },
+  };
+};
+
+export const createFixturePollSource = (
+  rowsByRace: Partial<Record<PollRace, PollRow[]>>
+): PollSourceAdapter => ({
+  id: "fixture",
+  label: "in-memory fixture",
+  sourceUrl: null,
+  fetchRows: async (race) => rowsByRace[race] ?? [],
+});
+
+// POLL_SOURCE picks the adapter: `datasette` (the default, with an optional
+// POLL_SOURCE_URL) or `file` (POLL_SOURCE_FILE, relative to data/).
+export const resolvePollSource = (
+  env: Record<string, string | undefined> = process.env
+): PollSourceAdapter => {
+  const source = (env.POLL_SOURCE ?? "").trim().toLowerCase() || "datasette";
+  if (source === "datasette") {
+    return createDatasettePollSource(env.POLL_SOURCE_URL?.trim() || DATASETTE_ROOT);
+  }
+  if (source === "file") {
+    return createFilePollSource(env.POLL_SOURCE_FILE?.trim() || DEFAULT_POLL_FILE);
+  }
+  throw new Error(`Unknown POLL_SOURCE "${env.POLL_SOURCE}"`);
+};
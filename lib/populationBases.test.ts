@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { apportion } from "./apportionment";
+import { getCensusDataset } from "./census";
+import {
+  applyPopulationBase,
+  hasPopulationBase,
+  POPULATION_BASES,
+  type PopulationBase,
+} from "./populationBases";
+
+const seatsFor = (base: PopulationBase) => {
+  const states = applyPopulationBase(getCensusDataset(2020).states, base);
+  const byState: Record<string, number> = {};
+  states
+    .filter((state) => state.abbr !== "DC")
+    .forEach((state) => {
+      byState[state.abbr] = state.population;
+    });
+  return apportion(byState, 435);
+};
+
+describe("population bases", () => {
+  it("has every base for the 2020 census", () => {
+    const states = getCensusDataset(2020).states;
+    POPULATION_BASES.forEach((base) => {
+      expect(hasPopulationBase(states, base)).toBe(true);
+    });
+  });
+
+  it("falls back to resident counts for earlier censuses", () => {
+    const states = getCensusDataset(2010).states;
+    expect(hasPopulationBase(states, "resident")).toBe(true);
+    expect(hasPopulationBase(states, "citizen")).toBe(false);
+    expect(applyPopulationBase(states, "citizen")).toEqual(states);
+  });
+
+  it("matches the official totals and moves prisoners without losing any", () => {
+    const states = getCensusDataset(2020).states.filter(
+      (state) => state.abbr !== "DC"
+    );
+    const total = (base: PopulationBase) =>
+      applyPopulationBase(states, base).reduce(
+        (sum, state) => sum + state.population,
+        0
+      );
+    expect(total("resident")).toBe(330759736);
+    expect(total("withOverseas")).toBe(331108434);
+    expect(total("prisonersAtHome")).toBe(total("resident"));
+  });
+
+  it("reproduces the enacted 2020 seats with overseas employees included", () => {
+    expect(seatsFor("withOverseas")).toEqual(getCensusDataset(2020).enactedSeats);
+  });
+
+  it("moves seats away from California on a citizen base", () => {
+    const resident = seatsFor("resident");
+    const citizen = seatsFor("citizen");
+    expect(citizen.CA).toBeLessThan(resident.CA);
+    expect(Object.values(citizen).reduce((sum, seats) => sum + seats, 0)).toBe(435);
+  });
+});
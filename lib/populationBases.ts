@@ -0,0 +1,61 @@
+import type { StatePopulation } from "@/lib/metrics";
+
+export type PopulationBase =
+  | "resident"
+  | "withOverseas"
+  | "citizen"
+  | "votingAge"
+  | "prisonersAtHome";
+
+export type AlternativePopulationBase = Exclude<PopulationBase, "resident">;
+
+export const POPULATION_BASES: PopulationBase[] = [
+  "resident",
+  "withOverseas",
+  "citizen",
+  "votingAge",
+  "prisonersAtHome",
+];
+
+export const DEFAULT_POPULATION_BASE: PopulationBase = "resident";
+
+export const populationBaseLabel = (base: PopulationBase) => {
+  switch (base) {
+    case "withOverseas":
+      return "Resident + overseas federal employees";
+    case "citizen":
+      return "Citizen population";
+    case "votingAge":
+      return "Voting-age population";
+    case "prisonersAtHome":
+      return "Prisoners at home address";
+    default:
+      return "Resident population";
+  }
+};
+
+export const isPopulationBase = (value: string | null): value is PopulationBase =>
+  value !== null && POPULATION_BASES.includes(value as PopulationBase);
+
+export const populationForBase = (state: StatePopulation, base: PopulationBase) =>
+  base === "resident" ? state.population : state.bases?.[base] ?? state.population;
+
+// DC is not apportioned, so a base only needs counts for the states.
+export const hasPopulationBase = (states: StatePopulation[], base: PopulationBase) =>
+  base === "resident" ||
+  states
+    .filter((state) => state.abbr !== "DC")
+    .every((state) => state.bases?.[base] != null);
+
+// Swaps each state's `population` for the chosen count so apportionment and
+// metrics can stay base-agnostic.
+export const applyPopulationBase = (
+  states: StatePopulation[],
+  base: PopulationBase
+): StatePopulation[] =>
+  base === "resident"
+    ? states
+    : states.map((state) => ({
+        ...state,
+        population: populationForBase(state, base),
+      }));
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import populations from "../data/populations.json";
+import { apportion } from "./apportionment";
+import { computeECVotes, type StatePopulation } from "./metrics";
+import {
+  buildElectoralPlayers,
+  computePlayerPower,
+  computeVotingPower,
+  type ElectoralPlayer,
+} from "./power";
+
+const states = populations as StatePopulation[];
+
+const playersFor = (weights: number[]): ElectoralPlayer[] =>
+  weights.map((weight, index) => ({
+    id: `P${index}`,
+    state: `P${index}`,
+    weight,
+    population: 1,
+  }));
+
+// Enumerates every coalition; only usable for small games.
+const bruteForceSwings = (weights: number[], quota: number) => {
+  const swings = weights.map(() => 0);
+  for (let mask = 0; mask < 2 ** weights.length; mask += 1) {
+    const total = weights.reduce(
+      (sum, weight, index) => (mask & (1 << index) ? sum + weight : sum),
+      0
+    );
+    if (total < quota) continue;
+    weights.forEach((weight, index) => {
+      if (mask & (1 << index) && total - weight < quota) swings[index] += 1;
+    });
+  }
+  return swings;
+};
+
+const electoralVotes2020 = () => {
+  const byState: Record<string, number> = {};
+  states
+    .filter((state) => state.abbr !== "DC")
+    .forEach((state) => {
+      byState[state.abbr] = state.population;
+    });
+  const seats = apportion(byState, 435);
+  const ecVotes: Record<string, number> = {};
+  const populationsByState: Record<string, number> = {};
+  states.forEach((state) => {
+    ecVotes[state.abbr] = computeECVotes(
+      state.abbr,
+      seats[state.abbr] ?? 0,
+      state.abbr in seats
+    );
+    populationsByState[state.abbr] = state.population;
+  });
+  return { seats, ecVotes, populationsByState };
+};
+
+describe("voting power", () => {
+  it("matches the textbook [4; 3, 2, 1] game", () => {
+    const power = computePlayerPower(playersFor([3, 2, 1]));
+    expect(power.P0.banzhaf).toBeCloseTo(0.6);
+    expect(power.P1.banzhaf).toBeCloseTo(0.2);
+    expect(power.P0.shapleyShubik).toBeCloseTo(2 / 3);
+    expect(power.P2.shapleyShubik).toBeCloseTo(1 / 6);
+    expect(power.P0.swingProbability).toBeCloseTo(3 / 4);
+  });
+
+  it("agrees with brute force on a larger game", () => {
+    const weights = [9, 7, 7, 5, 4, 3, 3, 3, 2, 1, 1];
+    const quota = 26;
+    const power = computePlayerPower(playersFor(weights), quota);
+    const swings = bruteForceSwings(weights, quota);
+    const total = swings.reduce((sum, value) => sum + value, 0);
+    weights.forEach((_, index) => {
+      expect(power[`P${index}`].banzhaf).toBeCloseTo(swings[index] / total, 12);
+    });
+    const shapleyTotal = Object.values(power).reduce(
+      (sum, entry) => sum + entry.shapleyShubik,
+      0
+    );
+    expect(shapleyTotal).toBeCloseTo(1, 12);
+  });
+
+  it("keeps counts exact past 2^53", () => {
+    // 61 equal players: C(60, 30) swing coalitions each, about 1.2e17.
+    const power = computePlayerPower(playersFor(Array(61).fill(1)));
+    let swings = 1n;
+    for (let k = 1n; k <= 30n; k += 1n) swings = (swings * (30n + k)) / k;
+    expect(swings > 2n ** 53n).toBe(true);
+    expect(power.P0.swingProbability).toBeCloseTo(Number(swings) / 2 ** 60, 15);
+    expect(power.P60.banzhaf).toBeCloseTo(1 / 61, 15);
+    expect(power.P60.shapleyShubik).toBeCloseTo(1 / 61, 15);
+  });
+
+  it("splits Maine and Nebraska into at-large and district electors", () => {
+    const { seats, ecVotes, populationsByState } = electoralVotes2020();
+    const players = buildElectoralPlayers(ecVotes, seats, populationsByState);
+    expect(players.filter((player) => player.state === "NE")).toHaveLength(4);
+    expect(players.find((player) => player.id === "ME-AL")?.weight).toBe(2);
+    expect(players.reduce((sum, player) => sum + player.weight, 0)).toBe(538);
+  });
+
+  it("scores the 2020 Electoral College", () => {
+    const { seats, ecVotes, populationsByState } = electoralVotes2020();
+    const power = computeVotingPower(ecVotes, seats, populationsByState);
+    const sum = (key: "banzhaf" | "shapleyShubik") =>
+      Object.values(power).reduce((acc, entry) => acc + entry[key], 0);
+    expect(sum("banzhaf")).toBeCloseTo(1, 10);
+    expect(sum("shapleyShubik")).toBeCloseTo(1, 10);
+
+    const totalPopulation = Object.keys(power).reduce(
+      (acc, state) => acc + populationsByState[state],
+      0
+    );
+    const weightedAverage =
+      Object.keys(power).reduce(
+        (acc, state) => acc + power[state].banzhafPerVoter * populationsByState[state],
+        0
+      ) / totalPopulation;
+    expect(weightedAverage).toBeCloseTo(1, 10);
+
+    // The square-root rule favors large-state voters; per-capita shares
+    // favor small-state voters.
+    expect(power.CA.banzhafPerVoter).toBeGreaterThan(power.WY.banzhafPerVoter);
+    expect(power.WY.shapleyShubikPerVoter).toBeGreaterThan(
+      power.CA.shapleyShubikPerVoter
+    );
+    expect(power.CA.shapleyShubik).toBeGreaterThan(54 / 538);
+  });
+});
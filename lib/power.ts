@@ -0,0 +1,201 @@
+import type { PopulationByState, SeatAllocation } from "@/lib/apportionment";
+
+export type ElectoralPlayer = {
+  id: string;
+  state: string;
+  weight: number;
+  // People who choose this player's electors.
+  population: number;
+};
+
+export type PlayerPower = {
+  // Probability the player is decisive when every other player votes at random.
+  swingProbability: number;
+  // Share of all swings.
+  banzhaf: number;
+  shapleyShubik: number;
+};
+
+export type VotingPower = {
+  banzhaf: number;
+  shapleyShubik: number;
+  // Power of one voter relative to the national average voter (1 = average).
+  banzhafPerVoter: number;
+  shapleyShubikPerVoter: number;
+};
+
+// Maine and Nebraska give two electors to the statewide winner and one to
+// the winner of each congressional district.
+export const SPLIT_ELECTOR_STATES = ["ME", "NE"];
+
+export const buildElectoralPlayers = (
+  ecVotesByState: Record<string, number>,
+  houseSeatsByState: SeatAllocation,
+  populationsByState: PopulationByState
+): ElectoralPlayer[] => {
+  const players: ElectoralPlayer[] = [];
+  Object.entries(ecVotesByState).forEach(([state, weight]) => {
+    if (weight <= 0) return;
+    const population = populationsByState[state] ?? 0;
+    const districts = houseSeatsByState[state] ?? 0;
+    if (!SPLIT_ELECTOR_STATES.includes(state) || districts === 0) {
+      players.push({ id: state, state, weight, population });
+      return;
+    }
+    players.push({ id: `${state}-AL`, state, weight: weight - districts, population });
+    for (let district = 1; district <= districts; district += 1) {
+      players.push({
+        id: `${state}-${district}`,
+        state,
+        weight: 1,
+        population: population / districts,
+      });
+    }
+  });
+  return players;
+};
+
+// Exact Banzhaf and Shapley–Shubik indices for a weighted majority game.
+// One generating-function pass counts coalitions by size and weight; each
+// player's game without it is recovered by dividing its factor back out,
+// once per distinct weight. Counts pass 2^53 with a few dozen players, so
+// they are BigInts and the division is exact; only the final ratios are
+// rounded.
+export const computePlayerPower = (
+  players: ElectoralPlayer[],
+  quota = Math.floor(players.reduce((sum, player) => sum + player.weight, 0) / 2) + 1
+): Record<string, PlayerPower> => {
+  const n = players.length;
+  const totalWeight = players.reduce((sum, player) => sum + player.weight, 0);
+  const width = totalWeight + 1;
+  const counts: bigint[] = new Array((n + 1) * width).fill(0n);
+  counts[0] = 1n;
+  let reach = 0;
+  players.forEach((player, index) => {
+    for (let size = index; size >= 0; size -= 1) {
+      for (let weight = reach; weight >= 0; weight -= 1) {
+        const value = counts[size * width + weight];
+        if (value !== 0n) {
+          counts[(size + 1) * width + weight + player.weight] += value;
+        }
+      }
+    }
+    reach += player.weight;
+  });
+
+  // size! (n - 1 - size)!, the orderings that put exactly `size` other
+  // players ahead of this one; n! orderings in all.
+  const factorials = [1n];
+  for (let k = 1; k <= n; k += 1) factorials.push(factorials[k - 1] * BigInt(k));
+  const orderings = (size: number) => factorials[size] * factorials[n - 1 - size];
+
+  const byWeight = new Map<number, { swings: bigint; orderings: bigint }>();
+  const without: bigint[] = new Array(n * width).fill(0n);
+  players.forEach((player) => {
+    if (byWeight.has(player.weight)) return;
+    let swings = 0n;
+    let swingOrderings = 0n;
+    for (let size = 0; size < n; size += 1) {
+      let sizeSwings = 0n;
+      for (let weight = 0; weight <= totalWeight; weight += 1) {
+        const below =
+          size > 0 && weight >= player.weight
+            ? without[(size - 1) * width + weight - player.weight]
+            : 0n;
+        const value = counts[size * width + weight] - below;
+        without[size * width + weight] = value;
+        if (weight >= quota - player.weight && weight < quota) sizeSwings += value;
+      }
+      swings += sizeSwings;
+      swingOrderings += sizeSwings * orderings(size);
+    }
+    byWeight.set(player.weight, { swings, orderings: swingOrderings });
+  });
+
+  const totalSwings = players.reduce(
+    (sum, player) => sum + (byWeight.get(player.weight)?.swings ?? 0n),
+    0n
+  );
+  const power: Record<string, PlayerPower> = {};
+  players.forEach((player) => {
+    const entry = byWeight.get(player.weight) ?? { swings: 0n, orderings: 0n };
+    power[player.id] = {
+      swingProbability: ratio(entry.swings, 1n << BigInt(Math.max(0, n - 1))),
+      banzhaf: totalSwings > 0n ? ratio(entry.swings, totalSwings) : 0,
+      shapleyShubik: ratio(entry.orderings, factorials[n]),
+    };
+  });
+  return power;
+};
+
+// A ratio of BigInts at or below 1, to double precision.
+const RATIO_BITS = 64n;
+const ratio = (numerator: bigint, denominator: bigint) =>
+  Number((numerator << RATIO_BITS) / denominator) / 2 ** Number(RATIO_BITS);
+
+// State totals plus per-voter power. A voter's Banzhaf power follows the
+// two-tier square-root rule: the chance of deciding a constituency of n
+// voters, about sqrt(2 / (pi n)), times that constituency's swing
+// probability. Shapley–Shubik power is split evenly among the voters.
+export const computeVotingPower = (
+  ecVotesByState: Record<string, number>,
+  houseSeatsByState: SeatAllocation,
+  populationsByState: PopulationByState
+): Record<string, VotingPower> => {
+  const players = buildElectoralPlayers(
+    ecVotesByState,
+    houseSeatsByState,
+    populationsByState
+  );
+  const playerPower = computePlayerPower(players);
+
+  const totals: Record<string, VotingPower> = {};
+  players.forEach((player) => {
+    const entry = playerPower[player.id];
+    const current = totals[player.state] ?? {
+      banzhaf: 0,
+      shapleyShubik: 0,
+      banzhafPerVoter: 0,
+      shapleyShubikPerVoter: 0,
+    };
+    const statePopulation = populationsByState[player.state] ?? 0;
+    totals[player.state] = {
+      banzhaf: current.banzhaf + entry.banzhaf,
+      shapleyShubik: current.shapleyShubik + entry.shapleyShubik,
+      // Each voter sits in one of the player's constituencies, so district
+      // players count in proportion to the voters they cover.
+      banzhafPerVoter:
+        current.banzhafPerVoter +
+        (player.population > 0 && statePopulation > 0
+          ? entry.swingProbability *
+            Math.sqrt(2 / (Math.PI * player.population)) *
+            (player.population / statePopulation)
+          : 0),
+      shapleyShubikPerVoter:
+        current.shapleyShubikPerVoter +
+        (statePopulation > 0 ? entry.shapleyShubik / statePopulation : 0),
+    };
+  });
+
+  const states = Object.keys(totals);
+  const population = states.reduce(
+    (sum, state) => sum + (populationsByState[state] ?? 0),
+    0
+  );
+  const average = (key: "banzhafPerVoter" | "shapleyShubikPerVoter") =>
+    states.reduce(
+      (sum, state) => sum + totals[state][key] * (populationsByState[state] ?? 0),
+      0
+    ) / population;
+  const banzhafAverage = average("banzhafPerVoter");
+  const shapleyShubikAverage = average("shapleyShubikPerVoter");
+  states.forEach((state) => {
+    totals[state].banzhafPerVoter =
+      banzhafAverage > 0 ? totals[state].banzhafPerVoter / banzhafAverage : 0;
+    totals[state].shapleyShubikPerVoter =
+      shapleyShubikAverage > 0
+        ? totals[state].shapleyShubikPerVoter / shapleyShubikAverage
+        : 0;
+  });
+  return totals;
+};
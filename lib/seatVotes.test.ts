@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { PROPORTIONAL_SEAT_VOTE_CURVE, seatShareFromVote } from "./overlays";
+import {
+  DEFAULT_SEAT_VOTE_CURVE,
+  fitSeatVoteCurve,
+  midtermSeatVoteObservations,
+  parseSeatVoteCurve,
+  SEAT_VOTE_CURVE_PRESETS,
+  seatVoteCurvePreset,
+  writeSeatVoteCurve,
+} from "./seatVotes";
+
+describe("seat-vote curve", () => {
+  it("reduces to proportional seats and the cube law", () => {
+    [0.1, 0.37, 0.5, 0.62, 0.9].forEach((vote) => {
+      expect(seatShareFromVote(vote, PROPORTIONAL_SEAT_VOTE_CURVE)).toBeCloseTo(vote, 12);
+    });
+    const cube = { responsiveness: 3, bias: 0 };
+    expect(seatShareFromVote(0.6, cube)).toBeCloseTo(0.216 / 0.28, 12);
+    expect(seatShareFromVote(0.4, cube)).toBeCloseTo(1 - 0.216 / 0.28, 12);
+    expect(seatShareFromVote(0.5, { responsiveness: 2, bias: -0.04 })).toBeCloseTo(0.46, 12);
+    expect(seatShareFromVote(0, cube)).toBe(0);
+    expect(seatShareFromVote(1, cube)).toBe(1);
+  });
+
+  it("recovers a known curve from its own seat shares", () => {
+    const curve = { responsiveness: 2.4, bias: -0.03 };
+    const observations = [0.3, 0.42, 0.48, 0.55, 0.61, 0.7].map((voteShare, index) => ({
+      abbr: `S${index}`,
+      voteShare,
+      seats: 20,
+      demSeats: 20 * seatShareFromVote(voteShare, curve),
+    }));
+    const fitted = fitSeatVoteCurve(observations);
+    expect(fitted.responsiveness).toBeCloseTo(2.4, 8);
+    expect(fitted.bias).toBeCloseTo(-0.03, 8);
+  });
+
+  it("fits the midterms and leaves out uncontested states", () => {
+    const observations2022 = midtermSeatVoteObservations("2022");
+    expect(observations2022.map((entry) => entry.abbr)).not.toContain("ND");
+    expect(observations2022.find((entry) => entry.abbr === "TX")?.seats).toBe(38);
+    expect(midtermSeatVoteObservations("2018").find((entry) => entry.abbr === "TX")?.seats).toBe(36);
+
+    SEAT_VOTE_CURVE_PRESETS.filter((preset) => preset.id.startsWith("fit")).forEach(
+      (preset) => {
+        expect(preset.curve.responsiveness).toBeGreaterThan(2);
+        expect(preset.curve.responsiveness).toBeLessThan(4);
+        expect(Math.abs(preset.curve.bias)).toBeLessThan(0.1);
+      }
+    );
+  });
+
+  it("round-trips presets through the URL", () => {
+    SEAT_VOTE_CURVE_PRESETS.forEach((preset) => {
+      const params = new URLSearchParams();
+      writeSeatVoteCurve(params, preset.curve);
+      expect(seatVoteCurvePreset(parseSeatVoteCurve(params))?.id).toBe(preset.id);
+    });
+    // Links from before the sliders carried low/medium/high.
+    expect(parseSeatVoteCurve(new URLSearchParams("resp=low"))).toEqual({
+      responsiveness: 0.6,
+      bias: 0,
+    });
+    expect(parseSeatVoteCurve(new URLSearchParams("resp=medium"))).toEqual(
+      DEFAULT_SEAT_VOTE_CURVE
+    );
+    expect(parseSeatVoteCurve(new URLSearchParams("resp=high"))).toEqual({
+      responsiveness: 1.4,
+      bias: 0,
+    });
+  });
+});
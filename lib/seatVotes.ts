@@ -0,0 +1,173 @@
+import {
+  midtermHouseDemSeatsByYear,
+  midtermHouseDemShareByYear,
+} from "@/data/midtermHouseDemShare";
+import { getCensusDataset } from "@/lib/census";
+import {
+  logistic,
+  logit,
+  PROPORTIONAL_SEAT_VOTE_CURVE,
+  type SeatVoteCurve,
+} from "@/lib/overlays";
+
+export type MidtermYear = "2014" | "2018" | "2022";
+
+export type SeatVoteObservation = {
+  abbr: string;
+  voteShare: number;
+  seats: number;
+  demSeats: number;
+};
+
+export type SeatVoteCurvePreset = {
+  id: string;
+  label: string;
+  curve: SeatVoteCurve;
+};
+
+export const MIDTERM_YEARS: MidtermYear[] = ["2014", "2018", "2022"];
+
+const CENSUS_BY_MIDTERM: Record<MidtermYear, number> = {
+  "2014": 2010,
+  "2018": 2010,
+  "2022": 2020,
+};
+
+export const MIN_RESPONSIVENESS = 0.25;
+export const MAX_RESPONSIVENESS = 4;
+export const MAX_BIAS = 0.1;
+
+// One observation per state. Uncontested states, with a recorded share of 0
+// or 1, say nothing about the curve and are left out.
+export const midtermSeatVoteObservations = (
+  year: MidtermYear
+): SeatVoteObservation[] => {
+  const { enactedSeats } = getCensusDataset(CENSUS_BY_MIDTERM[year]);
+  const shares = midtermHouseDemShareByYear[year];
+  const demSeats = midtermHouseDemSeatsByYear[year];
+  return Object.keys(shares)
+    .filter((abbr) => shares[abbr] > 0 && shares[abbr] < 1 && enactedSeats[abbr])
+    .map((abbr) => ({
+      abbr,
+      voteShare: shares[abbr],
+      seats: enactedSeats[abbr],
+      demSeats: demSeats[abbr] ?? 0,
+    }));
+};
+
+// Maximum-likelihood fit of the logit curve, treating each state's seats as
+// binomial draws at the curve's seat share. Newton's method on the intercept
+// and slope; delegations swept by one party need no special handling.
+export const fitSeatVoteCurve = (
+  observations: SeatVoteObservation[]
+): SeatVoteCurve => {
+  let intercept = 0;
+  let slope = 1;
+  for (let iteration = 0; iteration < 50; iteration += 1) {
+    let g0 = 0;
+    let g1 = 0;
+    let h00 = 0;
+    let h01 = 0;
+    let h11 = 0;
+    observations.forEach(({ voteShare, seats, demSeats }) => {
+      const x = logit(voteShare);
+      const p = logistic(intercept + slope * x);
+      const residual = demSeats - seats * p;
+      const weight = seats * p * (1 - p);
+      g0 += residual;
+      g1 += residual * x;
+      h00 += weight;
+      h01 += weight * x;
+      h11 += weight * x * x;
+    });
+    const determinant = h00 * h11 - h01 * h01;
+    if (!(determinant > 0)) {
+      throw new Error("Seat-vote fit needs states on both sides of an even vote.");
+    }
+    const step0 = (h11 * g0 - h01 * g1) / determinant;
+    const step1 = (h00 * g1 - h01 * g0) / determinant;
+    intercept += step0;
+    slope += step1;
+    if (Math.abs(step0) + Math.abs(step1) < 1e-12) break;
+  }
+  return { responsiveness: slope, bias: logistic(intercept) - 0.5 };
+};
+
+// Rounded to the slider steps so a preset survives a trip through the URL.
+const roundCurve = (curve: SeatVoteCurve): SeatVoteCurve => ({
+  responsiveness: Math.round(curve.responsiveness * 100) / 100,
+  bias: Math.round(curve.bias * 1000) / 1000,
+});
+
+export const SEAT_VOTE_CURVE_PRESETS: SeatVoteCurvePreset[] = [
+  { id: "proportional", label: "Proportional", curve: PROPORTIONAL_SEAT_VOTE_CURVE },
+  { id: "cube", label: "Cube law", curve: { responsiveness: 3, bias: 0 } },
+  ...MIDTERM_YEARS.map((year) => ({
+    id: `fit${year}`,
+    label: `${year} fit`,
+    curve: roundCurve(fitSeatVoteCurve(midtermSeatVoteObservations(year))),
+  })),
+  {
+    id: "fitAll",
+    label: "2014–22 fit",
+    curve: roundCurve(
+      fitSeatVoteCurve(MIDTERM_YEARS.flatMap(midtermSeatVoteObservations))
+    ),
+  },
+];
+
+export const DEFAULT_SEAT_VOTE_CURVE = PROPORTIONAL_SEAT_VOTE_CURVE;
+
+// Links from before the sliders carried low/medium/high, a linear curve with
+// these slopes at an even vote. The logit curve's slope there is ρ.
+const LEGACY_RESPONSIVENESS: Record<string, number> = {
+  low: 0.6,
+  medium: 1,
+  high: 1.4,
+};
+
+// URL keys: `resp` for responsiveness and `bias` in points.
+export const parseSeatVoteCurve = (params: {
+  get: (key: string) => string | null;
+}): SeatVoteCurve => {
+  const responsivenessParam = params.get("resp");
+  const biasParam = params.get("bias");
+  const responsiveness =
+    LEGACY_RESPONSIVENESS[responsivenessParam ?? ""] ?? Number(responsivenessParam);
+  // Rounded to the slider step; dividing by 100 alone leaves float noise.
+  const bias = Math.round(Number(biasParam) * 10) / 1000;
+  return {
+    responsiveness:
+      responsivenessParam !== null &&
+      Number.isFinite(responsiveness) &&
+      responsiveness >= MIN_RESPONSIVENESS &&
+      responsiveness <= MAX_RESPONSIVENESS
+        ? responsiveness
+        : DEFAULT_SEAT_VOTE_CURVE.responsiveness,
+    bias:
+      biasParam !== null && Number.isFinite(bias) && Math.abs(bias) <= MAX_BIAS
+        ? bias
+        : DEFAULT_SEAT_VOTE_CURVE.bias,
+  };
+};
+
+export const writeSeatVoteCurve = (params: URLSearchParams, curve: SeatVoteCurve) => {
+  params.set("resp", String(Math.round(curve.responsiveness * 100) / 100));
+  params.set("bias", String(Math.round(curve.bias * 1000) / 10));
+};
+
+export const seatVoteCurvePreset = (curve: SeatVoteCurve) =>
+  SEAT_VOTE_CURVE_PRESETS.find(
+    (preset) =>
+      preset.curve.responsiveness === curve.responsiveness &&
+      preset.curve.bias === curve.bias
+  ) ?? null;
+
+export const seatVoteCurveLabel = (curve: SeatVoteCurve) => {
+  const preset = seatVoteCurvePreset(curve);
+  if (preset) return preset.label;
+  const points = Math.round(curve.bias * 1000) / 10;
+  return `responsiveness ${curve.responsiveness.toFixed(2)}, bias ${
+    points > 0 ? "+" : ""
+  }${points} pts`;
+};
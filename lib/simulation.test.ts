@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import populations from "../data/populations.json";
+import { apportion } from "./apportionment";
+import { NPVIC_MEMBERS, presidentialDemShares, tallyElectoralVotes } from "./elections";
+import { buildStateMetrics, type StateMetrics, type StatePopulation } from "./metrics";
+import { PROPORTIONAL_SEAT_VOTE_CURVE } from "./overlays";
+import {
+  createRandom,
+  DEFAULT_SIMULATION_SETTINGS,
+  parseSimulationSettings,
+  runSimulation,
+  writeSimulationSettings,
+} from "./simulation";
+
+const states = populations as StatePopulation[];
+
+const metricsAt435 = () => {
+  const byState: Record<string, number> = {};
+  states
+    .filter((state) => state.abbr !== "DC")
+    .forEach((state) => {
+      byState[state.abbr] = state.population;
+    });
+  const seats = apportion(byState, 435);
+  const nationalPopulation = Object.values(byState).reduce((a, b) => a + b, 0);
+  const metrics: Record<string, StateMetrics> = {};
+  states.forEach((state) => {
+    metrics[state.abbr] = buildStateMetrics(state, seats, seats, {
+      nationalPopulation,
+      totalSeats: 435,
+    });
+  });
+  return metrics;
+};
+
+const options = {
+  system: "current" as const,
+  compactMembers: NPVIC_MEMBERS,
+  seatVoteCurve: PROPORTIONAL_SEAT_VOTE_CURVE,
+};
+
+describe("Monte Carlo simulation", () => {
+  it("draws the same uniform stream for a seed", () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const draws = Array.from({ length: 1000 }, () => a());
+    expect(draws).toEqual(Array.from({ length: 1000 }, () => b()));
+    expect(Math.min(...draws)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...draws)).toBeLessThan(1);
+    expect(createRandom(43)()).not.toBe(draws[0]);
+  });
+
+  it("reproduces a run from its seed", () => {
+    const request = {
+      metricsByState: metricsAt435(),
+      demShareByState: presidentialDemShares(2020),
+      options,
+      settings: DEFAULT_SIMULATION_SETTINGS,
+      draws: 400,
+    };
+    const first = runSimulation(request);
+    expect(runSimulation(request)).toEqual(first);
+    const reseeded = runSimulation({
+      ...request,
+      settings: { ...DEFAULT_SIMULATION_SETTINGS, seed: 2 },
+    });
+    expect(reseeded.electoralHistogram).not.toEqual(first.electoralHistogram);
+
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+    expect(sum(first.electoralHistogram)).toBe(400);
+    expect(sum(first.seatHistogram)).toBe(400);
+    expect(first.total).toBe(538);
+    // Every entity has a share, so a no-majority draw is an exact 269–269.
+    expect(first.tieProbability).toBe(first.electoralHistogram[269] / 400);
+    expect(first.tieProbability).toBe(first.noMajorityProbability);
+    expect(
+      first.demWinProbability + first.repWinProbability + first.noMajorityProbability
+    ).toBeCloseTo(1, 12);
+  });
+
+  it("collapses to the deterministic tally without error", () => {
+    const metricsByState = metricsAt435();
+    const demShareByState = presidentialDemShares(2016);
+    const result = runSimulation({
+      metricsByState,
+      demShareByState,
+      options,
+      settings: { seed: 7, nationalError: 0, regionalError: 0, stateError: 0 },
+      draws: 50,
+    });
+    const tally = tallyElectoralVotes(
+      metricsByState,
+      { demShareByState, nationalDemShare: 0.5 },
+      options
+    );
+    expect(result.electoralHistogram[tally.democrats]).toBe(50);
+    expect(result.repWinProbability).toBe(1);
+    expect(result.states.PA.low).toBe(result.states.PA.high);
+  });
+
+  it("round-trips its URL parameters", () => {
+    const params = new URLSearchParams();
+    const settings = { seed: 123456, nationalError: 0.04, regionalError: 0.02, stateError: 0.035 };
+    writeSimulationSettings(params, settings);
+    expect(params.get("errState")).toBe("3.5");
+    expect(parseSimulationSettings(params)).toEqual(settings);
+    expect(parseSimulationSettings(new URLSearchParams("seed=-1&errNat=x"))).toEqual(
+      DEFAULT_SIMULATION_SETTINGS
+    );
+  });
+});
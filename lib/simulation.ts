@@ -0,0 +1,215 @@
+import { censusRegionByState } from "@/data/censusRegions";
+import { tallyElectoralVotes, type ElectoralSystemOptions } from "@/lib/elections";
+import type { StateMetrics } from "@/lib/metrics";
+import { hamiltonAllocation, seatShareFromVote } from "@/lib/overlays";
+
+export type SimulationSettings = {
+  seed: number;
+  // Standard deviations of the two-party Democratic share: one error shared
+  // by every state, one per Census region, and one drawn for each state.
+  nationalError: number;
+  regionalError: number;
+  stateError: number;
+};
+
+export type SimulationRequest = {
+  metricsByState: Record<string, StateMetrics>;
+  // Entities without a share are left out, as in the electoral vote counter.
+  demShareByState: Record<string, number>;
+  options: ElectoralSystemOptions;
+  settings: SimulationSettings;
+  draws?: number;
+};
+
+export type StateForecast = {
+  demWinProbability: number;
+  // 5th and 95th percentiles of the simulated share.
+  low: number;
+  high: number;
+};
+
+export type SimulationResult = {
+  seed: number;
+  draws: number;
+  total: number;
+  majority: number;
+  houseSeats: number;
+  demWinProbability: number;
+  repWinProbability: number;
+  // Both sides on the same total short of a majority, the 269–269 case.
+  tieProbability: number;
+  // Ties included.
+  noMajorityProbability: number;
+  // Counts indexed by Democratic electors and Democratic House seats.
+  electoralHistogram: number[];
+  seatHistogram: number[];
+  states: Record<string, StateForecast>;
+};
+
+export const SIMULATION_DRAWS = 10_000;
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  seed: 1,
+  nationalError: 0.025,
+  regionalError: 0.015,
+  stateError: 0.03,
+};
+
+// mulberry32: a small, fast 32-bit generator that is reproducible everywhere.
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+};
+
+// Box–Muller; 1 - u keeps the logarithm finite.
+const createNormal = (random: () => number) => () =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+const clampShare = (value: number) => Math.min(1, Math.max(0, value));
+
+const percentile = (sorted: Float64Array, fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+
+export const runSimulation = ({
+  metricsByState,
+  demShareByState,
+  options,
+  settings,
+  draws = SIMULATION_DRAWS,
+}: SimulationRequest): SimulationResult => {
+  const normal = createNormal(createRandom(settings.seed));
+  const abbrs = Object.keys(demShareByState).filter((abbr) => abbr in metricsByState);
+  const regions = [...new Set(abbrs.map((abbr) => censusRegionByState[abbr] ?? abbr))];
+  const population = abbrs.reduce(
+    (sum, abbr) => sum + metricsByState[abbr].population,
+    0
+  );
+  const houseSeats = Object.values(metricsByState).reduce(
+    (sum, state) => sum + state.houseSeats,
+    0
+  );
+
+  const simulatedShares = abbrs.map(() => new Float64Array(draws));
+  const demWins = abbrs.map(() => 0);
+  const electoralHistogram: number[] = [];
+  const seatHistogram = new Array<number>(houseSeats + 1).fill(0);
+  let total = 0;
+  let majority = 0;
+  let demWinCount = 0;
+  let repWinCount = 0;
+  let tieCount = 0;
+
+  for (let draw = 0; draw < draws; draw += 1) {
+    const national = normal() * settings.nationalError;
+    const regional: Record<string, number> = {};
+    regions.forEach((region) => {
+      regional[region] = normal() * settings.regionalError;
+    });
+
+    const shares: Record<string, number> = {};
+    let weightedShare = 0;
+    let demSeats = 0;
+    abbrs.forEach((abbr, index) => {
+      const state = metricsByState[abbr];
+      const share = clampShare(
+        demShareByState[abbr] +
+          national +
+          regional[censusRegionByState[abbr] ?? abbr] +
+          normal() * settings.stateError
+      );
+      shares[abbr] = share;
+      simulatedShares[index][draw] = share;
+      if (share > 0.5) demWins[index] += 1;
+      weightedShare += share * state.population;
+      demSeats += hamiltonAllocation(
+        state.houseSeats,
+        seatShareFromVote(share, options.seatVoteCurve)
+      ).partyA;
+    });
+
+    const tally = tallyElectoralVotes(
+      metricsByState,
+      {
+        demShareByState: shares,
+        nationalDemShare: population > 0 ? weightedShare / population : 0.5,
+      },
+      { ...options, tossUpBand: undefined }
+    );
+    total = tally.total;
+    majority = tally.majority;
+    electoralHistogram[tally.democrats] = (electoralHistogram[tally.democrats] ?? 0) + 1;
+    seatHistogram[demSeats] += 1;
+    if (tally.winner === "D") demWinCount += 1;
+    else if (tally.winner === "R") repWinCount += 1;
+    else if (tally.democrats === tally.republicans) tieCount += 1;
+  }
+
+  const states: Record<string, StateForecast> = {};
+  abbrs.forEach((abbr, index) => {
+    const sorted = simulatedShares[index].sort();
+    states[abbr] = {
+      demWinProbability: demWins[index] / draws,
+      low: percentile(sorted, 0.05),
+      high: percentile(sorted, 0.95),
+    };
+  });
+
+  return {
+    seed: settings.seed,
+    draws,
+    total,
+    majority,
+    houseSeats,
+    demWinProbability: demWinCount / draws,
+    repWinProbability: repWinCount / draws,
+    tieProbability: tieCount / draws,
+    noMajorityProbability: (draws - demWinCount - repWinCount) / draws,
+    electoralHistogram: Array.from(
+      { length: total + 1 },
+      (_, electors) => electoralHistogram[electors] ?? 0
+    ),
+    seatHistogram,
+    states,
+  };
+};
+
+// URL keys: `seed`, plus `errNat`, `errReg` and `errState` in points.
+export const parseSimulationSettings = (params: {
+  get: (key: string) => string | null;
+}): SimulationSettings => {
+  const seed = Number(params.get("seed"));
+  const error = (key: string, fallback: number) => {
+    const value = params.get(key);
+    const points = Number(value);
+    return value !== null && Number.isFinite(points) && points >= 0 && points <= 20
+      ? points / 100
+      : fallback;
+  };
+
+  return {
+    seed:
+      Number.isInteger(seed) && seed > 0 && seed < 2 ** 32
+        ? seed
+        : DEFAULT_SIMULATION_SETTINGS.seed,
+    nationalError: error("errNat", DEFAULT_SIMULATION_SETTINGS.nationalError),
+    regionalError: error("errReg", DEFAULT_SIMULATION_SETTINGS.regionalError),
+    stateError: error("errState", DEFAULT_SIMULATION_SETTINGS.stateError),
+  };
+};
+
+export const writeSimulationSettings = (
+  params: URLSearchParams,
+  settings: SimulationSettings
+) => {
+  const points = (value: number) => String(Math.round(value * 1000) / 10);
+  params.set("seed", String(settings.seed));
+  params.set("errNat", points(settings.nationalError));
+  params.set("errReg", points(settings.regionalError));
+  params.set("errState", points(settings.stateError));
+};
@@ -0,0 +1,8 @@
+import { runSimulation, type SimulationRequest } from "@/lib/simulation";
+
+// Runs one simulation per message, tagged with the caller's request id so
+// stale results can be dropped.
+self.onmessage = (event: MessageEvent<{ id: number; request: SimulationRequest }>) => {
+  const { id, request } = event.data;
+  self.postMessage({ id, result: runSimulation(request) });
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import populations from "../data/populations.json";
+import { apportion } from "./apportionment";
+import { computeHistoricalEcOutcomes } from "./elections";
+import {
+  buildStateMetrics,
+  computeDistrictSeats,
+  computeECVotes,
+  type StatePopulation,
+} from "./metrics";
+import {
+  applyStatehoodScenario,
+  findStatehoodRipples,
+  isApportionedEntity,
+  type StatehoodScenario,
+} from "./statehood";
+
+const states = populations as StatePopulation[];
+
+const seatsFor = (scenario: StatehoodScenario) => {
+  const byState: Record<string, number> = {};
+  applyStatehoodScenario(states, scenario, true)
+    .filter((state) => isApportionedEntity(state.abbr, scenario))
+    .forEach((state) => {
+      byState[state.abbr] = state.population;
+    });
+  return apportion(byState, 435);
+};
+
+describe("statehood scenarios", () => {
+  it("caps an unadmitted DC at the least populous state's electors", () => {
+    expect(computeECVotes("DC", 0, false)).toBe(3);
+    // Two seats as a state, but the least populous state has one.
+    expect(computeECVotes("DC", 0, false, { entitled: 2, leastPopulous: 1 })).toBe(3);
+    // In a House large enough to give Wyoming two seats, DC follows it.
+    expect(computeECVotes("DC", 0, false, { entitled: 3, leastPopulous: 2 })).toBe(4);
+    expect(computeECVotes("DC", 2, true, { entitled: 2, leastPopulous: 1 })).toBe(4);
+    expect(computeECVotes("PR", 4, true)).toBe(6);
+    expect(computeECVotes("PR", 0, false)).toBe(0);
+  });
+
+  it("finds DC's entitlement and cap from the apportionment", () => {
+    const byState: Record<string, number> = {};
+    states
+      .filter((state) => state.abbr !== "DC")
+      .forEach((state) => {
+        byState[state.abbr] = state.population;
+      });
+    expect(computeDistrictSeats(states, apportion(byState, 435))).toEqual({
+      entitled: 1,
+      leastPopulous: 1,
+    });
+    const seats = apportion(byState, 1200);
+    expect(seats.WY).toBe(2);
+    const districtSeats = computeDistrictSeats(states, seats);
+    expect(districtSeats.leastPopulous).toBe(2);
+    expect(computeECVotes("DC", 0, false, districtSeats)).toBe(4);
+    // A two-seat minimum covers DC as it would any state.
+    expect(
+      computeDistrictSeats(states, apportion(byState, 435, "huntingtonHill", 2), 2)
+    ).toEqual({ entitled: 2, leastPopulous: 2 });
+  });
+
+  it("takes Minnesota's eighth seat when DC is admitted at 435", () => {
+    const seats = seatsFor("dc");
+    expect(seats.DC).toBe(1);
+    expect(findStatehoodRipples(seatsFor("none"), seats)).toEqual([
+      { state: "MN", seatsBefore: 8, seatsAfter: 7 },
+    ]);
+  });
+
+  it("gives Puerto Rico four seats taken from four states", () => {
+    const seats = seatsFor("pr");
+    expect(seats.PR).toBe(4);
+    expect(
+      findStatehoodRipples(seatsFor("none"), seats).map((entry) => entry.state)
+    ).toEqual(["CA", "CO", "MN", "MT"]);
+  });
+
+  it("reports territory electors separately in the historical replay", () => {
+    const seats = seatsFor("allTerritories");
+    const entities = applyStatehoodScenario(states, "allTerritories", true);
+    const basis = {
+      nationalPopulation: entities.reduce((sum, state) => sum + state.population, 0),
+      totalSeats: 435,
+    };
+    const metricsByState = Object.fromEntries(
+      entities.map((state) => [
+        state.abbr,
+        buildStateMetrics(state, seats, {}, basis),
+      ])
+    );
+    const [outcome2016] = computeHistoricalEcOutcomes(metricsByState, undefined, [
+      2016,
+    ]);
+    const territoryElectors = ["PR", "GU", "VI", "AS", "MP"].reduce(
+      (sum, abbr) => sum + seats[abbr] + 2,
+      0
+    );
+    expect(outcome2016.unassigned).toBe(territoryElectors);
+    expect(
+      outcome2016.democrats +
+        outcome2016.republicans +
+        outcome2016.other +
+        outcome2016.unassigned
+    ).toBe(435 + 2 * 56);
+  });
+});
@@ -0,0 +1,92 @@
+import territories from "@/data/territories.json";
+import type { SeatAllocation } from "@/lib/apportionment";
+import type { StatePopulation } from "@/lib/metrics";
+
+export type StatehoodScenario = "none" | "dc" | "pr" | "dcPr" | "allTerritories";
+
+export type StatehoodRipple = {
+  state: string;
+  seatsBefore: number;
+  seatsAfter: number;
+};
+
+export const STATEHOOD_SCENARIOS: StatehoodScenario[] = [
+  "none",
+  "dc",
+  "pr",
+  "dcPr",
+  "allTerritories",
+];
+
+export const DEFAULT_STATEHOOD_SCENARIO: StatehoodScenario = "none";
+
+// 2020 census counts for the inhabited territories.
+export const TERRITORY_STATES = territories as StatePopulation[];
+
+const TERRITORY_ABBRS = new Set(TERRITORY_STATES.map((state) => state.abbr));
+
+const ADMITTED_BY_SCENARIO: Record<StatehoodScenario, string[]> = {
+  none: [],
+  dc: ["DC"],
+  pr: ["PR"],
+  dcPr: ["DC", "PR"],
+  allTerritories: ["DC", ...TERRITORY_STATES.map((state) => state.abbr)],
+};
+
+export const statehoodScenarioLabel = (scenario: StatehoodScenario) => {
+  switch (scenario) {
+    case "dc":
+      return "Admit DC";
+    case "pr":
+      return "Admit Puerto Rico";
+    case "dcPr":
+      return "Admit DC and Puerto Rico";
+    case "allTerritories":
+      return "Admit DC and every territory";
+    default:
+      return "50 states";
+  }
+};
+
+export const isStatehoodScenario = (
+  value: string | null
+): value is StatehoodScenario =>
+  value !== null && STATEHOOD_SCENARIOS.includes(value as StatehoodScenario);
+
+export const admittedEntities = (scenario: StatehoodScenario) =>
+  ADMITTED_BY_SCENARIO[scenario];
+
+export const isTerritory = (abbr: string) => TERRITORY_ABBRS.has(abbr);
+
+// DC sits in every census dataset from 1960 but only joins apportionment
+// when admitted. Territories are only present once admitted.
+export const isApportionedEntity = (abbr: string, scenario: StatehoodScenario) =>
+  abbr !== "DC" || admittedEntities(scenario).includes("DC");
+
+// Territory counts only exist for the latest census, so earlier decades can
+// admit DC but not the territories.
+export const applyStatehoodScenario = (
+  states: StatePopulation[],
+  scenario: StatehoodScenario,
+  includeTerritories: boolean
+): StatePopulation[] => {
+  if (!includeTerritories) return states;
+  const admitted = admittedEntities(scenario);
+  return [
+    ...states,
+    ...TERRITORY_STATES.filter((state) => admitted.includes(state.abbr)),
+  ];
+};
+
+// Existing states whose delegations change once the new states join.
+export const findStatehoodRipples = (
+  withoutAdmission: SeatAllocation,
+  withAdmission: SeatAllocation
+): StatehoodRipple[] =>
+  Object.keys(withoutAdmission)
+    .filter((state) => withAdmission[state] !== withoutAdmission[state])
+    .map((state) => ({
+      state,
+      seatsBefore: withoutAdmission[state],
+      seatsAfter: withAdmission[state] ?? 0,
+    }));
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_POLL_FILTERS, type PollFilters } from "./pollFilters";
+import { createFixturePollSource, type PollRow } from "./pollSources";
+import {
+  averageStatePolls,
+  collectStatewidePolls,
+  DEFAULT_POLL_AVERAGE_OPTIONS,
+  type StatePoll,
+} from "./statewidePolls";
+
+const row = (overrides: Partial<PollRow>): PollRow => ({
+  state: "Pennsylvania",
+  pollster: "Pollster",
+  fte_grade: "A",
+  end_date: "10/30/24",
+  candidate_party: "DEM",
+  pct: 50,
+  sample_size: 600,
+  poll_id: 1,
+  question_id: 1,
+  partisan: null,
+  internal: null,
+  cycle: 2024,
+  population: "lv",
+  ...overrides,
+});
+
+const poll = (dem: number, rep: number, overrides: Partial<PollRow> = {}) => [
+  row({ ...overrides, candidate_party: "DEM", pct: dem }),
+  row({ ...overrides, candidate_party: "REP", pct: rep }),
+];
+
+const statePoll = (overrides: Partial<StatePoll>): StatePoll => ({
+  stateAbbr: "PA",
+  race: "president",
+  pollKey: "president:PA:1",
+  pollster: "Pollster",
+  grade: "A",
+  endDate: "2024-10-30",
+  time: Date.UTC(2024, 9, 30),
+  sampleSize: 600,
+  share: 0.5,
+  ...overrides,
+});
+
+describe("statewide polls", () => {
+  it("averages reputable polls and skips states under the minimum", async () => {
+    const source = createFixturePollSource({
+      president: [
+        ...poll(48, 52, { poll_id: 1, end_date: "10/01/24", pollster: "First" }),
+        ...poll(55, 45, { poll_id: 2, end_date: "10/30/24", pollster: "Second" }),
+        // Partisan, internal and low-grade polls are skipped.
+        ...poll(70, 30, { poll_id: 3, partisan: "DEM" }),
+        ...poll(70, 30, { poll_id: 4, internal: "true" }),
+        ...poll(70, 30, { poll_id: 5, fte_grade: "C" }),
+        ...poll(40, 60, { poll_id: 6, state: "TX" }),
+        ...poll(40, 60, { poll_id: 7, state: "Atlantis" }),
+      ],
+    });
+    const polls = await collectStatewidePolls(source);
+    expect(polls.coverage).toBe(1);
+    expect(polls.asOf).toBe("2024-10-30");
+    // The month-old poll keeps about half the newer one's weight.
+    expect(polls.shares.PA).toBeGreaterThan(0.515);
+    expect(polls.shares.PA).toBeLessThan(0.55);
+    expect(polls.details.PA).toMatchObject({
+      polls: 2,
+      pollsters: 2,
+      latestEndDate: "10/30/24",
+      races: ["President"],
+    });
+
+    const single = await collectStatewidePolls(source, {
+      ...DEFAULT_POLL_AVERAGE_OPTIONS,
+      minPolls: 1,
+    });
+    expect(single.shares.TX).toBeCloseTo(0.4, 12);
+  });
+
+  it("applies the request filters to every row", async () => {
+    const source = createFixturePollSource({
+      president: [
+        ...poll(50, 50, { poll_id: 1 }),
+        ...poll(60, 40, { poll_id: 2, partisan: "DEM" }),
+        ...poll(60, 40, { poll_id: 3, population: "a", end_date: "09/01/24" }),
+        ...poll(60, 40, { poll_id: 4, fte_grade: "B-" }),
+        ...poll(60, 40, { poll_id: 5, cycle: 2020 }),
+      ],
+      senate: poll(60, 40, { poll_id: 6 }),
+    });
+    const only = async (filters: Partial<PollFilters>) =>
+      (
+        await collectStatewidePolls(
+          source,
+          { ...DEFAULT_POLL_AVERAGE_OPTIONS, minPolls: 1 },
+          { ...DEFAULT_POLL_FILTERS, ...filters }
+        )
+      ).details.PA?.polls ?? 0;
+
+    expect(await only({})).toBe(5);
+    expect(await only({ races: ["president"] })).toBe(4);
+    expect(await only({ cycle: 2024 })).toBe(4);
+    expect(await only({ includePartisan: true })).toBe(6);
+    expect(await only({ populations: ["lv"] })).toBe(4);
+    expect(await only({ minGrade: "B" })).toBe(4);
+    expect(await only({ startDate: "2024-10-01", endDate: "2024-10-31" })).toBe(4);
+  });
+
+  it("keeps polls without an id apart by pollster and end date", async () => {
+    const source = createFixturePollSource({
+      president: [
+        ...poll(50, 50, { poll_id: null, pollster: "First", end_date: "10/01/24" }),
+        ...poll(54, 46, { poll_id: null, pollster: "First", end_date: "10/20/24" }),
+        ...poll(52, 48, { poll_id: null, pollster: "Second", end_date: "10/20/24" }),
+      ],
+    });
+    const { details } = await collectStatewidePolls(source);
+    expect(details.PA).toMatchObject({ polls: 3, pollsters: 2 });
+  });
+
+  it("moves only part way when a new poll lands", () => {
+    const steady = Array.from({ length: 6 }, (_, index) =>
+      statePoll({
+        pollKey: `president:PA:${index}`,
+        pollster: `Pollster ${index}`,
+        time: Date.UTC(2024, 9, 30 - index * 3),
+      })
+    );
+    const before = averageStatePolls(steady).PA;
+    const after = averageStatePolls([
+      ...steady,
+      statePoll({ pollKey: "president:PA:new", pollster: "New", share: 0.56 }),
+    ]).PA;
+    expect(after.share - before.share).toBeGreaterThan(0);
+    expect(after.share - before.share).toBeLessThan(0.02);
+    expect(after.uncertainty).toBeGreaterThan(0.004);
+    expect(before.uncertainty).toBeLessThan(0.02);
+  });
+
+  it("removes a pollster's house effect learned in other states", () => {
+    const polls = [
+      ...["OH", "MI", "WI"].flatMap((abbr) => [
+        statePoll({ stateAbbr: abbr, pollKey: `${abbr}:lean`, pollster: "Lean", share: 0.56 }),
+        statePoll({ stateAbbr: abbr, pollKey: `${abbr}:even`, pollster: "Even", share: 0.5 }),
+      ]),
+      statePoll({ stateAbbr: "NV", pollKey: "NV:1", pollster: "Lean", share: 0.56 }),
+      statePoll({ stateAbbr: "NV", pollKey: "NV:2", pollster: "Lean", share: 0.56 }),
+    ];
+    const nevada = averageStatePolls(polls).NV.share;
+    expect(nevada).toBeLessThan(0.55);
+    expect(nevada).toBeGreaterThan(0.5);
+  });
+});
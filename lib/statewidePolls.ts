@@ -0,0 +1,397 @@
+import type { StatePopulation } from "@/lib/metrics";
+import {
+  DEFAULT_POLL_FILTERS,
+  POLL_GRADES,
+  POLL_POPULATIONS,
+  pollGradeRank,
+  type PollFilters,
+} from "@/lib/pollFilters";
+import { POLL_RACES, type PollRace } from "@/lib/pollRaces";
+import type { PollRow, PollSourceAdapter } from "@/lib/pollSources";
+import populations from "@/data/populations.json";
+
+type PollGroup = {
+  stateAbbr: string;
+  source: PollRace;
+  pollKey: string;
+  pollster: string;
+  grade: string | null;
+  endDate: string;
+  sampleSize: number | null;
+  demPct?: number;
+  repPct?: number;
+};
+
+// One question from one poll, reduced to its Democratic two-party share.
+export type StatePoll = {
+  stateAbbr: string;
+  race: PollRace;
+  // Questions from the same poll share a key and split its weight.
+  pollKey: string;
+  pollster: string;
+  grade: string | null;
+  endDate: string;
+  time: number;
+  sampleSize: number | null;
+  share: number;
+};
+
+export type PollAverageOptions = {
+  halfLifeDays: number;
+  // States with fewer distinct polls get no average.
+  minPolls: number;
+  // Polls age from this date; null uses the newest poll in the data.
+  asOf: Date | null;
+};
+
+export type StatePollAverage = {
+  share: number;
+  // Standard error of the average share.
+  uncertainty: number;
+  polls: number;
+  pollsters: number;
+  latestEndDate: string;
+  races: string[];
+};
+
+export type StatewidePolls = {
+  asOf: string | null;
+  coverage: number;
+  shares: Record<string, number>;
+  details: Record<string, StatePollAverage>;
+};
+
+export const DEFAULT_POLL_AVERAGE_OPTIONS: PollAverageOptions = {
+  halfLifeDays: 30,
+  minPolls: 2,
+  asOf: null,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const POLL_GRADE_COUNT = POLL_GRADES.length;
+// A typical statewide sample; larger polls count for more, up to a cap.
+const REFERENCE_SAMPLE = 600;
+const MAX_SAMPLE = 3000;
+// House effects are shrunk toward zero as if each pollster had this many
+// polls sitting exactly on the average.
+const HOUSE_EFFECT_PRIOR_POLLS = 4;
+// Error no amount of polling removes: house effects, turnout, late swings.
+const NONSAMPLING_ERROR = 0.01;
+// Older polls, at under 2% of a fresh poll's weight, are dropped so they
+// neither count toward the minimum nor linger from past cycles.
+const MAX_AGE_HALF_LIVES = 6;
+
+const parseDate = (value: string) => {
+  const numeric = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (numeric) {
+    const month = Number(numeric[1]);
+    const day = Number(numeric[2]);
+    let year = Number(numeric[3]);
+    if (year < 100) {
+      year += year >= 70 ? 1900 : 2000;
+    }
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const toNumber = (value: number | string | null) => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const passesPollFilters = (row: PollRow, filters: PollFilters) => {
+  const rank = pollGradeRank(row.fte_grade);
+  if (rank === null || rank > (pollGradeRank(filters.minGrade) ?? 0)) return false;
+
+  if (filters.cycle !== null && toNumber(row.cycle) !== filters.cycle) return false;
+
+  // Rows without a population code only pass when every population does.
+  const population = (row.population ?? "").trim().toLowerCase();
+  const allowed = filters.populations.some((entry) => entry === population);
+  if (!allowed && (population || filters.populations.length < POLL_POPULATIONS.length)) {
+    return false;
+  }
+
+  const partisan = (row.partisan ?? "").trim();
+  if (partisan && !filters.includePartisan) return false;
+
+  const internalValue =
+    typeof row.internal === "string" ? row.internal.trim().toLowerCase() : row.internal;
+  if (
+    internalValue === true ||
+    internalValue === 1 ||
+    internalValue === "1" ||
+    internalValue === "true" ||
+    internalValue === "yes"
+  ) {
+    return filters.includeInternal;
+  }
+  return true;
+};
+
+const stateMaps = () => {
+  const byName: Record<string, string> = {};
+  const byAbbr: Record<string, string> = {};
+  (populations as StatePopulation[]).forEach((state) => {
+    byName[state.state.toLowerCase()] = state.abbr;
+    byAbbr[state.abbr.toUpperCase()] = state.abbr;
+  });
+  return { byName, byAbbr };
+};
+
+const resolveStateAbbr = (
+  rawState: string | null,
+  maps: ReturnType<typeof stateMaps>
+) => {
+  if (!rawState) return null;
+  const trimmed = rawState.trim();
+  if (!trimmed) return null;
+  if (trimmed.length === 2) {
+    return maps.byAbbr[trimmed.toUpperCase()] ?? null;
+  }
+  return maps.byName[trimmed.toLowerCase()] ?? null;
+};
+
+const raceWeight = (race: PollRace) => {
+  if (race === "president") return 1;
+  if (race === "senate") return 2 / 3;
+  return 1 / 3;
+};
+
+// 1 for A+, falling 0.05 a step: 0.7 for B-, 0.25 for F.
+const gradeWeight = (grade: string | null) =>
+  1 - 0.05 * (pollGradeRank(grade) ?? POLL_GRADE_COUNT);
+
+const sampleWeight = (sampleSize: number | null) =>
+  Math.sqrt(
+    Math.min(MAX_SAMPLE, sampleSize && sampleSize > 0 ? sampleSize : REFERENCE_SAMPLE) /
+      REFERENCE_SAMPLE
+  );
+
+// The tables can hold every cycle, too many rows to spread into Math.max.
+const newestPollTime = (polls: StatePoll[]) =>
+  polls.reduce((newest, poll) => Math.max(newest, poll.time), 0);
+
+const toStatePoll = (group: PollGroup): StatePoll | null => {
+  if (group.demPct == null || group.repPct == null) return null;
+  const twoPartyTotal = group.demPct + group.repPct;
+  if (twoPartyTotal <= 0) return null;
+  return {
+    stateAbbr: group.stateAbbr,
+    race: group.source,
+    pollKey: group.pollKey,
+    pollster: group.pollster,
+    grade: group.grade,
+    endDate: group.endDate,
+    time: parseDate(group.endDate)?.getTime() ?? 0,
+    sampleSize: group.sampleSize,
+    share: group.demPct / twoPartyTotal,
+  };
+};
+
+// Weights before house effects: recency decay, sample size, pollster grade
+// and race, split across a poll's questions and damped for pollsters with
+// several polls in the state.
+const baseWeights = (polls: StatePoll[], asOf: number, halfLifeDays: number) => {
+  const questions = new Map<string, number>();
+  const pollsterPolls = new Map<string, Set<string>>();
+  polls.forEach((poll) => {
+    questions.set(poll.pollKey, (questions.get(poll.pollKey) ?? 0) + 1);
+    const key = `${poll.stateAbbr}:${poll.pollster}`;
+    pollsterPolls.set(key, (pollsterPolls.get(key) ?? new Set()).add(poll.pollKey));
+  });
+  return polls.map((poll) => {
+    const ageDays = Math.max(0, (asOf - poll.time) / DAY_MS);
+    const recency = Math.pow(0.5, ageDays / halfLifeDays);
+    // Both maps were filled from these polls; 1 only satisfies the types.
+    const repeats = pollsterPolls.get(`${poll.stateAbbr}:${poll.pollster}`)?.size ?? 1;
+    const questionCount = questions.get(poll.pollKey) ?? 1;
+    return (
+      (recency *
+        sampleWeight(poll.sampleSize) *
+        gradeWeight(poll.grade) *
+        raceWeight(poll.race)) /
+      questionCount /
+      Math.sqrt(repeats)
+    );
+  });
+};
+
+const weightedMeans = (polls: StatePoll[], weights: number[], shares: number[]) => {
+  const totals = new Map<string, { weight: number; sum: number }>();
+  polls.forEach((poll, index) => {
+    const total = totals.get(poll.stateAbbr) ?? { weight: 0, sum: 0 };
+    total.weight += weights[index];
+    total.sum += weights[index] * shares[index];
+    totals.set(poll.stateAbbr, total);
+  });
+  const means: Record<string, number> = {};
+  totals.forEach((total, abbr) => {
+    if (total.weight > 0) means[abbr] = total.sum / total.weight;
+  });
+  return means;
+};
+
+// Weighted average of each state's polls. A pollster's house effect is its
+// weighted lean against the state averages across every state it polls,
+// shrunk toward zero and removed from its polls before the final average.
+export const averageStatePolls = (
+  polls: StatePoll[],
+  options: PollAverageOptions = DEFAULT_POLL_AVERAGE_OPTIONS
+): Record<string, StatePollAverage> => {
+  const asOfTime = options.asOf?.getTime() ?? newestPollTime(polls);
+  const oldest = asOfTime - MAX_AGE_HALF_LIVES * options.halfLifeDays * DAY_MS;
+  const current = polls.filter((poll) => poll.time <= asOfTime && poll.time >= oldest);
+  const weights = baseWeights(current, asOfTime, options.halfLifeDays);
+  const raw = weightedMeans(current, weights, current.map((poll) => poll.share));
+
+  const leans = new Map<string, { weight: number; sum: number; polls: Set<string> }>();
+  current.forEach((poll, index) => {
+    const lean = leans.get(poll.pollster) ?? { weight: 0, sum: 0, polls: new Set() };
+    lean.weight += weights[index];
+    lean.sum += weights[index] * (poll.share - raw[poll.stateAbbr]);
+    lean.polls.add(poll.pollKey);
+    leans.set(poll.pollster, lean);
+  });
+  const houseEffect = (pollster: string) => {
+    const lean = leans.get(pollster);
+    if (!lean || lean.weight <= 0) return 0;
+    const count = lean.polls.size;
+    return ((lean.sum / lean.weight) * count) / (count + HOUSE_EFFECT_PRIOR_POLLS);
+  };
+  const adjusted = current.map((poll) => poll.share - houseEffect(poll.pollster));
+  const means = weightedMeans(current, weights, adjusted);
+
+  const byState = new Map<string, number[]>();
+  current.forEach((poll, index) => {
+    const indexes = byState.get(poll.stateAbbr) ?? [];
+    indexes.push(index);
+    byState.set(poll.stateAbbr, indexes);
+  });
+
+  const averages: Record<string, StatePollAverage> = {};
+  byState.forEach((indexes, abbr) => {
+    const statePolls = indexes.map((index) => current[index]);
+    const pollCount = new Set(statePolls.map((poll) => poll.pollKey)).size;
+    const mean = means[abbr];
+    if (pollCount < options.minPolls || mean === undefined) return;
+
+    const totalWeight = indexes.reduce((sum, index) => sum + weights[index], 0);
+    const spread =
+      indexes.reduce(
+        (sum, index) => sum + weights[index] * (adjusted[index] - mean) ** 2,
+        0
+      ) / totalWeight;
+    // Each poll's error is sampling noise plus the spread between polls and
+    // a nonsampling floor; the average's error follows from its weights.
+    const variance = indexes.reduce((sum, index) => {
+      const sample = current[index].sampleSize || REFERENCE_SAMPLE;
+      const pollVariance =
+        (mean * (1 - mean)) / sample + spread + NONSAMPLING_ERROR ** 2;
+      return sum + weights[index] ** 2 * pollVariance;
+    }, 0);
+
+    const latest = statePolls.reduce((a, b) => (b.time > a.time ? b : a));
+    averages[abbr] = {
+      share: Math.max(0.1, Math.min(0.9, mean)),
+      uncertainty: Math.sqrt(variance) / totalWeight,
+      polls: pollCount,
+      pollsters: new Set(statePolls.map((poll) => poll.pollster)).size,
+      latestEndDate: latest.endDate,
+      races: POLL_RACES.filter((race) =>
+        statePolls.some((poll) => poll.race === race.key)
+      ).map((race) => race.label),
+    };
+  });
+  return averages;
+};
+
+// Polls in every state that pass the filters, whichever adapter supplied
+// the rows.
+export const collectStatePolls = async (
+  adapter: PollSourceAdapter,
+  filters: PollFilters = DEFAULT_POLL_FILTERS
+) => {
+  const maps = stateMaps();
+  const groups = new Map<string, PollGroup>();
+  const start = filters.startDate ? Date.parse(filters.startDate) : -Infinity;
+  const end = filters.endDate ? Date.parse(filters.endDate) : Infinity;
+
+  for (const source of POLL_RACES.filter((race) => filters.races.includes(race.key))) {
+    const payload = await adapter.fetchRows(source.key);
+    payload.forEach((row) => {
+      if (!passesPollFilters(row, filters)) return;
+      const stateAbbr = resolveStateAbbr(row.state, maps);
+      if (!stateAbbr) return;
+
+      const endDate = (row.end_date ?? "").trim();
+      if (!endDate) return;
+      const endTime = parseDate(endDate)?.getTime();
+      if (endTime === undefined || endTime < start || endTime > end) return;
+
+      const pct = toNumber(row.pct);
+      if (pct == null) return;
+      if (pct < 0 || pct > 100) return;
+
+      const pollster = (row.pollster ?? "Unknown").trim() || "Unknown";
+      // Rows without a poll id fall back to the pollster and end date, so
+      // separate polls do not merge into one.
+      const pollId = String(row.poll_id ?? "").trim();
+      const pollKey = pollId
+        ? `${source.key}:${stateAbbr}:${pollId}`
+        : `${source.key}:${stateAbbr}:${pollster}:${endDate}`;
+      const questionKey = `${pollKey}:${String(row.question_id ?? "")}:${endDate}`;
+      const existing = groups.get(questionKey);
+      const base: PollGroup =
+        existing ??
+        ({
+          stateAbbr,
+          source: source.key,
+          pollKey,
+          pollster,
+          grade: row.fte_grade?.trim() || null,
+          endDate,
+          sampleSize: toNumber(row.sample_size),
+        } satisfies PollGroup);
+
+      if (row.candidate_party === "DEM") base.demPct = pct;
+      if (row.candidate_party === "REP") base.repPct = pct;
+      groups.set(questionKey, base);
+    });
+  }
+
+  const polls: StatePoll[] = [];
+  groups.forEach((group) => {
+    const poll = toStatePoll(group);
+    if (poll) polls.push(poll);
+  });
+  return polls;
+};
+
+export const collectStatewidePolls = async (
+  adapter: PollSourceAdapter,
+  options: PollAverageOptions = DEFAULT_POLL_AVERAGE_OPTIONS,
+  filters: PollFilters = DEFAULT_POLL_FILTERS
+): Promise<StatewidePolls> => {
+  const polls = await collectStatePolls(adapter, filters);
+  const details = averageStatePolls(polls, options);
+
+  const shares: Record<string, number> = {};
+  Object.entries(details).forEach(([abbr, result]) => {
+    shares[abbr] = result.share;
+  });
+
+  const asOf = options.asOf ?? (polls.length > 0 ? new Date(newestPollTime(polls)) : null);
+  return {
+    asOf: asOf ? asOf.toISOString().slice(0, 10) : null,
+    coverage: Object.keys(shares).length,
+    shares,
+    details,
+  };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import populations from "../data/populations.json";
+import { apportion } from "./apportionment";
+import { presidentialDemShares } from "./elections";
+import { computeECVotes, type StatePopulation } from "./metrics";
+import { computePathToMajority } from "./tippingPoint";
+
+const states = populations as StatePopulation[];
+
+const electors2020Census = () => {
+  const byState: Record<string, number> = {};
+  states
+    .filter((state) => state.abbr !== "DC")
+    .forEach((state) => {
+      byState[state.abbr] = state.population;
+    });
+  const seats = apportion(byState, 435);
+  const electors: Record<string, number> = {};
+  states.forEach((state) => {
+    electors[state.abbr] = computeECVotes(
+      state.abbr,
+      seats[state.abbr] ?? 0,
+      state.abbr in seats
+    );
+  });
+  return electors;
+};
+
+describe("path to a majority", () => {
+  it("finds the tipping point and the cheapest flips", () => {
+    const path = computePathToMajority(
+      { A: 5, B: 4, C: 3, D: 2 },
+      { A: 0.7, B: 0.52, C: 0.49, D: 0.3 }
+    );
+    expect(path.majority).toBe(8);
+    expect(path.ordered.map((state) => state.abbr)).toEqual(["A", "B", "C", "D"]);
+    expect(path.tippingPoint?.abbr).toBe("B");
+    expect(path.ecMargin).toBe(4);
+    expect(path.democraticFlips).toEqual([]);
+    // Flipping the closest Democratic state, B, takes Republicans to 9.
+    expect(path.republicanFlips?.map((state) => state.abbr)).toEqual(["B"]);
+  });
+
+  it("flips the fewest electors rather than walking by margin", () => {
+    const path = computePathToMajority(
+      { A: 10, B: 4, C: 4, D: 4, E: 3 },
+      { A: 0.58, B: 0.51, C: 0.52, D: 0.53, E: 0.4 }
+    );
+    // Republicans need 10 more: the three narrowest states would take 12,
+    // A alone takes exactly 10.
+    expect(path.majority).toBe(13);
+    expect(path.republicanFlips?.map((state) => state.abbr)).toEqual(["A"]);
+  });
+
+  it("leaves states without a share out of the path", () => {
+    const path = computePathToMajority({ A: 3, B: 3, C: 3 }, { A: 0.6 });
+    expect(path.unassigned).toBe(6);
+    expect(path.tippingPoint).toBeNull();
+    expect(path.democraticFlips).toBeNull();
+  });
+
+  it("puts Wisconsin at the tipping point in 2020", () => {
+    const path = computePathToMajority(electors2020Census(), presidentialDemShares(2020));
+    expect(path.democrats + path.republicans).toBe(538);
+    expect(path.tippingPoint?.abbr).toBe("WI");
+    // 35 electors short: Georgia and Pennsylvania cover it exactly, where the
+    // three narrowest states (GA, AZ, WI) would take 37.
+    expect(path.republicanFlips?.map((state) => state.abbr)).toEqual(["GA", "PA"]);
+  });
+});
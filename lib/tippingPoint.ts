@@ -0,0 +1,135 @@
+type Party = "D" | "R";
+
+export type PathState = {
+  abbr: string;
+  electors: number;
+  demShare: number;
+  // Two-party margin, D minus R: 2 × share − 1.
+  margin: number;
+  winner: Party;
+};
+
+export type PathToMajority = {
+  total: number;
+  majority: number;
+  democrats: number;
+  republicans: number;
+  // Electors from entities without a vote-share input.
+  unassigned: number;
+  // D electors minus R electors.
+  ecMargin: number;
+  // Most Democratic first.
+  ordered: PathState[];
+  // The state that carries the leader past the majority, counting from the
+  // leader's strongest state.
+  tippingPoint: PathState | null;
+  // The fewest electors each side would have to flip to win, narrowest
+  // first. Empty when the side already has a majority; null when even every
+  // flip falls short.
+  democraticFlips: PathState[] | null;
+  republicanFlips: PathState[] | null;
+};
+
+type FlipSet = { margin: number; states: PathState[] };
+
+const isBetterFlipSet = (candidate: FlipSet, current: FlipSet | undefined) => {
+  if (!current) return true;
+  if (Math.abs(candidate.margin - current.margin) > 1e-12) {
+    return candidate.margin < current.margin;
+  }
+  return candidate.states.length < current.states.length;
+};
+
+// The cheapest set of the other side's states to flip: the fewest electors
+// that reach a majority, then the narrowest total margin, then the fewest
+// states. A 0/1 knapsack over elector counts.
+const flipsFor = (
+  party: Party,
+  ordered: PathState[],
+  held: number,
+  majority: number
+): PathState[] | null => {
+  const needed = majority - held;
+  if (needed <= 0) return [];
+  const targets = ordered.filter((state) => state.winner !== party);
+  const available = targets.reduce((sum, state) => sum + state.electors, 0);
+  if (available < needed) return null;
+
+  const best: (FlipSet | undefined)[] = [{ margin: 0, states: [] }];
+  targets.forEach((state) => {
+    for (let electors = available; electors >= state.electors; electors -= 1) {
+      const base = best[electors - state.electors];
+      if (!base) continue;
+      const candidate = {
+        margin: base.margin + Math.abs(state.margin),
+        states: [...base.states, state],
+      };
+      if (isBetterFlipSet(candidate, best[electors])) best[electors] = candidate;
+    }
+  });
+
+  for (let electors = needed; electors <= available; electors += 1) {
+    const set = best[electors];
+    if (set) {
+      return [...set.states].sort(
+        (a, b) => Math.abs(a.margin) - Math.abs(b.margin) || a.abbr.localeCompare(b.abbr)
+      );
+    }
+  }
+  return null;
+};
+
+// Winner-take-all by statewide vote; a share of exactly one half goes
+// Republican, as in the electoral vote counter.
+export const computePathToMajority = (
+  electorsByState: Record<string, number>,
+  demShareByState: Record<string, number>
+): PathToMajority => {
+  const total = Object.values(electorsByState).reduce((sum, value) => sum + value, 0);
+  const majority = Math.floor(total / 2) + 1;
+
+  const ordered: PathState[] = Object.entries(electorsByState)
+    .filter(([abbr, electors]) => electors > 0 && demShareByState[abbr] !== undefined)
+    .map(([abbr, electors]) => {
+      const demShare = demShareByState[abbr];
+      return {
+        abbr,
+        electors,
+        demShare,
+        margin: 2 * demShare - 1,
+        winner: demShare > 0.5 ? ("D" as const) : ("R" as const),
+      };
+    })
+    .sort((a, b) => b.margin - a.margin || a.abbr.localeCompare(b.abbr));
+
+  const sumFor = (party: Party) =>
+    ordered
+      .filter((state) => state.winner === party)
+      .reduce((sum, state) => sum + state.electors, 0);
+  const democrats = sumFor("D");
+  const republicans = sumFor("R");
+
+  let tippingPoint: PathState | null = null;
+  const leader = democrats >= republicans ? ordered : [...ordered].reverse();
+  let cumulative = 0;
+  for (const state of leader) {
+    cumulative += state.electors;
+    if (cumulative >= majority) {
+      tippingPoint = state;
+      break;
+    }
+  }
+
+  return {
+    total,
+    majority,
+    democrats,
+    republicans,
+    unassigned: total - democrats - republicans,
+    ecMargin: democrats - republicans,
+    ordered,
+    tippingPoint,
+    democraticFlips: flipsFor("D", ordered, democrats, majority),
+    republicanFlips: flipsFor("R", ordered, republicans, majority),
+  };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import {
+  censusYearForElection,
+  findTippingHouseSizes,
+  firstChangeAbove,
+} from "./tippingSizes";
+
+describe("tipping House sizes", () => {
+  it("uses the census in force at each election", () => {
+    expect(censusYearForElection(1960)).toBe(1950);
+    expect(censusYearForElection(1980)).toBe(1970);
+    expect(censusYearForElection(2000)).toBe(1990);
+    expect(censusYearForElection(2024)).toBe(2020);
+  });
+
+  it("finds where 2000 and 2016 would flip", () => {
+    const search = findTippingHouseSizes(undefined, undefined, 1200, [2000, 2016]);
+    expect(search.minSize).toBe(50);
+    const [election2000, election2016] = search.elections;
+
+    expect(election2000.enactedWinner).toBe("R");
+    expect(election2000.winners).toHaveLength(1151);
+    // At 491 seats Bush holds 297 of 594 electors, one short of a majority.
+    expect(election2000.flips[0]).toEqual({ houseSize: 491, from: "R", to: null });
+    expect(firstChangeAbove(election2000, search.minSize)).toBe(491);
+
+    expect(election2016.enactedWinner).toBe("R");
+    expect(election2016.flips).toEqual([]);
+    expect(firstChangeAbove(election2016, search.minSize)).toBeNull();
+  });
+
+  it("marks every change between neighbouring sizes", () => {
+    const search = findTippingHouseSizes(undefined, undefined, 700, [1976]);
+    const [entry] = search.elections;
+    entry.flips.forEach((flip) => {
+      const index = flip.houseSize - search.minSize;
+      expect(entry.winners[index - 1]).toBe(flip.from);
+      expect(entry.winners[index]).toBe(flip.to);
+    });
+    expect(entry.enactedWinner).toBe("D");
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  DEFAULT_APPORTIONMENT_METHOD,
+  sweepApportionment,
+  type ApportionmentMethod,
+  type PopulationByState,
+} from "@/lib/apportionment";
+import { getCensusDataset } from "@/lib/census";
+import { EXPLORER_MAX_HOUSE_SIZE } from "@/lib/constraints";
+import {
+  computeHistoricalEcOutcomes,
+  DEFAULT_ELECTORAL_SYSTEM,
+  ELECTION_YEARS,
+  NPVIC_MEMBERS,
+  type ElectionYear,
+  type ElectoralSystemOptions,
+  type ElectoralTally,
+} from "@/lib/elections";
+import {
+  buildStateMetrics,
+  computeDistrictSeats,
+  type StateMetrics,
+  type StatePopulation,
+} from "@/lib/metrics";
+import { PROPORTIONAL_SEAT_VOTE_CURVE } from "@/lib/overlays";
+
+type Winner = ElectoralTally["winner"];
+
+export type HouseSizeFlip = {
+  houseSize: number;
+  from: Winner;
+  to: Winner;
+};
+
+export type TippingHouseSizes = {
+  year: ElectionYear;
+  censusYear: number;
+  enactedSize: number;
+  enactedWinner: Winner;
+  // Winner at every size from the search's `minSize` to `maxSize`.
+  winners: Winner[];
+  // Sizes whose winner differs from the size one seat smaller.
+  flips: HouseSizeFlip[];
+};
+
+export type TippingHouseSizeSearch = {
+  minSize: number;
+  maxSize: number;
+  elections: TippingHouseSizes[];
+};
+
+// The census whose apportionment was in force for an election.
+export const censusYearForElection = (year: ElectionYear) =>
+  Math.floor((year - 2) / 10) * 10;
+
+// Alaska and Hawaii voted in 1960 before the 1960 census; they are added to
+// the 1950 table at their 1960 counts.
+const statesForCensus = (censusYear: number): StatePopulation[] => {
+  const { states } = getCensusDataset(censusYear);
+  if (censusYear !== 1950) return states;
+  const added = getCensusDataset(1960).states.filter((state) =>
+    ["AK", "HI"].includes(state.abbr)
+  );
+  return [...states, ...added];
+};
+
+// First size above the enacted House whose winner differs from the enacted
+// House's, or null when none does.
+export const firstChangeAbove = (entry: TippingHouseSizes, minSize: number) => {
+  const start = entry.enactedSize - minSize;
+  const index = entry.winners.findIndex(
+    (winner, offset) => offset > start && winner !== entry.enactedWinner
+  );
+  return index === -1 ? null : minSize + index;
+};
+
+// Replays every election at every House size from one seat per state to
+// `maxSize`, on the populations of the census in force at the time.
+export const findTippingHouseSizes = (
+  options: ElectoralSystemOptions = {
+    system: DEFAULT_ELECTORAL_SYSTEM,
+    compactMembers: NPVIC_MEMBERS,
+    seatVoteCurve: PROPORTIONAL_SEAT_VOTE_CURVE,
+  },
+  method: ApportionmentMethod = DEFAULT_APPORTIONMENT_METHOD,
+  maxSize = EXPLORER_MAX_HOUSE_SIZE,
+  years: ElectionYear[] = ELECTION_YEARS
+): TippingHouseSizeSearch => {
+  const byCensus = new Map<number, ElectionYear[]>();
+  years.forEach((year) => {
+    const censusYear = censusYearForElection(year);
+    byCensus.set(censusYear, [...(byCensus.get(censusYear) ?? []), year]);
+  });
+
+  let minSize = maxSize;
+  const groups = [...byCensus.entries()].map(([censusYear, groupYears]) => {
+    const states = statesForCensus(censusYear);
+    const populations: PopulationByState = {};
+    states
+      .filter((state) => state.abbr !== "DC")
+      .forEach((state) => {
+        populations[state.abbr] = state.population;
+      });
+    minSize = Math.min(minSize, Object.keys(populations).length);
+    return { censusYear, groupYears, states, populations };
+  });
+
+  const elections: TippingHouseSizes[] = [];
+  groups.forEach(({ censusYear, groupYears, states, populations }) => {
+    const floor = Object.keys(populations).length;
+    const sweep = sweepApportionment(populations, floor, maxSize, method);
+    const nationalPopulation = Object.values(populations).reduce((a, b) => a + b, 0);
+    const winnersByYear = groupYears.map((): Winner[] => []);
+
+    for (let houseSize = minSize; houseSize <= maxSize; houseSize += 1) {
+      if (houseSize < floor) {
+        winnersByYear.forEach((winners) => winners.push(null));
+        continue;
+      }
+      const seats = sweep.seatsAt(houseSize);
+      const districtSeats = computeDistrictSeats(states, seats);
+      const metricsByState: Record<string, StateMetrics> = {};
+      states.forEach((state) => {
+        metricsByState[state.abbr] = buildStateMetrics(
+          state,
+          seats,
+          seats,
+          { nationalPopulation, totalSeats: houseSize },
+          { districtSeats }
+        );
+      });
+      computeHistoricalEcOutcomes(metricsByState, options, groupYears).forEach(
+        (outcome, index) => winnersByYear[index].push(outcome.winner)
+      );
+    }
+
+    const enactedSize = getCensusDataset(censusYear).houseSize;
+    groupYears.forEach((year, index) => {
+      const winners = winnersByYear[index];
+      const flips: HouseSizeFlip[] = [];
+      for (let houseSize = floor + 1; houseSize <= maxSize; houseSize += 1) {
+        const from = winners[houseSize - 1 - minSize];
+        const to = winners[houseSize - minSize];
+        if (from !== to) flips.push({ houseSize, from, to });
+      }
+      elections.push({
+        year,
+        censusYear,
+        enactedSize,
+        enactedWinner: winners[enactedSize - minSize] ?? null,
+        winners,
+        flips,
+      });
+    });
+  });
+
+  elections.sort((a, b) => a.year - b.year);
+  return { minSize, maxSize, elections };
+};
@@ -0,0 +1,16 @@
+import type { ApportionmentMethod } from "@/lib/apportionment";
+import type { ElectoralSystemOptions } from "@/lib/elections";
+import { findTippingHouseSizes } from "@/lib/tippingSizes";
+
+// Runs one search per message, tagged with the caller's request id so stale
+// results can be dropped.
+self.onmessage = (
+  event: MessageEvent<{
+    id: number;
+    options: ElectoralSystemOptions;
+    method: ApportionmentMethod;
+  }>
+) => {
+  const { id, options, method } = event.data;
+  self.postMessage({ id, search: findTippingHouseSizes(options, method) });
+};